@@ -0,0 +1,203 @@
+import { Writable } from 'stream';
+import { ReadStream } from 'tty';
+import { ProfileSnapshot, SwipeDecision } from './types';
+
+/**
+ * What the user chose for a card in assisted mode.
+ */
+export type AssistChoice =
+  /** Carry out the strategy's suggestion. */
+  | 'accept'
+  /** Like the profile, whatever was suggested. */
+  | 'like'
+  /** Pass on the profile, whatever was suggested. */
+  | 'pass'
+  /** Move on without liking or passing. Only offered when the request's canSkip is true. */
+  | 'skip'
+  /** End the session. */
+  | 'quit';
+
+/**
+ * Everything shown to the user when asking about a card.
+ */
+export interface AssistRequest {
+  /** The site the card is on. */
+  site: string;
+  /** The number of the swipe being decided, starting at 1. */
+  swipeNumber: number;
+  /** The profile on the card. */
+  profile: ProfileSnapshot;
+  /** What the decision strategy suggests. */
+  suggestion: SwipeDecision;
+  /**
+   * Whether the site can move on without liking or passing, that is whether its module implements
+   * skipProfile. None of the built-in sites can, so skip is only offered on plugin sites.
+   */
+  canSkip: boolean;
+  /** Optional: Aborted when the session stops. A prompt still waiting its turn is then answered with 'quit' without being shown. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Asks the user to confirm each swipe in assisted mode.
+ */
+export interface SwipeAssistant {
+  /**
+   * Asks the user what to do with a card.
+   * @param request - The card and the strategy's suggestion.
+   * @returns A promise that resolves to the user's choice.
+   */
+  confirm(request: AssistRequest): Promise<AssistChoice>;
+}
+
+/**
+ * Runs prompts one at a time, so sessions running side by side never ask at once.
+ */
+export class PromptQueue {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Runs a prompt once every prompt queued before it has finished.
+   * @param prompt - Shows the prompt and waits for the answer.
+   * @returns A promise that resolves to the prompt's answer.
+   */
+  run<T>(prompt: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(prompt);
+    // A failed prompt must not block the prompts queued after it
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+}
+
+/**
+ * Formats a profile snapshot as a one-line summary, followed by the bio if there is one.
+ * @param profile - The profile snapshot.
+ * @returns The summary.
+ */
+export function formatProfile(profile: ProfileSnapshot): string {
+  const name = [profile.name ?? 'Unknown name', profile.age].filter((part) => part !== undefined).join(', ');
+  const details = [
+    name,
+    profile.distanceKm !== undefined ? `${profile.distanceKm} km away` : undefined,
+    profile.photoCount !== undefined ? `${profile.photoCount} photo${profile.photoCount === 1 ? '' : 's'}` : undefined,
+    profile.verified ? 'verified' : undefined,
+    profile.matchPercentage !== undefined ? `${profile.matchPercentage}% match` : undefined,
+  ].filter((detail) => detail !== undefined);
+  return profile.bio ? `${details.join(' | ')}\n  Bio: ${profile.bio}` : details.join(' | ');
+}
+
+/** The keys the terminal assistant understands, and what they choose. */
+const KEY_CHOICES: Record<string, AssistChoice> = {
+  '\r': 'accept',
+  '\n': 'accept',
+  a: 'accept',
+  l: 'like',
+  p: 'pass',
+  s: 'skip',
+  q: 'quit',
+};
+
+/** Ctrl+C, which raw mode delivers as a key instead of a signal. */
+const CTRL_C = '\u0003';
+
+/**
+ * Asks for each swipe in the terminal and reads a single key press as the answer.
+ * All sessions share one prompt queue, so only one site asks at a time.
+ */
+export class TerminalAssistant implements SwipeAssistant {
+  private queue: PromptQueue;
+  private input: ReadStream;
+  private output: Writable;
+  private interrupt: () => void;
+
+  /**
+   * Creates an instance of TerminalAssistant.
+   * @param queue - Optional: The queue prompts wait in.
+   * @param input - Optional: The stream to read key presses from. Defaults to stdin.
+   * @param output - Optional: The stream to print prompts to. Defaults to stdout.
+   * @param interrupt - Optional: Called for Ctrl+C at a prompt. Defaults to raising SIGINT, so
+   * it stops every site as it does outside a prompt.
+   */
+  constructor(
+    queue: PromptQueue = new PromptQueue(),
+    input: ReadStream = process.stdin,
+    output: Writable = process.stdout,
+    interrupt: () => void = () => process.emit('SIGINT')
+  ) {
+    this.queue = queue;
+    this.input = input;
+    this.output = output;
+    this.interrupt = interrupt;
+  }
+
+  confirm(request: AssistRequest): Promise<AssistChoice> {
+    return this.queue.run(async () => {
+      // The session stopped while this prompt waited for the ones before it
+      if (request.signal?.aborted) {
+        return 'quit';
+      }
+      const { action, reason } = request.suggestion;
+      this.output.write(`\n[${request.site}] Profile #${request.swipeNumber}: ${formatProfile(request.profile)}\n`);
+      this.output.write(`  Suggestion: ${action}${reason ? ` (${reason})` : ''}\n`);
+
+      const skipKey = request.canSkip ? ', [s]kip' : '';
+      for (;;) {
+        this.output.write(`  [Enter] accept, [l]ike, [p]ass${skipKey}, [q]uit: `);
+        const pressed = await this.readKey(request.signal);
+        this.output.write('\n');
+        // The session stopped, or the input ended, while the prompt was on screen
+        if (pressed === undefined) {
+          return 'quit';
+        }
+        const key = pressed.toLowerCase();
+        if (key === CTRL_C) {
+          this.interrupt();
+          return 'quit';
+        }
+        const choice = KEY_CHOICES[key];
+        if (choice && (choice !== 'skip' || request.canSkip)) {
+          return choice;
+        }
+        this.output.write(`  Unknown key ${JSON.stringify(key)}.\n`);
+      }
+    });
+  }
+
+  /**
+   * Waits for a single key press. Input that is not a terminal is read a line at a time, and
+   * the first character counts.
+   * @param signal - Optional: Ends the wait early when aborted.
+   * @returns A promise that resolves to the key, or undefined if the signal aborted or the input
+   * ended first.
+   */
+  private readKey(signal?: AbortSignal): Promise<string | undefined> {
+    if (signal?.aborted || this.input.readableEnded || this.input.destroyed) {
+      return Promise.resolve(undefined);
+    }
+    return new Promise((resolve) => {
+      const isTerminal = this.input.isTTY === true;
+      const finish = (key: string | undefined) => {
+        this.input.off('data', onData);
+        this.input.off('end', onEnd);
+        this.input.off('close', onEnd);
+        signal?.removeEventListener('abort', onEnd);
+        if (isTerminal) {
+          this.input.setRawMode(false);
+        }
+        this.input.pause();
+        resolve(key);
+      };
+      const onData = (data: Buffer | string) => finish(data.toString().charAt(0));
+      const onEnd = () => finish(undefined);
+
+      if (isTerminal) {
+        this.input.setRawMode(true);
+      }
+      this.input.on('data', onData);
+      this.input.once('end', onEnd);
+      this.input.once('close', onEnd);
+      signal?.addEventListener('abort', onEnd, { once: true });
+      this.input.resume();
+    });
+  }
+}
@@ -1,6 +1,8 @@
 import { readFileSync } from "fs";
 import { join } from "path";
-import { AppConfig, SiteConfig, BrowserConfig } from "./types.js";
+import { AppConfig, SiteConfig, BrowserConfig, SiteCapabilities, RateBudgetConfig } from "./types.js";
+import { siteRegistry, SiteRegistry } from "./sites";
+import type { DecisionStrategy } from "./decisions";
 
 const DEFAULT_CONFIG: AppConfig = {
   sites: {
@@ -22,6 +24,15 @@ const DEFAULT_CONFIG: AppConfig = {
       },
       maxSwipesPerSession: 300,
     },
+    bumble: {
+      enabled: false,
+      likeRatio: 0.8,
+      swipeDelay: {
+        min: 1500,
+        max: 3000,
+      },
+      maxSwipesPerSession: 200,
+    },
   },
   browser: {
     headless: false,
@@ -29,17 +40,34 @@ const DEFAULT_CONFIG: AppConfig = {
   },
 };
 
+/**
+ * Thrown when a site's configuration asks for something the site module cannot do.
+ */
+export class UnsupportedSettingError extends Error {
+  siteName: string;
+  setting: keyof SiteConfig;
+  constructor(siteName: string, setting: keyof SiteConfig, reason: string) {
+    super(`${siteName} does not support "${setting}": ${reason}`);
+    this.siteName = siteName;
+    this.setting = setting;
+    this.name = "UnsupportedSettingError";
+  }
+}
+
 /**
  * Manages the application configuration, loading from a file and merging with defaults.
  */
 export class Config {
   private config: AppConfig;
+  private registry: SiteRegistry;
 
   /**
    * Creates an instance of Config.
    * @param configPath - The path to the configuration file.
+   * @param registry - The registry that decides which sites can run.
    */
-  constructor(configPath?: string) {
+  constructor(configPath?: string, registry: SiteRegistry = siteRegistry) {
+    this.registry = registry;
     try {
       const path = configPath || join(process.cwd(), "config.json");
       const configFile = readFileSync(path, "utf-8");
@@ -84,6 +112,8 @@ export class Config {
                   ? { ...currentSiteConfig.swipeDelay, ...globalFileConfig.swipeDelay }
                   : globalFileConfig.swipeDelay || currentSiteConfig.swipeDelay,
             };
+            // Selector packs are site-specific, so a selectorsFile only counts in the site's own section
+            delete currentSiteConfig.selectorsFile;
           }
 
           mergedSites[siteName] = {
@@ -93,6 +123,11 @@ export class Config {
               siteConfig.swipeDelay && currentSiteConfig.swipeDelay
                 ? { ...currentSiteConfig.swipeDelay, ...siteConfig.swipeDelay }
                 : siteConfig.swipeDelay || currentSiteConfig.swipeDelay,
+            // Filter rules add up: the site's own rules are checked first, then the global ones
+            filters:
+              siteConfig.filters && currentSiteConfig.filters
+                ? [...siteConfig.filters, ...currentSiteConfig.filters]
+                : siteConfig.filters || currentSiteConfig.filters,
           } as SiteConfig;
         }
       }
@@ -104,6 +139,9 @@ export class Config {
         ...defaultConfig.browser,
         ...fileConfig.browser,
       },
+      plugins: fileConfig.plugins ?? defaultConfig.plugins,
+      seed: fileConfig.seed ?? defaultConfig.seed,
+      rateBudget: fileConfig.rateBudget ?? defaultConfig.rateBudget,
     };
   }
 
@@ -136,6 +174,45 @@ export class Config {
     return configs;
   }
 
+  /**
+   * Checks that a site's configuration only asks for what the site supports.
+   * @param siteConfig - The site configuration, as returned by getSiteConfig.
+   * @param capabilities - The capabilities reported by the site module.
+   * @param strategy - Optional: The decision strategy created for the site, whose actions are checked too.
+   * @returns Warnings about settings the site accepts but can never act on.
+   * @throws {UnsupportedSettingError} If a setting cannot be honored by the site.
+   */
+  validateSiteConfig(siteConfig: SiteConfig, capabilities: SiteCapabilities, strategy?: DecisionStrategy): string[] {
+    const siteName = siteConfig.name ?? "site";
+    if (!capabilities.superLike && (siteConfig.superLikeRatio ?? 0) > 0) {
+      throw new UnsupportedSettingError(
+        siteName,
+        "superLikeRatio",
+        "the site has no super likes. Set it to 0 for this site."
+      );
+    }
+    if (!capabilities.superLike && strategy?.actions?.includes("superlike")) {
+      throw new UnsupportedSettingError(
+        siteName,
+        "decisionStrategy",
+        `the site has no super likes, but the "${strategy.name}" strategy can decide on one.`
+      );
+    }
+
+    const warnings: string[] = [];
+    if (!capabilities.matchPercentage) {
+      (siteConfig.filters ?? []).forEach((rule, index) => {
+        if (rule.minMatchPercentage !== undefined) {
+          const label = rule.name !== undefined ? `"${rule.name}"` : `#${index + 1}`;
+          warnings.push(
+            `Filter rule ${label} sets "minMatchPercentage", but ${siteName} profiles never report a match percentage, so the condition is never counted.`
+          );
+        }
+      });
+    }
+    return warnings;
+  }
+
   /**
    * Gets the browser configuration.
    * @returns The browser configuration.
@@ -145,12 +222,36 @@ export class Config {
   }
 
   /**
-   * Gets a list of all enabled sites.
-   * @returns An array of enabled site names.
+   * Gets the plugins to load at startup.
+   * @returns Local paths or npm package names.
+   */
+  getPlugins(): string[] {
+    return this.config.plugins ?? [];
+  }
+
+  /**
+   * Gets the seed for the random number generator.
+   * @returns The configured seed, or undefined to use a new seed per run.
+   */
+  getSeed(): number | string | undefined {
+    return this.config.seed;
+  }
+
+  /**
+   * Gets the limits shared by all sites.
+   * @returns The configured rate budget, or undefined if the sites are only limited one by one.
+   */
+  getRateBudget(): RateBudgetConfig | undefined {
+    return this.config.rateBudget;
+  }
+
+  /**
+   * Gets a list of all enabled sites that have a registered site module.
+   * @returns An array of enabled site names, in registration order.
    */
   getAllSites(): string[] {
-    return Object.keys(this.config.sites).filter(
-      (site) => this.config.sites[site]?.enabled
-    );
+    return this.registry
+      .getNames()
+      .filter((site) => this.config.sites[site]?.enabled);
   }
 }
@@ -0,0 +1,143 @@
+import { SwiperStats } from './swiper';
+import { CronSchedule } from './utils/cron';
+import { formatDateTime } from './utils/helpers';
+import { Logger } from './utils/logger';
+
+/** The longest delay setTimeout accepts; longer waits are split into several timers. */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+/**
+ * A site the daemon starts on a schedule.
+ */
+export interface ScheduledSite {
+  /** The site name. */
+  name: string;
+  /** When to start a session. */
+  schedule: CronSchedule;
+}
+
+/**
+ * Runs one session for a site and resolves with its statistics.
+ */
+export type SessionRunner = (siteName: string) => Promise<SwiperStats>;
+
+/**
+ * Starts sessions for each site on its own schedule and keeps going until stopped. A site's run
+ * is skipped while its previous one is still going.
+ */
+export class Daemon {
+  private sites: ScheduledSite[];
+  private runSession: SessionRunner;
+  private logger: Logger;
+  private now: () => Date;
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  private running = new Map<string, Promise<void>>();
+  private stopped = false;
+
+  /**
+   * Creates an instance of Daemon.
+   * @param sites - The sites to run and their schedules.
+   * @param runSession - Runs one session for a site.
+   * @param logger - The logger instance.
+   * @param now - Optional: The clock. Defaults to the current time.
+   */
+  constructor(sites: ScheduledSite[], runSession: SessionRunner, logger: Logger, now: () => Date = () => new Date()) {
+    this.sites = sites;
+    this.runSession = runSession;
+    this.logger = logger;
+    this.now = now;
+  }
+
+  /**
+   * Schedules the first run of every site.
+   */
+  start(): void {
+    this.stopped = false;
+    for (const site of this.sites) {
+      this.scheduleAfter(site, this.now());
+    }
+  }
+
+  /**
+   * Stops scheduling runs and waits for the runs in progress to finish.
+   * @returns A promise that resolves once no run is in progress.
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    await Promise.allSettled(this.running.values());
+  }
+
+  /**
+   * Checks whether a site's session is in progress.
+   * @param siteName - The site name.
+   * @returns True while the site's run is going.
+   */
+  isRunning(siteName: string): boolean {
+    return this.running.has(siteName);
+  }
+
+  /**
+   * Schedules a site's next run after a given time and logs when it is due.
+   * @param site - The site.
+   * @param after - The time to schedule after.
+   */
+  private scheduleAfter(site: ScheduledSite, after: Date): void {
+    const due = site.schedule.next(after);
+    this.logger.info(`Next ${site.name} run: ${formatDateTime(due)} (${site.schedule.expression})`);
+    this.waitUntil(site, due);
+  }
+
+  /**
+   * Sets the timer for a site's next run.
+   * @param site - The site.
+   * @param due - When the run is due.
+   */
+  private waitUntil(site: ScheduledSite, due: Date): void {
+    const delay = Math.max(0, due.getTime() - this.now().getTime());
+    const timer = setTimeout(() => {
+      if (delay > MAX_TIMER_MS) {
+        this.waitUntil(site, due);
+      } else {
+        this.trigger(site, due);
+      }
+    }, Math.min(delay, MAX_TIMER_MS));
+    this.timers.set(site.name, timer);
+  }
+
+  /**
+   * Starts a site's run unless the previous one is still going, and schedules the one after.
+   * @param site - The site.
+   * @param due - When the run was due.
+   */
+  private trigger(site: ScheduledSite, due: Date): void {
+    this.timers.delete(site.name);
+    if (this.stopped) {
+      return;
+    }
+    // Scheduled from the due time, so a timer firing a little early cannot start the same run twice
+    this.scheduleAfter(site, due);
+
+    if (this.running.has(site.name)) {
+      this.logger.warn(`Skipping the ${formatDateTime(due)} ${site.name} run: the previous one is still going.`);
+      return;
+    }
+
+    this.logger.info(`Starting the scheduled ${site.name} run.`);
+    const run = this.runSession(site.name)
+      .then((stats) => {
+        this.logger.success(`${site.name} run finished: ${stats.totalSwipes} swipes (${stats.endReason}).`);
+      })
+      .catch((_error: unknown) => {
+        const errorMessage = _error instanceof Error ? _error.message : String(_error);
+        this.logger.error(`${site.name} run failed: ${errorMessage}`);
+      })
+      .finally(() => {
+        this.running.delete(site.name);
+      });
+    this.running.set(site.name, run);
+  }
+}
@@ -0,0 +1,201 @@
+import { SwipeAction, SwipeDecision } from '../types';
+import { DecisionContext, DecisionStrategy, DecisionStrategyError } from './strategy';
+import { Rng } from '../utils/random';
+
+const SWIPE_ACTIONS: SwipeAction[] = ['like', 'dislike', 'superlike'];
+
+/**
+ * Adds actions to a strategy's actions.
+ * @param actions - The strategy's actions.
+ * @param added - The actions to add.
+ * @returns Both, without duplicates, in the order of SWIPE_ACTIONS.
+ */
+export function withActions(actions: readonly SwipeAction[], added: readonly SwipeAction[]): SwipeAction[] {
+  return SWIPE_ACTIONS.filter((action) => actions.includes(action) || added.includes(action));
+}
+
+/**
+ * Likes each profile with a fixed probability. This is the default strategy.
+ */
+export class RandomRatioStrategy implements DecisionStrategy {
+  readonly name = 'random-ratio';
+  readonly actions: readonly SwipeAction[] = ['like', 'dislike'];
+  private likeRatio: number;
+  private rng: Rng;
+
+  /**
+   * Creates an instance of RandomRatioStrategy.
+   * @param likeRatio - The probability of liking a profile (0.0 to 1.0).
+   * @param rng - Optional: The random number generator. Defaults to an unseeded one.
+   */
+  constructor(likeRatio: number, rng: Rng = new Rng()) {
+    this.likeRatio = likeRatio;
+    this.rng = rng;
+  }
+
+  decide(): SwipeDecision {
+    return { action: this.rng.chance(this.likeRatio) ? 'like' : 'dislike' };
+  }
+}
+
+/**
+ * Aims for a number of likes a day, spread over the swipes still to come. The like ratio is
+ * worked out again for every decision from the likes left and the swipes left, and kept within
+ * the configured bounds.
+ */
+export class LikeBudgetStrategy implements DecisionStrategy {
+  readonly name = 'like-budget';
+  readonly actions: readonly SwipeAction[] = ['like', 'dislike'];
+  private targetLikes: number;
+  private minRatio: number;
+  private maxRatio: number;
+  private expectedSwipes: number;
+  private rng: Rng;
+  private liked = 0;
+
+  /**
+   * Creates an instance of LikeBudgetStrategy.
+   * @param targetLikes - The number of likes to aim for today.
+   * @param minRatio - The lowest like ratio to use (0.0 to 1.0).
+   * @param maxRatio - The highest like ratio to use (0.0 to 1.0).
+   * @param expectedSwipes - The swipes the session expects to make, used when the decision has no pacing.
+   * @param rng - Optional: The random number generator. Defaults to an unseeded one.
+   */
+  constructor(targetLikes: number, minRatio: number, maxRatio: number, expectedSwipes: number, rng: Rng = new Rng()) {
+    this.targetLikes = targetLikes;
+    this.minRatio = minRatio;
+    this.maxRatio = maxRatio;
+    this.expectedSwipes = expectedSwipes;
+    this.rng = rng;
+  }
+
+  decide(context: DecisionContext): SwipeDecision {
+    // Without pacing, only the likes this strategy decided are known
+    const { likesToday, remainingSwipes } = context.pacing ?? {
+      likesToday: this.liked,
+      remainingSwipes: this.expectedSwipes - context.swipeNumber + 1,
+    };
+    const likesLeft = Math.max(0, this.targetLikes - likesToday);
+    const ratio = remainingSwipes > 0 ? likesLeft / remainingSwipes : 1;
+    const likeRatio = Math.min(this.maxRatio, Math.max(this.minRatio, ratio));
+
+    const action = this.rng.chance(likeRatio) ? 'like' : 'dislike';
+    if (action === 'like') {
+      this.liked++;
+    }
+    return {
+      action,
+      likeRatio,
+      reason: `like ratio ${likeRatio.toFixed(2)} (${likesLeft} of ${this.targetLikes} likes left, about ${Math.max(0, remainingSwipes)} swipes to go)`,
+    };
+  }
+}
+
+/**
+ * Likes every profile.
+ */
+export class AlwaysLikeStrategy implements DecisionStrategy {
+  readonly name = 'always-like';
+  readonly actions: readonly SwipeAction[] = ['like'];
+
+  decide(): SwipeDecision {
+    return { action: 'like' };
+  }
+}
+
+/**
+ * Alternates between like and dislike.
+ */
+export class AlternatingStrategy implements DecisionStrategy {
+  readonly name = 'alternating';
+  readonly actions: readonly SwipeAction[] = ['like', 'dislike'];
+  private first: 'like' | 'dislike';
+
+  /**
+   * Creates an instance of AlternatingStrategy.
+   * @param first - The action for the first, third, fifth... swipe.
+   */
+  constructor(first: 'like' | 'dislike' = 'like') {
+    this.first = first;
+  }
+
+  decide(context: DecisionContext): SwipeDecision {
+    const second = this.first === 'like' ? 'dislike' : 'like';
+    return { action: context.swipeNumber % 2 === 1 ? this.first : second };
+  }
+}
+
+/**
+ * Plays back a fixed list of actions, starting over when it runs out.
+ */
+export class ScriptedStrategy implements DecisionStrategy {
+  readonly name = 'scripted';
+  readonly actions: readonly SwipeAction[];
+  private script: SwipeAction[];
+
+  /**
+   * Creates an instance of ScriptedStrategy.
+   * @param script - The actions to play back, in order.
+   * @throws {DecisionStrategyError} If the script is empty or contains an unknown action.
+   */
+  constructor(script: unknown) {
+    if (!Array.isArray(script) || script.length === 0) {
+      throw new DecisionStrategyError(this.name, '"script" must be a non-empty list of actions.');
+    }
+    const unknown = script.find((action) => !SWIPE_ACTIONS.includes(action));
+    if (unknown !== undefined) {
+      throw new DecisionStrategyError(
+        this.name,
+        `unknown action ${JSON.stringify(unknown)} in "script". Use ${SWIPE_ACTIONS.join(', ')}.`
+      );
+    }
+    this.script = script as SwipeAction[];
+    this.actions = SWIPE_ACTIONS.filter((action) => this.script.includes(action));
+  }
+
+  decide(context: DecisionContext): SwipeDecision {
+    return { action: this.script[(context.swipeNumber - 1) % this.script.length] };
+  }
+}
+
+/**
+ * Sends some of another strategy's likes as super likes, up to a cap per session.
+ */
+export class SuperLikeUpgrade implements DecisionStrategy {
+  readonly name: string;
+  readonly actions?: readonly SwipeAction[];
+  private inner: DecisionStrategy;
+  private ratio: number;
+  private max?: number;
+  private rng: Rng;
+  private used = 0;
+
+  /**
+   * Creates an instance of SuperLikeUpgrade.
+   * @param inner - The strategy whose likes are upgraded.
+   * @param ratio - The probability of upgrading a like (0.0 to 1.0).
+   * @param max - Optional: The maximum number of upgrades.
+   * @param rng - Optional: The random number generator. Defaults to an unseeded one.
+   */
+  constructor(inner: DecisionStrategy, ratio: number, max?: number, rng: Rng = new Rng()) {
+    this.name = inner.name;
+    this.actions = inner.actions && withActions(inner.actions, ['superlike']);
+    this.inner = inner;
+    this.ratio = ratio;
+    this.max = max;
+    this.rng = rng;
+  }
+
+  decide(context: DecisionContext): SwipeDecision {
+    const decision = this.inner.decide(context);
+    if (decision.action !== 'like' || (this.max !== undefined && this.used >= this.max)) {
+      return decision;
+    }
+    if (this.rng.chance(this.ratio)) {
+      // Counted when decided, so a failed super like still uses up the session cap
+      this.used++;
+      return { ...decision, action: 'superlike' };
+    }
+    return decision;
+  }
+}
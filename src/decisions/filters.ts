@@ -0,0 +1,144 @@
+import { ProfileSnapshot, SwipeAction, SwipeDecision, SwipeFilterRule } from '../types';
+import { DecisionContext, DecisionStrategy, DecisionStrategyError } from './strategy';
+import { withActions } from './builtin';
+
+const NUMBER_CONDITIONS = ['minAge', 'maxAge', 'maxDistanceKm', 'minPhotos', 'minMatchPercentage'] as const;
+const KEYWORD_CONDITIONS = ['bioIncludes', 'bioExcludes'] as const;
+
+/**
+ * Checks one condition against a profile field.
+ * @param value - The profile field, or undefined if the profile does not report it.
+ * @param test - The check to run on a known value.
+ * @returns The result, or undefined if the field is unknown.
+ */
+function check<T>(value: T | undefined, test: (value: T) => boolean): boolean | undefined {
+  return value === undefined ? undefined : test(value);
+}
+
+/**
+ * Checks each condition a rule sets against a profile.
+ * @param rule - The filter rule.
+ * @param profile - The profile being decided on.
+ * @returns One result per condition, undefined where the profile field is unknown.
+ */
+function checkConditions(rule: SwipeFilterRule, profile: ProfileSnapshot): (boolean | undefined)[] {
+  const { minAge, maxAge, maxDistanceKm, bioIncludes, bioExcludes, minPhotos, verifiedOnly, minMatchPercentage } = rule;
+  const bio = profile.bio?.toLowerCase();
+  const results: (boolean | undefined)[] = [];
+
+  if (minAge !== undefined) {
+    results.push(check(profile.age, (age) => age >= minAge));
+  }
+  if (maxAge !== undefined) {
+    results.push(check(profile.age, (age) => age <= maxAge));
+  }
+  if (maxDistanceKm !== undefined) {
+    results.push(check(profile.distanceKm, (distance) => distance <= maxDistanceKm));
+  }
+  if (bioIncludes !== undefined) {
+    results.push(check(bio, (text) => bioIncludes.some((keyword) => text.includes(keyword.toLowerCase()))));
+  }
+  if (bioExcludes !== undefined) {
+    results.push(check(bio, (text) => !bioExcludes.some((keyword) => text.includes(keyword.toLowerCase()))));
+  }
+  if (minPhotos !== undefined) {
+    results.push(check(profile.photoCount, (count) => count >= minPhotos));
+  }
+  if (verifiedOnly) {
+    results.push(check(profile.verified, (verified) => verified));
+  }
+  if (minMatchPercentage !== undefined) {
+    results.push(check(profile.matchPercentage, (percentage) => percentage >= minMatchPercentage));
+  }
+  return results;
+}
+
+/**
+ * Checks whether a rule fires for a profile.
+ * @param rule - The filter rule.
+ * @param profile - The profile being decided on.
+ * @returns True if the rule fires.
+ */
+function ruleFires(rule: SwipeFilterRule, profile: ProfileSnapshot): boolean {
+  const results = checkConditions(rule, profile);
+  if (rule.when === 'fails') {
+    return results.includes(false);
+  }
+  return results.every((result) => result === true);
+}
+
+/**
+ * Checks that a rule from the configuration is well formed.
+ * @param rule - The rule to check.
+ * @param label - The rule's name in error messages.
+ * @throws {DecisionStrategyError} If the rule is invalid.
+ */
+function validateRule(rule: SwipeFilterRule, label: string): void {
+  const fail = (message: string): never => {
+    throw new DecisionStrategyError('filters', `rule ${label} ${message}`);
+  };
+
+  if (rule.action !== 'like' && rule.action !== 'pass') {
+    fail('must set "action" to "like" or "pass".');
+  }
+  if (rule.when !== undefined && rule.when !== 'matches' && rule.when !== 'fails') {
+    fail('must set "when" to "matches" or "fails".');
+  }
+  for (const key of NUMBER_CONDITIONS) {
+    const value = rule[key];
+    if (value !== undefined && (typeof value !== 'number' || Number.isNaN(value))) {
+      fail(`has a non-numeric "${key}".`);
+    }
+  }
+  for (const key of KEYWORD_CONDITIONS) {
+    const value = rule[key];
+    if (value !== undefined && (!Array.isArray(value) || value.some((keyword) => typeof keyword !== 'string'))) {
+      fail(`must set "${key}" to a list of keywords.`);
+    }
+  }
+  if (rule.verifiedOnly !== undefined && typeof rule.verifiedOnly !== 'boolean') {
+    fail('must set "verifiedOnly" to true or false.');
+  }
+  if (checkConditions(rule, {}).length === 0) {
+    fail('has no conditions.');
+  }
+}
+
+/**
+ * Applies a site's filter rules before another strategy. The first rule that fires decides;
+ * profiles no rule fires for are left to the inner strategy.
+ */
+export class ProfileFilter implements DecisionStrategy {
+  readonly name: string;
+  readonly actions?: readonly SwipeAction[];
+  private inner: DecisionStrategy;
+  private rules: { label: string; rule: SwipeFilterRule }[];
+
+  /**
+   * Creates an instance of ProfileFilter.
+   * @param inner - The strategy for profiles no rule fires for.
+   * @param rules - The filter rules, in the order they are checked.
+   * @throws {DecisionStrategyError} If a rule is invalid.
+   */
+  constructor(inner: DecisionStrategy, rules: SwipeFilterRule[]) {
+    this.name = inner.name;
+    this.actions = inner.actions && withActions(inner.actions, ['like', 'dislike']);
+    this.inner = inner;
+    this.rules = rules.map((rule, index) => {
+      const label = rule.name !== undefined ? `"${rule.name}"` : `#${index + 1}`;
+      validateRule(rule, label);
+      return { label, rule };
+    });
+  }
+
+  decide(context: DecisionContext): SwipeDecision {
+    const fired = this.rules.find(({ rule }) => ruleFires(rule, context.profile));
+    if (fired) {
+      return {
+        action: fired.rule.action === 'like' ? 'like' : 'dislike',
+        reason: `filter rule ${fired.label}`,
+      };
+    }
+    return { reason: `no filter rule fired, left to ${this.inner.name}`, ...this.inner.decide(context) };
+  }
+}
@@ -0,0 +1,123 @@
+import { SiteConfig } from '../types';
+import { StrategyRegistry } from './registry';
+import { DecisionStrategy, DecisionStrategyError } from './strategy';
+import { ProfileFilter } from './filters';
+import { Rng } from '../utils/random';
+import {
+  AlternatingStrategy,
+  AlwaysLikeStrategy,
+  LikeBudgetStrategy,
+  RandomRatioStrategy,
+  ScriptedStrategy,
+  SuperLikeUpgrade,
+} from './builtin';
+
+/** The strategy used when a site does not set `decisionStrategy`. */
+export const DEFAULT_STRATEGY = 'random-ratio';
+
+/**
+ * Registers the decision strategies that ship with Swiper.
+ * @param registry - The registry to add the built-in strategies to.
+ */
+export function registerBuiltinStrategies(registry: StrategyRegistry): void {
+  registry.register({
+    name: 'random-ratio',
+    factory: (config, _options, rng) => new RandomRatioStrategy(config.likeRatio, rng),
+    description: 'Likes each profile with the probability set by likeRatio.',
+  });
+
+  registry.register({
+    name: 'always-like',
+    factory: () => new AlwaysLikeStrategy(),
+    description: 'Likes every profile.',
+  });
+
+  registry.register({
+    name: 'alternating',
+    factory: (_config, options) => {
+      const first = options.first ?? 'like';
+      if (first !== 'like' && first !== 'dislike') {
+        throw new DecisionStrategyError('alternating', '"first" must be "like" or "dislike".');
+      }
+      return new AlternatingStrategy(first);
+    },
+    description: 'Alternates between like and dislike, starting with options.first.',
+  });
+
+  registry.register({
+    name: 'scripted',
+    factory: (_config, options) => new ScriptedStrategy(options.script),
+    description: 'Plays back the actions in options.script, starting over when it runs out.',
+  });
+
+  registry.register({
+    name: 'like-budget',
+    factory: (config, options, rng) => {
+      const targetLikes = options.likes ?? config.maxLikesPerDay;
+      if (typeof targetLikes !== 'number' || !(targetLikes > 0)) {
+        throw new DecisionStrategyError('like-budget', '"likes" must be a positive number, or set maxLikesPerDay.');
+      }
+      const minRatio = options.minRatio ?? 0;
+      const maxRatio = options.maxRatio ?? 1;
+      if (
+        typeof minRatio !== 'number' ||
+        typeof maxRatio !== 'number' ||
+        !(minRatio >= 0 && minRatio <= maxRatio && maxRatio <= 1)
+      ) {
+        throw new DecisionStrategyError('like-budget', '"minRatio" and "maxRatio" must satisfy 0 <= minRatio <= maxRatio <= 1.');
+      }
+      return new LikeBudgetStrategy(targetLikes, minRatio, maxRatio, config.maxSwipesPerSession, rng);
+    },
+    description: 'Aims for options.likes likes a day, adjusting the like ratio to the swipes left.',
+  });
+}
+
+/**
+ * The default registry, pre-populated with the built-in strategies.
+ * Plugins listed in config.json can add strategies to this registry at startup.
+ */
+export const strategyRegistry = new StrategyRegistry();
+registerBuiltinStrategies(strategyRegistry);
+
+/**
+ * Creates the decision strategy a site is configured to use. The site's filter rules are
+ * checked before the strategy, and likes are upgraded to super likes on top of both when the
+ * site sets `superLikeRatio`.
+ * @param config - The site configuration.
+ * @param registry - Optional: The registry to look the strategy up in.
+ * @param rng - Optional: The random number generator for the strategy. Defaults to an unseeded one.
+ * @returns The strategy for one session.
+ * @throws {DecisionStrategyError} If the strategy is unknown, or its options or the filter rules are invalid.
+ */
+export function createDecisionStrategy(
+  config: SiteConfig,
+  registry: StrategyRegistry = strategyRegistry,
+  rng: Rng = new Rng()
+): DecisionStrategy {
+  const setting = config.decisionStrategy ?? DEFAULT_STRATEGY;
+  const { name, options } = typeof setting === 'string' ? { name: setting, options: {} } : setting;
+  let strategy = registry.create(name, config, options ?? {}, rng);
+
+  if (config.filters && config.filters.length > 0) {
+    strategy = new ProfileFilter(strategy, config.filters);
+  }
+
+  if (config.superLikeRatio && config.superLikeRatio > 0) {
+    return new SuperLikeUpgrade(strategy, config.superLikeRatio, config.maxSuperLikesPerSession, rng);
+  }
+  return strategy;
+}
+
+export { StrategyRegistry } from './registry';
+export { DecisionStrategyError } from './strategy';
+export { ProfileFilter } from './filters';
+export {
+  AlternatingStrategy,
+  AlwaysLikeStrategy,
+  LikeBudgetStrategy,
+  RandomRatioStrategy,
+  ScriptedStrategy,
+  SuperLikeUpgrade,
+} from './builtin';
+export type { StrategyFactory, StrategyRegistration } from './registry';
+export type { DecisionContext, DecisionPacing, DecisionStrategy } from './strategy';
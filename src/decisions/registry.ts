@@ -0,0 +1,79 @@
+import { SiteConfig } from '../types';
+import { DecisionStrategy, DecisionStrategyError } from './strategy';
+import { Rng } from '../utils/random';
+
+/**
+ * Creates a decision strategy for a site.
+ */
+export type StrategyFactory = (config: SiteConfig, options: Record<string, unknown>, rng: Rng) => DecisionStrategy;
+
+/**
+ * Everything the registry needs to know about a decision strategy.
+ */
+export interface StrategyRegistration {
+  /** The lowercase name used in the `decisionStrategy` setting. */
+  name: string;
+  /** Creates the strategy. Each site session gets its own instance. */
+  factory: StrategyFactory;
+  /** Optional: A short description shown in listings. */
+  description?: string;
+}
+
+/**
+ * Keeps track of the decision strategies available to the bot.
+ */
+export class StrategyRegistry {
+  private registrations = new Map<string, StrategyRegistration>();
+
+  /**
+   * Registers a decision strategy.
+   * @param registration - The strategy's name and factory.
+   * @throws If a strategy with the same name is already registered.
+   */
+  register(registration: StrategyRegistration): void {
+    const name = registration.name.toLowerCase();
+    if (this.registrations.has(name)) {
+      throw new Error(`Decision strategy "${name}" is already registered.`);
+    }
+    this.registrations.set(name, { ...registration, name });
+  }
+
+  /**
+   * Checks whether a strategy is registered.
+   * @param name - The strategy name.
+   * @returns True if the strategy is registered.
+   */
+  has(name: string): boolean {
+    return this.registrations.has(name.toLowerCase());
+  }
+
+  /**
+   * Creates a strategy instance.
+   * @param name - The strategy name.
+   * @param config - The site configuration.
+   * @param options - Optional: Strategy-specific options.
+   * @param rng - Optional: The random number generator for the strategy. Defaults to an unseeded one.
+   * @returns The new strategy.
+   * @throws {DecisionStrategyError} If the strategy is not registered or rejects its options.
+   */
+  create(
+    name: string,
+    config: SiteConfig,
+    options: Record<string, unknown> = {},
+    rng: Rng = new Rng()
+  ): DecisionStrategy {
+    const registration = this.registrations.get(name.toLowerCase());
+    if (!registration) {
+      throw new DecisionStrategyError(name, `not registered. Registered strategies: ${this.getNames().join(', ')}`);
+    }
+    return registration.factory(config, options, rng);
+  }
+
+  /**
+   * Gets the names of all registered strategies, in registration order.
+   * @returns The registered strategy names.
+   */
+  getNames(): string[] {
+    return [...this.registrations.keys()];
+  }
+}
@@ -0,0 +1,54 @@
+import { ProfileSnapshot, SwipeAction, SwipeDecision } from '../types';
+
+/**
+ * What a decision strategy knows about the swipe it is deciding.
+ */
+export interface DecisionContext {
+  /** The number of the swipe being decided, starting at 1. A failed swipe that is not retried keeps its number. */
+  swipeNumber: number;
+  /** The profile being decided on. Empty when the site cannot read profiles. */
+  profile: ProfileSnapshot;
+  /** Optional: How far the day and the session have got, for strategies that pace their likes. */
+  pacing?: DecisionPacing;
+}
+
+/**
+ * How far the day and the session have got when a swipe is decided.
+ */
+export interface DecisionPacing {
+  /** The likes, super likes included, sent today so far, earlier runs included. */
+  likesToday: number;
+  /** The swipes the session still expects to make, the one being decided included. */
+  remainingSwipes: number;
+}
+
+/**
+ * Decides what to do with each profile.
+ */
+export interface DecisionStrategy {
+  /** The name the strategy is registered under, used in logs. */
+  readonly name: string;
+  /**
+   * Optional: Every action the strategy can decide on, so a site can refuse a strategy that needs
+   * an action it does not have. Strategies that leave it out are not checked.
+   */
+  readonly actions?: readonly SwipeAction[];
+  /**
+   * Decides the action for the next profile.
+   * @param context - What is known about the swipe.
+   * @returns The swipe decision.
+   */
+  decide(context: DecisionContext): SwipeDecision;
+}
+
+/**
+ * Thrown when a site's decision strategy is unknown or its options are invalid.
+ */
+export class DecisionStrategyError extends Error {
+  strategyName: string;
+  constructor(strategyName: string, message: string) {
+    super(`Decision strategy "${strategyName}": ${message}`);
+    this.strategyName = strategyName;
+    this.name = 'DecisionStrategyError';
+  }
+}
@@ -1,19 +1,60 @@
 #!/usr/bin/env node
 
 import { Command } from "commander";
-import { Config } from "./config";
+import { BrowserContext } from "playwright";
+import { Config, UnsupportedSettingError } from "./config";
 import { BrowserManager } from "./utils/browser";
 import { Logger, LogLevel } from "./utils/logger";
 import { RateLimiter } from "./utils/rateLimiter";
-import { Swiper, SwiperStats } from "./swiper";
-import { TinderSite } from "./sites/tinder";
-import { OkCupidSite } from "./sites/okcupid";
+import { Rng } from "./utils/random";
+import { StateStore } from "./utils/stateStore";
+import { GlobalRateBudget } from "./utils/rateBudget";
+import { Swiper, SwiperOptions, SwiperStats } from "./swiper";
+import { Daemon, ScheduledSite } from "./daemon";
+import { runWithRestarts } from "./restarts";
+import { CronParseError, CronSchedule } from "./utils/cron";
+import { AllowedWindows, TimeWindowError } from "./utils/timeWindows";
+import { TerminalAssistant } from "./assist";
+import { siteRegistry, UnknownSiteError, SelectorPackError } from "./sites";
+import { SiteModule } from "./sites/base";
+import { loadPlugins, PluginLoadError } from "./plugins";
+import { createDecisionStrategy, DecisionStrategy, DecisionStrategyError, strategyRegistry } from "./decisions";
+import { SiteCapabilities, SiteConfig } from "./types";
 
 interface CliOptions {
   config?: string;
   site: string[];
   debug: boolean;
   headless: boolean;
+  seed?: string;
+  dryRun: boolean;
+  assist: boolean;
+}
+
+interface ListSitesOptions {
+  config?: string;
+}
+
+interface DaemonOptions {
+  config?: string;
+  debug: boolean;
+  headless: boolean;
+  seed?: string;
+}
+
+/** A site whose module and decision strategy are ready for a session. */
+interface PreparedSite {
+  siteConfig: SiteConfig;
+  siteLogger: Logger;
+  siteModule: SiteModule;
+  strategy: DecisionStrategy;
+  siteRng: Rng;
+}
+
+/** What all sessions of a run share. */
+interface SharedServices {
+  stateStore: StateStore;
+  rateBudget?: GlobalRateBudget;
 }
 
 const program = new Command();
@@ -39,7 +80,10 @@ program
     ["tinder"]
   )
   .option("-d, --debug", "Enable debug logging", false)
-  .option("--headless", "Run browser in headless mode", false);
+  .option("--headless", "Run browser in headless mode", false)
+  .option("--seed <seed>", "Seed for every random choice, to reproduce a run (overrides config.json)")
+  .option("--dry-run", "Decide on profiles and log the decisions without liking or passing", false)
+  .option("--assist", "Show each profile and the suggested swipe, and wait for a key press to confirm it", false);
 
 export class ProcessExitError extends Error {
   code: number;
@@ -50,6 +94,141 @@ export class ProcessExitError extends Error {
   }
 }
 
+/**
+ * Creates the logger for a site, at debug level when the site asks for it.
+ * @param mainLogger - The main logger.
+ * @param siteConfig - The site configuration.
+ * @returns The site's logger.
+ */
+const createSiteLogger = (mainLogger: Logger, siteConfig: SiteConfig): Logger => {
+  const siteName = siteConfig.name as string;
+  const siteLogger = mainLogger.withPrefix(siteName);
+  if (siteConfig.debugMode) {
+    siteLogger.setLogLevel(LogLevel.DEBUG);
+    siteLogger.debug(`Site-specific debug mode enabled for ${siteName}.`);
+  }
+  return siteLogger;
+};
+
+/**
+ * Creates a site's module and decision strategy, and checks the site's settings against the module.
+ * Configuration mistakes are logged, so the other sites can still run.
+ * @param config - The application configuration.
+ * @param siteConfig - The site configuration.
+ * @param siteLogger - The site's logger.
+ * @param siteRng - The site's random number generator.
+ * @returns The prepared site, or null if its configuration is unusable.
+ */
+const prepareSite = (config: Config, siteConfig: SiteConfig, siteLogger: Logger, siteRng: Rng): PreparedSite | null => {
+  const siteName = siteConfig.name as string;
+  try {
+    const siteModule = siteRegistry.create(siteName, siteConfig, siteLogger, siteRng.derive("site"));
+    const strategy = createDecisionStrategy(siteConfig, strategyRegistry, siteRng.derive("decisions"));
+    for (const warning of config.validateSiteConfig(siteConfig, siteModule.getCapabilities(), strategy)) {
+      siteLogger.warn(warning);
+    }
+    if (siteConfig.allowedWindows) {
+      new AllowedWindows(siteConfig.allowedWindows);
+    }
+    siteLogger.info(`Using decision strategy: ${strategy.name}`);
+    return { siteConfig, siteLogger, siteModule, strategy, siteRng };
+  } catch (error) {
+    if (
+      !(error instanceof UnknownSiteError) &&
+      !(error instanceof SelectorPackError) &&
+      !(error instanceof UnsupportedSettingError) &&
+      !(error instanceof DecisionStrategyError) &&
+      !(error instanceof TimeWindowError)
+    ) {
+      throw error;
+    }
+    siteLogger.error(error.message);
+    return null;
+  }
+};
+
+/**
+ * Creates the shared state store and rate budget for a run.
+ * @param config - The application configuration.
+ * @param profilePath - The browser profile directory, next to which the state file is kept.
+ * @param mainLogger - The main logger.
+ * @returns The shared services.
+ */
+const createSharedServices = (config: Config, profilePath: string, mainLogger: Logger): SharedServices => {
+  // Daily and weekly quotas are counted across runs in a state file next to the browser profile
+  const stateStore = new StateStore(StateStore.pathFor(profilePath), mainLogger);
+  mainLogger.debug(`Quota usage is kept in ${stateStore.getPath()}`);
+
+  // All sites pace themselves against one shared budget, so adding a site does not add load
+  const rateBudgetConfig = config.getRateBudget();
+  const rateBudget = rateBudgetConfig ? new GlobalRateBudget(rateBudgetConfig, mainLogger) : undefined;
+  return { stateStore, rateBudget };
+};
+
+/**
+ * Creates the Swiper for one session of a prepared site.
+ * @param context - The browser context all sites share.
+ * @param site - The prepared site.
+ * @param shared - The services all sessions share.
+ * @param options - The session options.
+ * @returns The Swiper.
+ */
+const createSwiper = (
+  context: BrowserContext,
+  site: PreparedSite,
+  shared: SharedServices,
+  options: SwiperOptions
+): Swiper => {
+  const { siteConfig, siteLogger, siteModule, strategy, siteRng } = site;
+  const rateLimiter = new RateLimiter(
+    siteConfig,
+    siteLogger,
+    siteRng.derive("pacing"),
+    shared.stateStore,
+    shared.rateBudget
+  );
+  return new Swiper(context, siteModule, rateLimiter, siteLogger, siteConfig, strategy, options);
+};
+
+/**
+ * Formats a session's counts for the combined statistics.
+ * @param stats - The session statistics.
+ * @returns A one-line summary.
+ */
+const formatCounts = (stats: SwiperStats): string =>
+  `${stats.totalSwipes} swipes (${stats.likes} likes, ${stats.superLikes} super likes, ${stats.dislikes} dislikes), ` +
+  `${stats.matches} matches, ${stats.errors} errors`;
+
+/**
+ * Prints one line per site and the totals across all sites.
+ * @param mainLogger - The main logger.
+ * @param sites - Each site's name and session statistics.
+ */
+const printCombinedStats = (mainLogger: Logger, sites: { name: string; stats: SwiperStats }[]): void => {
+  const total: SwiperStats = {
+    totalSwipes: 0,
+    likes: 0,
+    superLikes: 0,
+    dislikes: 0,
+    matches: 0,
+    errors: 0,
+    errorsByKind: {},
+    popups: {},
+    dryRun: sites.some(({ stats }) => stats.dryRun),
+  };
+  mainLogger.info(`=== Combined Statistics${total.dryRun ? " (DRY RUN)" : ""} ===`);
+  for (const { name, stats } of sites) {
+    mainLogger.info(`${name}: ${formatCounts(stats)}, ended: ${stats.endReason ?? "not finished"}`);
+    total.totalSwipes += stats.totalSwipes;
+    total.likes += stats.likes;
+    total.superLikes += stats.superLikes;
+    total.dislikes += stats.dislikes;
+    total.matches += stats.matches;
+    total.errors += stats.errors;
+  }
+  mainLogger.info(`Total: ${formatCounts(total)}`);
+};
+
 const mainAction = async (options: CliOptions) => { // Define the action function separately
     try {
       // Initialize logger (main logger)
@@ -60,10 +239,24 @@ const mainAction = async (options: CliOptions) => { // Define the action functio
       const mainLogger = new Logger(logLevel);
 
       mainLogger.info("Starting Swiper...");
+      if (options.dryRun && options.assist) {
+        mainLogger.error("--dry-run and --assist cannot be used together.");
+        throw new ProcessExitError(1);
+      }
+      if (options.dryRun) {
+        mainLogger.warn("Dry run: decisions are logged, but no likes or passes are sent.");
+      }
 
       // Load configuration
       const config = new Config(options.config);
 
+      // Every random choice derives from one seed, so logging it is enough to replay the run
+      const rng = new Rng(options.seed ?? config.getSeed());
+      mainLogger.info(`Random seed: ${rng.seed} (pass --seed ${rng.seed} to reproduce this run)`);
+
+      // Let plugins add their site modules before any site names are resolved
+      loadPlugins(config.getPlugins(), { sites: siteRegistry, strategies: strategyRegistry }, mainLogger);
+
       // Override headless mode if specified
       const browserConfig = config.getBrowserConfig();
       if (options.headless !== undefined) {
@@ -91,6 +284,26 @@ const mainAction = async (options: CliOptions) => { // Define the action functio
           )}`
         );
         mainLogger.info(`Available sites: ${config.getAllSites().join(", ")}`);
+        mainLogger.info(`Registered sites: ${siteRegistry.getNames().join(", ")}`);
+        throw new ProcessExitError(1);
+      }
+
+      // Create every site module up front so bad site names and selector files fail before the browser launches
+      const sitesToRun: PreparedSite[] = [];
+
+      for (const siteConfig of siteConfigsToRun) {
+        const siteLogger = createSiteLogger(mainLogger, siteConfig);
+
+        // Each site, and each part of it, gets its own generator so sites running side by side
+        // and a varying number of popup clicks do not change the decisions
+        const site = prepareSite(config, siteConfig, siteLogger, rng.derive(siteConfig.name as string));
+        if (site) {
+          sitesToRun.push(site);
+        }
+      }
+
+      if (sitesToRun.length === 0) {
+        mainLogger.error("None of the specified sites can run with this configuration.");
         throw new ProcessExitError(1);
       }
 
@@ -104,49 +317,37 @@ const mainAction = async (options: CliOptions) => { // Define the action functio
         throw new ProcessExitError(1);
       }
 
+      const swipers: Swiper[] = [];
       const swiperPromises: Promise<SwiperStats>[] = [];
 
-      for (const siteConfig of siteConfigsToRun) {
-        const siteName = siteConfig.name as string;
-        
-        const siteLogger = mainLogger.withPrefix(siteName);
-        if (siteConfig.debugMode) {
-          siteLogger.setLogLevel(LogLevel.DEBUG);
-          siteLogger.debug(`Site-specific debug mode enabled for ${siteName}.`);
-        }
-
-        // Initialize site module
-        let siteModule;
-        switch (siteName) {
-          case "tinder":
-            siteModule = new TinderSite(siteConfig, siteLogger);
-            break;
-          case "okcupid":
-            siteModule = new OkCupidSite(siteConfig, siteLogger);
-            break;
-          default:
-            siteLogger.error(`Unsupported site: ${siteName}`);
-            continue;
-          }
+      // One assistant for all sites, so their prompts are queued and only one site asks at a time
+      const assistant = options.assist ? new TerminalAssistant() : undefined;
 
-        const rateLimiter = new RateLimiter(siteConfig, siteLogger);
+      const shared = createSharedServices(config, browserConfig.profilePath, mainLogger);
 
+      for (const site of sitesToRun) {
         // All sites share the main persistent context (they will each get their own Page inside Swiper.run)
-        const swiper = new Swiper(
-          mainContext,
-          siteModule,
-          rateLimiter,
-          siteLogger,
-          siteConfig
-        );
-        swiperPromises.push(swiper.run());
+        const swiper = createSwiper(mainContext, site, shared, { dryRun: options.dryRun, assistant });
+        swipers.push(swiper);
+        // A failed session is restarted on a new page when the site allows it
+        swiperPromises.push(runWithRestarts(swiper, site.siteConfig, site.siteLogger));
       }
 
-      // Handle graceful shutdown
+      // The first Ctrl+C lets every session finish its current swipe and end normally, so the
+      // statistics below are printed; a second one exits at once, keeping the login session
+      let stopping = false;
       const shutdown = async () => {
-        mainLogger.info("\nShutting down gracefully...");
-        await mainBrowserManager.close(); // Close the single browser manager
-        process.exit(0);
+        if (stopping) {
+          mainLogger.warn("Exiting now.");
+          await mainBrowserManager.saveStorageState();
+          process.exit(1);
+          return;
+        }
+        stopping = true;
+        mainLogger.info("\nStopping after the current swipe... Press Ctrl+C again to exit now.");
+        for (const swiper of swipers) {
+          swiper.stop();
+        }
       };
 
       process.on("SIGINT", shutdown);
@@ -154,6 +355,8 @@ const mainAction = async (options: CliOptions) => { // Define the action functio
 
       // Run all swipers concurrently
       const results = await Promise.allSettled(swiperPromises);
+      process.off("SIGINT", shutdown);
+      process.off("SIGTERM", shutdown);
 
       for (const result of results) {
         if (result.status === 'fulfilled') {
@@ -162,6 +365,10 @@ const mainAction = async (options: CliOptions) => { // Define the action functio
           mainLogger.error(`A site failed: ${result.reason}`);
         }
       }
+      printCombinedStats(
+        mainLogger,
+        sitesToRun.map((site, index) => ({ name: site.siteConfig.name as string, stats: swipers[index].getStats() }))
+      );
 
       // Close the main browser manager after all swipers are done
       await mainBrowserManager.close();
@@ -185,11 +392,195 @@ const mainAction = async (options: CliOptions) => { // Define the action functio
     }
   };
 
+const daemonAction = async (options: DaemonOptions) => {
+    try {
+      const mainLogger = new Logger(options.debug ? LogLevel.DEBUG : LogLevel.INFO);
+      mainLogger.info("Starting Swiper daemon...");
+
+      const config = new Config(options.config);
+      const rng = new Rng(options.seed ?? config.getSeed());
+      mainLogger.info(`Random seed: ${rng.seed} (pass --seed ${rng.seed} to reproduce these runs)`);
+
+      loadPlugins(config.getPlugins(), { sites: siteRegistry, strategies: strategyRegistry }, mainLogger);
+
+      const browserConfig = config.getBrowserConfig();
+      if (options.headless !== undefined) {
+        browserConfig.headless = options.headless;
+      }
+
+      // Every enabled site with a schedule, checked up front so mistakes show before the first run is due
+      const scheduledSites: ScheduledSite[] = [];
+      const siteSetups = new Map<string, { siteConfig: SiteConfig; siteLogger: Logger; runs: number }>();
+      for (const siteConfig of config.getSiteConfigs(config.getAllSites())) {
+        const siteName = siteConfig.name as string;
+        const siteLogger = createSiteLogger(mainLogger, siteConfig);
+        if (!siteConfig.schedule) {
+          siteLogger.info("No schedule set, so the daemon does not run this site.");
+          continue;
+        }
+
+        let schedule: CronSchedule;
+        try {
+          schedule = new CronSchedule(siteConfig.schedule);
+        } catch (error) {
+          if (!(error instanceof CronParseError)) {
+            throw error;
+          }
+          siteLogger.error(error.message);
+          continue;
+        }
+        if (!prepareSite(config, siteConfig, siteLogger, rng.derive(siteName))) {
+          continue;
+        }
+        scheduledSites.push({ name: siteName, schedule });
+        siteSetups.set(siteName, { siteConfig, siteLogger, runs: 0 });
+      }
+
+      if (scheduledSites.length === 0) {
+        mainLogger.error("No enabled site has a usable schedule. Set \"schedule\" for a site in the configuration.");
+        throw new ProcessExitError(1);
+      }
+
+      // One browser for every run
+      const mainBrowserManager = new BrowserManager(browserConfig, mainLogger);
+      await mainBrowserManager.initialize();
+      const mainContext = mainBrowserManager.getContext();
+      if (!mainContext) {
+        mainLogger.error("Failed to retrieve main browser context.");
+        throw new ProcessExitError(1);
+      }
+      const shared = createSharedServices(config, browserConfig.profilePath, mainLogger);
+
+      // Each run gets a fresh site module and strategy, with generators derived from the run number
+      const activeSwipers = new Set<Swiper>();
+      const runSession = async (siteName: string): Promise<SwiperStats> => {
+        const setup = siteSetups.get(siteName);
+        if (!setup) {
+          throw new Error(`${siteName} is not scheduled.`);
+        }
+        setup.runs++;
+        const site = prepareSite(config, setup.siteConfig, setup.siteLogger, rng.derive(siteName).derive(`run-${setup.runs}`));
+        if (!site) {
+          throw new Error(`Could not set up ${siteName}.`);
+        }
+        const swiper = createSwiper(mainContext, site, shared, {});
+        activeSwipers.add(swiper);
+        try {
+          return await runWithRestarts(swiper, site.siteConfig, site.siteLogger);
+        } finally {
+          activeSwipers.delete(swiper);
+        }
+      };
+
+      const daemon = new Daemon(scheduledSites, runSession, mainLogger);
+
+      // As with a single run, the first Ctrl+C stops the runs in progress after their current swipe
+      let stopping = false;
+      const shutdown = async () => {
+        if (stopping) {
+          mainLogger.warn("Exiting now.");
+          await mainBrowserManager.saveStorageState();
+          process.exit(1);
+          return;
+        }
+        stopping = true;
+        mainLogger.info("\nStopping the daemon after the current swipes... Press Ctrl+C again to exit now.");
+        for (const swiper of activeSwipers) {
+          swiper.stop();
+        }
+        await daemon.stop();
+        await mainBrowserManager.close();
+        process.exit(0);
+      };
+      process.on("SIGINT", shutdown);
+      process.on("SIGTERM", shutdown);
+
+      daemon.start();
+      mainLogger.info("Daemon running. Press Ctrl+C to stop.");
+    } catch (error) {
+      if (error instanceof ProcessExitError) {
+        if (require.main === module) {
+          process.exit(error.code);
+        } else {
+          throw error; // Let the test handle it
+        }
+      }
+      console.error("Fatal error:", error);
+      if (require.main === module) {
+        process.exit(1);
+      } else {
+        throw error;
+      }
+    }
+  };
+
+/**
+ * Formats a site's capabilities for the site listing.
+ * @param capabilities - The capabilities, if the site declared them.
+ * @returns A one-line summary.
+ */
+const formatCapabilities = (capabilities?: SiteCapabilities): string => {
+  if (!capabilities) {
+    return "Capabilities: not declared";
+  }
+  const yesNo = (value: boolean) => (value ? "yes" : "no");
+  return (
+    `Swipe input: ${capabilities.swipeInput}, super likes: ${yesNo(capabilities.superLike)}, ` +
+    `match detection: ${yesNo(capabilities.matchDetection)}, limit detection: ${yesNo(capabilities.limitDetection)}, ` +
+    `match percentage: ${yesNo(capabilities.matchPercentage)}`
+  );
+};
+
+const listSitesAction = (options: ListSitesOptions) => {
+  const logger = new Logger(LogLevel.INFO);
+  const config = new Config(options.config);
+
+  // Plugin sites are listed too
+  try {
+    loadPlugins(config.getPlugins(), { sites: siteRegistry, strategies: strategyRegistry }, logger);
+  } catch (error) {
+    if (!(error instanceof PluginLoadError)) {
+      throw error;
+    }
+    logger.error(error.message);
+    if (require.main === module) {
+      process.exit(1);
+    } else {
+      throw new ProcessExitError(1); // Let the test handle it
+    }
+  }
+
+  const enabledSites = config.getAllSites();
+  for (const { name, metadata, capabilities } of siteRegistry.getAll()) {
+    const status = enabledSites.includes(name) ? "enabled" : "disabled";
+    console.log(`${name} (${status}): ${metadata.displayName} - ${metadata.url}`);
+    if (metadata.description) {
+      console.log(`  ${metadata.description}`);
+    }
+    console.log(`  ${formatCapabilities(capabilities)}`);
+  }
+};
+
 program.action(mainAction); // Assign the named action
 
+program
+  .command("sites")
+  .description("List the registered sites and what each of them supports")
+  .option("-c, --config <path>", "Path to config file", "config.json")
+  .action(listSitesAction);
+
+program
+  .command("daemon")
+  .description("Stay up and start sessions for each site on the schedule set in the configuration")
+  .option("-c, --config <path>", "Path to config file", "config.json")
+  .option("-d, --debug", "Enable debug logging", false)
+  .option("--headless", "Run browser in headless mode", false)
+  .option("--seed <seed>", "Seed for every random choice, to reproduce the runs (overrides config.json)")
+  .action(daemonAction);
+
 // Conditionally call program.parse() only when index.ts is run directly
 if (require.main === module) {
   program.parse();
 }
 
-export { program, mainAction };
\ No newline at end of file
+export { program, mainAction, listSitesAction, daemonAction };
\ No newline at end of file
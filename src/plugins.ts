@@ -0,0 +1,120 @@
+import { createRequire } from 'module';
+import { existsSync, readdirSync, statSync } from 'fs';
+import { isAbsolute, join, resolve } from 'path';
+import { SiteRegistry } from './sites/registry';
+import { StrategyRegistry } from './decisions/registry';
+import { Logger } from './utils/logger';
+
+/**
+ * The registries a plugin can extend.
+ */
+export interface PluginContext {
+  /** The site registry. Plugins add their site modules here. */
+  sites: SiteRegistry;
+  /** The decision strategy registry. Plugins add custom strategies here. */
+  strategies: StrategyRegistry;
+}
+
+/**
+ * The shape a plugin module must export.
+ */
+export interface SwiperPlugin {
+  /**
+   * Called once at startup so the plugin can register its extensions.
+   * @param context - The registries to extend.
+   */
+  register(context: PluginContext): void;
+}
+
+/**
+ * Thrown when a plugin listed in the configuration cannot be loaded.
+ */
+export class PluginLoadError extends Error {
+  specifier: string;
+  constructor(specifier: string, message: string) {
+    super(`Could not load plugin "${specifier}": ${message}`);
+    this.specifier = specifier;
+    this.name = 'PluginLoadError';
+  }
+}
+
+/**
+ * Checks whether a plugin specifier refers to a local path rather than an npm package.
+ * @param specifier - The plugin specifier from the configuration.
+ * @returns True for relative or absolute paths.
+ */
+function isLocalPath(specifier: string): boolean {
+  return specifier.startsWith('.') || isAbsolute(specifier);
+}
+
+/**
+ * Expands a plugin specifier into the module paths to load.
+ * A local directory without an entry point loads every `.js` file it contains.
+ * @param specifier - The plugin specifier from the configuration.
+ * @param baseDir - The directory relative paths are resolved against.
+ * @returns The module paths or package names to require.
+ */
+function resolveModules(specifier: string, baseDir: string): string[] {
+  if (!isLocalPath(specifier)) {
+    return [specifier];
+  }
+
+  const path = resolve(baseDir, specifier);
+  if (!existsSync(path)) {
+    throw new PluginLoadError(specifier, `${path} does not exist`);
+  }
+
+  const hasEntryPoint = existsSync(join(path, 'package.json')) || existsSync(join(path, 'index.js'));
+  if (!statSync(path).isDirectory() || hasEntryPoint) {
+    return [path];
+  }
+
+  return readdirSync(path)
+    .filter((entry) => entry.endsWith('.js'))
+    .sort()
+    .map((entry) => join(path, entry));
+}
+
+/**
+ * Loads the plugins listed in the configuration and lets each one register its extensions.
+ * Packages are resolved from `baseDir`, so they can be installed next to config.json.
+ * @param specifiers - Local paths or npm package names.
+ * @param context - The registries plugins may extend.
+ * @param logger - The logger instance.
+ * @param baseDir - The directory relative paths and packages are resolved against.
+ * @throws {PluginLoadError} If a plugin cannot be found or does not export `register`.
+ */
+export function loadPlugins(
+  specifiers: string[],
+  context: PluginContext,
+  logger: Logger,
+  baseDir: string = process.cwd()
+): void {
+  const pluginRequire = createRequire(join(baseDir, 'config.json'));
+
+  for (const specifier of specifiers) {
+    for (const modulePath of resolveModules(specifier, baseDir)) {
+      let exported: Partial<SwiperPlugin> & { default?: Partial<SwiperPlugin> };
+      try {
+        exported = pluginRequire(modulePath);
+      } catch (_error: unknown) {
+        const errorMessage = _error instanceof Error ? _error.message : String(_error);
+        throw new PluginLoadError(specifier, errorMessage);
+      }
+
+      const register = exported.register ?? exported.default?.register;
+      if (typeof register !== 'function') {
+        throw new PluginLoadError(specifier, `${modulePath} does not export a register(context) function`);
+      }
+
+      const sitesBefore = new Set(context.sites.getNames());
+      const strategiesBefore = new Set(context.strategies.getNames());
+      register(context);
+      const added = [
+        ...context.sites.getNames().filter((name) => !sitesBefore.has(name)).map((name) => `site ${name}`),
+        ...context.strategies.getNames().filter((name) => !strategiesBefore.has(name)).map((name) => `strategy ${name}`),
+      ];
+      logger.debug(`Loaded plugin ${modulePath}${added.length > 0 ? ` (${added.join(', ')})` : ''}`);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { SessionEndReason, SessionError } from './session';
+import { SwiperStats } from './swiper';
+import { RestartBackoff, SiteConfig } from './types';
+import { Logger } from './utils/logger';
+
+/** The backoff used for the settings a site leaves out. */
+const DEFAULT_BACKOFF: Required<RestartBackoff> = { initialSeconds: 30, multiplier: 2, maxSeconds: 600 };
+/** End reasons another attempt would not fix, so the session is not restarted. */
+const PERMANENT_END_REASONS: ReadonlySet<SessionEndReason> = new Set(['login-timeout']);
+
+/**
+ * A session that can be run again after it failed, picking up where it stopped.
+ */
+export interface RestartableSession {
+  /**
+   * Runs the session, or resumes it after a failed run.
+   * @returns A promise that resolves with the session statistics.
+   */
+  run(): Promise<SwiperStats>;
+
+  /**
+   * Gets the statistics so far.
+   * @returns The session statistics.
+   */
+  getStats(): SwiperStats;
+
+  /**
+   * Checks whether the session was asked to stop.
+   * @returns True once the session has been asked to stop.
+   */
+  isStopRequested(): boolean;
+
+  /**
+   * Waits before the session is restarted. The wait ends early when the session is asked to stop.
+   * @param ms - How long to wait in milliseconds.
+   */
+  waitBeforeRestart(ms: number): Promise<void>;
+}
+
+/**
+ * Checks whether a session failed for a reason another attempt would not fix.
+ * @param error - What the session failed with.
+ * @returns True if the session should not be restarted.
+ */
+export function isPermanentFailure(error: unknown): error is SessionError {
+  return error instanceof SessionError && PERMANENT_END_REASONS.has(error.endReason);
+}
+
+/**
+ * Works out how long to wait before a restart.
+ * @param restart - Which restart this is, starting at 1.
+ * @param backoff - Optional: The site's backoff settings.
+ * @returns The wait in milliseconds.
+ */
+export function restartDelay(restart: number, backoff: RestartBackoff = {}): number {
+  const { initialSeconds, multiplier, maxSeconds } = { ...DEFAULT_BACKOFF, ...backoff };
+  return Math.min(initialSeconds * multiplier ** (restart - 1), maxSeconds) * 1000;
+}
+
+/**
+ * Runs a session and restarts it after a failure, up to the site's maxRestarts, waiting longer
+ * before each restart. A restarted session opens a new page and carries on with the swipes it
+ * has left. A session asked to stop, even during the wait, is not restarted.
+ * @param session - The session to run.
+ * @param config - The site configuration.
+ * @param logger - The site's logger.
+ * @returns A promise that resolves with the session statistics.
+ * @throws The last error, once the session cannot be restarted.
+ */
+export async function runWithRestarts(
+  session: RestartableSession,
+  config: SiteConfig,
+  logger: Logger
+): Promise<SwiperStats> {
+  const maxRestarts = config.maxRestarts ?? 0;
+  for (let restart = 1; ; restart++) {
+    try {
+      return await session.run();
+    } catch (_error: unknown) {
+      if (restart > maxRestarts || session.isStopRequested()) {
+        throw _error;
+      }
+      if (isPermanentFailure(_error)) {
+        logger.warn(`Not restarting: the session ended with ${_error.endReason}.`);
+        throw _error;
+      }
+      const delayMs = restartDelay(restart, config.restartBackoff);
+      const swipesLeft = config.maxSwipesPerSession - session.getStats().totalSwipes;
+      logger.warn(
+        `Restarting the session in ${delayMs / 1000}s (restart ${restart} of ${maxRestarts}, ${swipesLeft} swipes left)...`
+      );
+      await session.waitBeforeRestart(delayMs);
+      if (session.isStopRequested()) {
+        throw _error;
+      }
+    }
+  }
+}
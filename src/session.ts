@@ -0,0 +1,92 @@
+/**
+ * The states a swiping session moves through.
+ */
+export type SessionState =
+  /** The session has not started yet. */
+  | 'idle'
+  /** Opening the site. */
+  | 'navigating'
+  /** Waiting for the user to log in manually. */
+  | 'awaiting-login'
+  /** Waiting for the profile cards to load. */
+  | 'waiting-for-cards'
+  /** Swiping through profiles. */
+  | 'swiping'
+  /** Getting the page back to a swipeable state after a failed swipe. */
+  | 'recovering'
+  /** Swiping is on hold until the session is resumed. */
+  | 'paused'
+  /** Taking a scheduled break from swiping. */
+  | 'on-break'
+  /** Waiting for the user to confirm the swipe in assisted mode. */
+  | 'awaiting-confirmation'
+  /** The site refused further swipes. */
+  | 'limit-reached'
+  /** The session is over. */
+  | 'done';
+
+/**
+ * Why a swiping session ended.
+ */
+export type SessionEndReason =
+  /** The configured maximum number of swipes was reached. */
+  | 'max-swipes'
+  /** The site has no more profiles to show. */
+  | 'out-of-profiles'
+  /** The site refused further swipes because a limit was reached. */
+  | 'limit-reached'
+  /** The session was started before the limit an earlier run hit had reset. */
+  | 'limit-pending'
+  /** The session was started outside the site's allowed time windows. */
+  | 'outside-window'
+  /** The allowed time window closed during the session. */
+  | 'window-closed'
+  /** The session ran for its configured maximum number of minutes. */
+  | 'time-limit'
+  /** A daily or weekly quota set in the configuration was used up, counting earlier runs. */
+  | 'quota-reached'
+  /** The user did not log in in time. */
+  | 'login-timeout'
+  /** The profile cards could not be found. */
+  | 'no-cards'
+  /** The page could not be brought back to the cards after a failure. */
+  | 'recovery-failed'
+  /** Too many swipes in a row failed. */
+  | 'too-many-failures'
+  /** A dry run could not move past a card, because the site has no way to do so without swiping. */
+  | 'cannot-advance'
+  /** The user quit in assisted mode. */
+  | 'user-quit'
+  /** The user stopped the session, for example with Ctrl+C. */
+  | 'stopped'
+  /** An unexpected error ended the session. */
+  | 'error';
+
+/**
+ * A change from one session state to another.
+ */
+export interface SessionTransition {
+  /** The state the session left. */
+  from: SessionState;
+  /** The state the session entered. */
+  to: SessionState;
+  /** When the transition happened. */
+  at: Date;
+  /** Optional: Why the session ended, set when entering 'done'. */
+  endReason?: SessionEndReason;
+}
+
+/**
+ * Thrown when a swiping session cannot continue. Carries the reason the session ended and the
+ * state it was in, so callers can report more than the message.
+ */
+export class SessionError extends Error {
+  endReason: SessionEndReason;
+  state: SessionState;
+  constructor(message: string, endReason: SessionEndReason, state: SessionState) {
+    super(message);
+    this.endReason = endReason;
+    this.state = state;
+    this.name = 'SessionError';
+  }
+}
@@ -1,6 +1,9 @@
 import { Page } from 'playwright';
 import { Logger } from '../utils/logger';
-import { SiteConfig } from '../types';
+import { Rng } from '../utils/random';
+import { MatchEvent, ProfileSnapshot, SiteCapabilities, SiteConfig, SwipeAction, SwipeOutcome } from '../types';
+import { PopupEngine, PopupRule } from './popupEngine';
+import { parseLimitReset } from './limitReset';
 
 /**
  * Interface for a site module, defining the required methods for interacting with a dating site.
@@ -27,12 +30,13 @@ export interface SiteModule {
   waitForCards(_page: Page): Promise<boolean>;
 
   /**
-   * Performs a swipe action (like or dislike).
+   * Performs a swipe action (like, super like or dislike).
+   * Sites without super likes return an error outcome for 'superlike'.
    * @param page - The Playwright page instance.
    * @param action - The swipe action to perform.
-   * @returns A promise that resolves to true if the swipe was successful, false otherwise.
+   * @returns A promise that resolves to the outcome of the swipe attempt.
    */
-  swipe(_page: Page, action: 'like' | 'dislike'): Promise<boolean>;
+  swipe(_page: Page, action: SwipeAction): Promise<SwipeOutcome>;
 
   /**
    * Checks if there are more profiles available to swipe.
@@ -53,6 +57,54 @@ export interface SiteModule {
    * @returns The site's URL.
    */
   getUrl(): string;
+
+  /**
+   * Describes what the site supports.
+   * @returns The site's capabilities.
+   */
+  getCapabilities(): SiteCapabilities;
+
+  /**
+   * Optional: Gets how many times each popup was dismissed so far.
+   * @returns The dismiss counts, keyed by popup name.
+   */
+  getPopupStats?(): Record<string, number>;
+
+  /**
+   * Optional: Registers the site's popups as background handlers on the page, so they are
+   * dismissed automatically before interactions.
+   * @param page - The Playwright page instance.
+   */
+  registerPopupHandlers?(_page: Page): Promise<void>;
+
+  /**
+   * Optional: Reads the profile currently shown. Fields the site does not show, or that could not
+   * be read, are left out.
+   * @param page - The Playwright page instance.
+   * @returns A promise that resolves to the profile snapshot.
+   */
+  getCurrentProfile?(_page: Page): Promise<ProfileSnapshot>;
+
+  /**
+   * Optional: Moves to the next profile without liking or passing the current one. Used by dry
+   * runs; without it, a dry run stops after the first profile.
+   * @param page - The Playwright page instance.
+   * @returns A promise that resolves to true if the next profile is shown, false otherwise.
+   */
+  skipProfile?(_page: Page): Promise<boolean>;
+
+  /**
+   * Optional: Subscribes to matches the site announces, such as an "It's a match" screen.
+   * @param listener - Called once for every match detected.
+   */
+  onMatch?(listener: (event: MatchEvent) => void): void;
+
+  /**
+   * Optional: Gets when the site's like or swipe limit resets, as read from the last limit
+   * screen it showed.
+   * @returns The reset time, or undefined if no limit screen said when.
+   */
+  getLimitReset?(): Date | undefined;
 }
 
 /**
@@ -61,26 +113,174 @@ export interface SiteModule {
 export abstract class BaseSite implements SiteModule {
   protected config: SiteConfig;
   protected logger: Logger;
+  protected rng: Rng;
+  private popupEngine?: PopupEngine;
+  private matchListeners: ((event: MatchEvent) => void)[] = [];
+  private limitResetAt?: Date;
 
   /**
    * Creates an instance of BaseSite.
    * @param config - The site configuration.
    * @param logger - The logger instance.
+   * @param rng - Optional: The random number generator for clicks and pauses. Defaults to an unseeded one.
    */
-  constructor(config: SiteConfig, logger: Logger) {
+  constructor(config: SiteConfig, logger: Logger, rng: Rng = new Rng()) {
     this.config = config;
     this.logger = logger;
+    this.rng = rng;
   }
 
   abstract isLoggedIn(_page: Page): Promise<boolean>;
   abstract navigate(_page: Page): Promise<void>;
   abstract waitForCards(_page: Page): Promise<boolean>;
-  abstract swipe(_page: Page, action: 'like' | 'dislike'): Promise<boolean>;
+  abstract swipe(_page: Page, action: SwipeAction): Promise<SwipeOutcome>;
   abstract hasMoreProfiles(_page: Page): Promise<boolean>;
   abstract getUrl(): string;
+  abstract getCapabilities(): SiteCapabilities;
+
+  /**
+   * Declares the popups this site can show. Sites without popups keep the default empty list.
+   * @returns The site's popup rules.
+   */
+  protected getPopupRules(): PopupRule[] {
+    return [];
+  }
+
+  /**
+   * Dismisses any active popups by evaluating the site's popup rules.
+   * @param page - The Playwright page instance.
+   * @returns A promise that resolves to true if a popup was dismissed, false otherwise.
+   */
+  async dismissPopup(page: Page): Promise<boolean> {
+    return this.getPopupEngine().run(page);
+  }
+
+  /**
+   * Registers the site's popup rules that declare an overlay as Playwright locator handlers.
+   * @param page - The Playwright page instance.
+   */
+  async registerPopupHandlers(page: Page): Promise<void> {
+    const count = await this.getPopupEngine().registerHandlers(page);
+    this.logger.debug(`Registered ${count} popup handler(s).`);
+  }
+
+  /**
+   * Subscribes to matches announced by the site's match popup rules.
+   * @param listener - Called once for every match detected.
+   */
+  onMatch(listener: (event: MatchEvent) => void): void {
+    this.matchListeners.push(listener);
+  }
+
+  /**
+   * Notifies the match listeners about a match.
+   * @param source - The name of the popup rule that spotted the match.
+   */
+  protected emitMatch(source: string): void {
+    this.logger.success(`It's a match! (${source})`);
+    const event: MatchEvent = { source, detectedAt: new Date() };
+    for (const listener of this.matchListeners) {
+      listener(event);
+    }
+  }
+
+  /**
+   * Gets when the site's limit resets, as read from the last limit screen.
+   * @returns The reset time, or undefined if no limit screen said when.
+   */
+  getLimitReset(): Date | undefined {
+    return this.limitResetAt;
+  }
+
+  /**
+   * Reads the reset time from the text of a limit screen, when the text gives one.
+   * @param message - The text of the limit screen.
+   */
+  protected recordLimitMessage(message: string): void {
+    const resetAt = parseLimitReset(message);
+    if (resetAt) {
+      this.limitResetAt = resetAt;
+      this.logger.debug(`Limit resets at ${resetAt.toISOString()}.`);
+    }
+  }
+
+  /**
+   * Gets how many times each popup rule fired.
+   * @returns The dismiss counts, keyed by rule name.
+   */
+  getPopupStats(): Record<string, number> {
+    return this.popupEngine?.getFiredCounts() ?? {};
+  }
+
+  /**
+   * Gets the popup engine, creating it on first use so subclasses have finished initializing their rules.
+   * @returns The popup engine.
+   */
+  protected getPopupEngine(): PopupEngine {
+    if (!this.popupEngine) {
+      this.popupEngine = new PopupEngine(this.getPopupRules(), this.logger, (rule) => {
+        if (rule.isMatch) {
+          this.emitMatch(rule.name);
+        }
+      });
+    }
+    return this.popupEngine;
+  }
+
+  /**
+   * Gives the registered popup handlers a chance to clear overlays before a keyboard or mouse action.
+   * Playwright only runs locator handlers before actions with actionability checks, so this runs a
+   * trial hover (checks only, no mouse movement) on the page body.
+   * @param page - The Playwright page instance.
+   */
+  protected async clearOverlays(page: Page): Promise<void> {
+    try {
+      await page.locator('body').hover({ trial: true, timeout: 5000 });
+    } catch (_error: unknown) {
+      const errorMessage = _error instanceof Error ? _error.message : String(_error);
+      this.logger.debug(`Could not check for overlays: ${errorMessage}`);
+    }
+  }
+
+  /**
+   * Checks whether the page is still on this site (any subdomain of the site's host).
+   * @param page - The Playwright page instance.
+   * @returns True if the page's host belongs to the site.
+   */
+  protected isOnSite(page: Page): boolean {
+    const siteHost = new URL(this.getUrl()).hostname.replace(/^www\./, '');
+    try {
+      const pageHost = new URL(page.url()).hostname;
+      return pageHost === siteHost || pageHost.endsWith(`.${siteHost}`);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Works out why a swipe control could not be found: the page left the site,
+   * a dialog is covering it, or it is simply missing.
+   * @param page - The Playwright page instance.
+   * @param element - A description of the missing control.
+   * @returns The outcome describing the failure.
+   */
+  protected async diagnoseMissingControl(page: Page, element: string): Promise<SwipeOutcome> {
+    if (!this.isOnSite(page)) {
+      return { kind: 'navigated-away', url: page.url() };
+    }
+    const dialog = page.locator('[role="dialog"], [role="alertdialog"]').first();
+    if (await dialog.isVisible().catch(() => false)) {
+      return { kind: 'popup-blocked', popup: 'dialog' };
+    }
+    return { kind: 'element-missing', element };
+  }
 
-  async dismissPopup(_page: Page): Promise<boolean> {
-    // Default implementation: do nothing and return false
-    return false;
+  /**
+   * Converts an unexpected exception into an error outcome.
+   * @param error - The caught error.
+   * @returns The error outcome.
+   */
+  protected errorOutcome(error: unknown): SwipeOutcome {
+    return { kind: 'error', message: error instanceof Error ? error.message : String(error) };
   }
 }
@@ -0,0 +1,203 @@
+import { Page } from 'playwright';
+import { BaseSite } from './base';
+import { PopupRule } from './popupEngine';
+import { SiteCapabilities, SiteConfig, SwipeAction, SwipeOutcome } from '../types';
+import { Logger } from '../utils/logger';
+import { Rng } from '../utils/random';
+import { humanClick, random } from '../utils/helpers';
+import { bumbleSelectors, BumbleSelectors, loadSelectorPack, toTextMatcher } from './selectors';
+
+/**
+ * The site module for the Bumble web app.
+ */
+export class BumbleSite extends BaseSite {
+  static readonly CAPABILITIES: SiteCapabilities = {
+    swipeInput: 'buttons',
+    superLike: false,
+    matchDetection: true,
+    limitDetection: false,
+    matchPercentage: false,
+  };
+
+  private readonly URL = 'https://bumble.com/app';
+  private readonly selectors: BumbleSelectors;
+
+  constructor(config: SiteConfig, logger: Logger, rng?: Rng) {
+    super(config, logger, rng);
+    this.selectors = loadSelectorPack(bumbleSelectors, config.selectorsFile).selectors;
+  }
+
+  getUrl(): string {
+    return this.URL;
+  }
+
+  getCapabilities(): SiteCapabilities {
+    return BumbleSite.CAPABILITIES;
+  }
+
+  async isLoggedIn(page: Page): Promise<boolean> {
+    this.logger.debug("Checking Bumble login status...");
+    try {
+      // The sidebar and the encounters deck are only rendered for logged-in users.
+      const loggedInLocator = page.locator(this.selectors.loggedIn);
+      this.logger.debug("Waiting for logged-in indicator...");
+      await loggedInLocator.first().waitFor({ state: 'visible', timeout: 5000 });
+      this.logger.info("Logged-in indicator found, user is logged in.");
+      return true;
+    } catch (_e: unknown) {
+      const errorMessage = _e instanceof Error ? _e.message : String(_e);
+      this.logger.debug(`Primary logged-in indicator not found within timeout: ${errorMessage}`);
+      // Logged-out visitors are redirected to the get-started page with sign-in options.
+      if (page.url().includes(this.selectors.loggedOutPath)) {
+        this.logger.warn("Redirected to the get-started page, user is not logged in.");
+        return false;
+      }
+      const loggedOutLocator = page.getByRole('button', { name: toTextMatcher(this.selectors.loggedOutButtonName) });
+      const count = await loggedOutLocator.count();
+      if (count === 0) {
+        this.logger.info("Logged-out indicators not found, assuming user is logged in.");
+        return true;
+      } else {
+        this.logger.warn("Logged-out indicators found, user is not logged in.");
+        return false;
+      }
+    }
+  }
+
+  async navigate(page: Page): Promise<void> {
+    this.logger.info("Navigating to Bumble...");
+    await page.goto(this.URL, { waitUntil: "domcontentloaded" });
+    this.logger.info("Page navigation complete, handling cookie banner...");
+
+    try {
+      const acceptButton = page.getByRole('button', { name: toTextMatcher(this.selectors.cookieAcceptName) });
+      await acceptButton.waitFor({ state: 'visible', timeout: 10000 });
+      this.logger.info("Cookie consent banner found. Clicking 'Accept all'.");
+      await humanClick(page, acceptButton, this.rng);
+      await page.waitForTimeout(random(1500, 2500, this.rng));
+    } catch (_error: unknown) {
+      const errorMessage = _error instanceof Error ? _error.message : String(_error);
+      this.logger.debug(`Cookie consent banner not found or already accepted: ${errorMessage}`);
+    }
+  }
+
+  protected getPopupRules(): PopupRule[] {
+    return [
+      {
+        // The match screen covers the deck until "Continue Bumbling" is clicked
+        name: 'match',
+        priority: 30,
+        isMatch: true,
+        overlay: (page) => page.getByRole('button', { name: toTextMatcher(this.selectors.matchContinueName) }),
+        detect: async (page) => {
+          const continueButton = page.getByRole('button', { name: toTextMatcher(this.selectors.matchContinueName) });
+          return (await continueButton.isVisible()) ? continueButton : null;
+        },
+        dismiss: async (page, continueButton) => {
+          this.logger.info("Found match screen, continuing to swipe...");
+          await humanClick(page, continueButton, this.rng);
+          await page.waitForTimeout(random(1000, 1500, this.rng));
+        },
+      },
+      {
+        name: 'notifications',
+        priority: 20,
+        overlay: (page) => page.getByRole('button', { name: toTextMatcher(this.selectors.notificationsNotNowName) }),
+        detect: async (page) => {
+          const notNowButton = page.getByRole('button', { name: toTextMatcher(this.selectors.notificationsNotNowName) });
+          return (await notNowButton.isVisible()) ? notNowButton : null;
+        },
+        dismiss: async (page, notNowButton) => {
+          this.logger.info("Found 'Enable notifications' prompt, dismissing with 'Not now'.");
+          await humanClick(page, notNowButton, this.rng);
+          await page.waitForTimeout(random(1000, 1500, this.rng));
+        },
+      },
+      {
+        // Premium upsells and other modals share a generic dialog with a close button
+        name: 'dialog',
+        priority: 10,
+        overlay: (page) => page.locator(this.selectors.dialog),
+        detect: async (page) => {
+          const dialog = page.locator(this.selectors.dialog);
+          if (!(await dialog.isVisible())) return null;
+          this.logger.info("Generic dialog popup detected. Trying to dismiss...");
+          const closeButton = dialog.getByRole('button', { name: toTextMatcher(this.selectors.dialogCloseName) });
+          return (await closeButton.isVisible()) ? closeButton : null;
+        },
+        dismiss: async (page, closeButton) => {
+          this.logger.info(`Found close button with text: "${await closeButton.textContent()}"`);
+          await humanClick(page, closeButton, this.rng);
+          await page.waitForTimeout(random(1000, 1500, this.rng));
+        },
+      },
+    ];
+  }
+
+  async waitForCards(page: Page): Promise<boolean> {
+    try {
+      this.logger.info("Waiting for profile cards to load on Bumble...");
+      await this.dismissPopup(page); // Always check for popups first
+
+      this.logger.debug("Waiting for 'Like' or 'Pass' button to be visible...");
+      const likeButton = page.locator(this.selectors.likeButton);
+      const passButton = page.locator(this.selectors.passButton);
+
+      await Promise.race([
+        likeButton.waitFor({ state: 'visible', timeout: 15000 }),
+        passButton.waitFor({ state: 'visible', timeout: 15000 }),
+      ]);
+
+      this.logger.success("Profile card action buttons are visible.");
+      return true;
+    } catch (_error: unknown) {
+      const errorMessage = _error instanceof Error ? _error.message : String(_error);
+      this.logger.error(`Error waiting for cards: ${errorMessage}`);
+      return false;
+    }
+  }
+
+  async swipe(page: Page, action: SwipeAction): Promise<SwipeOutcome> {
+    // SuperSwipes are a paid feature that the web app does not expose as a plain button
+    if (action === 'superlike') {
+      this.logger.warn("Bumble does not support super likes.");
+      return { kind: 'error', message: 'Super likes are not supported on Bumble.' };
+    }
+
+    try {
+      // Popups covering the button are cleared by the popup handlers when humanClick checks it
+      const button = action === 'like'
+        ? page.locator(this.selectors.likeButton)
+        : page.locator(this.selectors.passButton);
+
+      if (await button.isVisible()) {
+        await humanClick(page, button, this.rng);
+        this.logger.info(`${action === 'like' ? 'Liked' : 'Passed'} a profile.`);
+        return { kind: 'success' };
+      } else {
+        this.logger.warn(`Could not find ${action} button.`);
+        return await this.diagnoseMissingControl(page, `${action} button`);
+      }
+    } catch (_error: unknown) {
+      const errorMessage = _error instanceof Error ? _error.message : String(_error);
+      this.logger.error(`Error during swipe action: ${errorMessage}`);
+      return this.errorOutcome(_error);
+    }
+  }
+
+  async hasMoreProfiles(page: Page): Promise<boolean> {
+    try {
+      // Bumble replaces the deck with a message once everyone nearby has been seen
+      const noMoreProfiles = page.getByText(toTextMatcher(this.selectors.outOfProfilesText));
+      if (await noMoreProfiles.first().isVisible()) {
+        this.logger.info("No more profiles found.");
+        return false;
+      }
+      return true;
+    } catch (_error: unknown) {
+      const errorMessage = _error instanceof Error ? _error.message : String(_error);
+      this.logger.debug(`Error checking for more profiles (assuming more exist): ${errorMessage}`);
+      return true;
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { SiteRegistry } from './registry';
+import { TinderSite } from './tinder';
+import { OkCupidSite } from './okcupid';
+import { BumbleSite } from './bumble';
+
+/**
+ * Registers the site modules that ship with Swiper.
+ * @param registry - The registry to add the built-in sites to.
+ */
+export function registerBuiltinSites(registry: SiteRegistry): void {
+  registry.register({
+    name: 'tinder',
+    factory: (config, logger, rng) => new TinderSite(config, logger, rng),
+    metadata: {
+      displayName: 'Tinder',
+      url: 'https://tinder.com',
+      description: 'Swipes with keyboard shortcuts on the Tinder web app.',
+    },
+    capabilities: TinderSite.CAPABILITIES,
+  });
+
+  registry.register({
+    name: 'okcupid',
+    factory: (config, logger, rng) => new OkCupidSite(config, logger, rng),
+    metadata: {
+      displayName: 'OkCupid',
+      url: 'https://www.okcupid.com',
+      description: 'Uses the Like and Pass buttons on OkCupid DoubleTake.',
+    },
+    capabilities: OkCupidSite.CAPABILITIES,
+  });
+
+  registry.register({
+    name: 'bumble',
+    factory: (config, logger, rng) => new BumbleSite(config, logger, rng),
+    metadata: {
+      displayName: 'Bumble',
+      url: 'https://bumble.com/app',
+      description: 'Uses the Like and Pass buttons in the Bumble web app.',
+    },
+    capabilities: BumbleSite.CAPABILITIES,
+  });
+}
+
+/**
+ * The default registry, pre-populated with the built-in sites.
+ * Plugins listed in config.json are loaded into this registry at startup.
+ */
+export const siteRegistry = new SiteRegistry();
+registerBuiltinSites(siteRegistry);
+
+export { SiteRegistry, UnknownSiteError } from './registry';
+export { SelectorPackError } from './selectors';
+export type { SiteFactory, SiteMetadata, SiteRegistration } from './registry';
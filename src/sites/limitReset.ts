@@ -0,0 +1,47 @@
+/** How many milliseconds each duration unit lasts. */
+const UNIT_MS: Record<string, number> = { h: 3600000, m: 60000, s: 1000 };
+
+/**
+ * Reads when a site's like or swipe limit resets from the text of its limit screen.
+ * Understands a countdown ("11:59:32"), a duration ("12 hours", "5h 30m") and a clock time
+ * ("at 7:30 PM", "at 19:30"), which is taken as the next time the clock shows it.
+ * @param text - The text of the limit screen.
+ * @param now - Optional: The current time. Defaults to now.
+ * @returns When the limit resets, or undefined if the text does not say.
+ */
+export function parseLimitReset(text: string, now: Date = new Date()): Date | undefined {
+  const countdown = /\b(\d{1,3}):([0-5]\d):([0-5]\d)\b/.exec(text);
+  if (countdown) {
+    const [hours, minutes, seconds] = countdown.slice(1).map(Number);
+    return new Date(now.getTime() + hours * UNIT_MS.h + minutes * UNIT_MS.m + seconds * UNIT_MS.s);
+  }
+
+  let durationMs = 0;
+  for (const match of text.matchAll(/\b(\d+)\s*(h|hrs?|hours?|m|mins?|minutes?|s|secs?|seconds?)\b/gi)) {
+    durationMs += Number(match[1]) * UNIT_MS[match[2].charAt(0).toLowerCase()];
+  }
+  if (durationMs > 0) {
+    return new Date(now.getTime() + durationMs);
+  }
+
+  const clock = /\bat\s+(\d{1,2})(?::([0-5]\d))?\s*(am|pm)?\b/i.exec(text);
+  if (clock && (clock[2] !== undefined || clock[3] !== undefined)) {
+    let hours = Number(clock[1]);
+    const meridiem = clock[3]?.toLowerCase();
+    if (meridiem !== undefined) {
+      if (hours < 1 || hours > 12) {
+        return undefined;
+      }
+      hours = (hours % 12) + (meridiem === 'pm' ? 12 : 0);
+    } else if (hours > 23) {
+      return undefined;
+    }
+    const reset = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hours, Number(clock[2] ?? 0));
+    if (reset <= now) {
+      reset.setDate(reset.getDate() + 1);
+    }
+    return reset;
+  }
+
+  return undefined;
+}
@@ -1,26 +1,45 @@
 import { Page } from 'playwright';
 import { BaseSite } from './base';
-import { SiteConfig } from '../types';
+import { PopupRule } from './popupEngine';
+import { ProfileSnapshot, SiteCapabilities, SiteConfig, SwipeAction, SwipeOutcome } from '../types';
 import { Logger } from '../utils/logger';
+import { Rng } from '../utils/random';
 import { humanClick, random } from '../utils/helpers';
+import { loadSelectorPack, okcupidSelectors, OkCupidSelectors, toTextMatcher } from './selectors';
+import { extractProfile } from './profile';
 
 export class OkCupidSite extends BaseSite {
+  static readonly CAPABILITIES: SiteCapabilities = {
+    swipeInput: 'buttons',
+    superLike: true,
+    matchDetection: true,
+    // OkCupid has not been seen to limit likes, so there is no limit message to look for
+    limitDetection: false,
+    matchPercentage: true,
+  };
+
   private readonly URL = 'https://www.okcupid.com';
+  private readonly selectors: OkCupidSelectors;
 
-  constructor(config: SiteConfig, logger: Logger) {
-    super(config, logger);
+  constructor(config: SiteConfig, logger: Logger, rng?: Rng) {
+    super(config, logger, rng);
+    this.selectors = loadSelectorPack(okcupidSelectors, config.selectorsFile).selectors;
   }
 
   getUrl(): string {
     return this.URL;
   }
 
+  getCapabilities(): SiteCapabilities {
+    return OkCupidSite.CAPABILITIES;
+  }
+
   async isLoggedIn(page: Page): Promise<boolean> {
     this.logger.debug("Checking OkCupid login status...");
     try {
       // 1. Primary Check: Wait for a reliable logged-in indicator to be visible.
       // The profile icon or the main navigation are good candidates.
-      const loggedInLocator = page.locator('a[href="/profile"], nav[aria-label="Primary"]');
+      const loggedInLocator = page.locator(this.selectors.loggedIn);
       this.logger.debug("Waiting for logged-in indicator...");
       await loggedInLocator.first().waitFor({ state: 'visible', timeout: 5000 });
       this.logger.info("Logged-in indicator found, user is logged in.");
@@ -30,7 +49,7 @@ export class OkCupidSite extends BaseSite {
       this.logger.debug(`Primary logged-in indicator not found within timeout: ${errorMessage}`);
       // 2. Secondary Check: If the primary indicator fails, check for the *absence* of logged-out indicators.
       // If there's no "Sign In" or "Join" button, we can be reasonably sure the user is logged in.
-      const loggedOutLocator = page.getByRole('link', { name: /Sign In|Join OkCupid/i });
+      const loggedOutLocator = page.getByRole('link', { name: toTextMatcher(this.selectors.loggedOutLinkName) });
       const count = await loggedOutLocator.count();
       if (count === 0) {
         this.logger.info("Logged-out indicators not found, assuming user is logged in.");
@@ -49,12 +68,12 @@ export class OkCupidSite extends BaseSite {
 
     try {
       // Handle the OneTrust cookie consent banner
-      const acceptButton = page.locator('#onetrust-accept-btn-handler');
+      const acceptButton = page.locator(this.selectors.cookieAccept);
       await acceptButton.waitFor({ state: 'visible', timeout: 10000 });
       this.logger.info("Cookie consent banner found. Clicking 'Accept'.");
-      await humanClick(page, acceptButton);
+      await humanClick(page, acceptButton, this.rng);
       // Wait for the banner to disappear
-      await page.waitForTimeout(random(1500, 2500));
+      await page.waitForTimeout(random(1500, 2500, this.rng));
     } catch (_error: unknown) { // Renamed error to _error
       const errorMessage = _error instanceof Error ? _error.message : String(_error);
       this.logger.debug(`Cookie consent banner not found or already accepted: ${errorMessage}`);
@@ -63,94 +82,124 @@ export class OkCupidSite extends BaseSite {
     // The subsequent isLoggedIn check will act as the explicit wait for a usable page.
   }
 
-  async dismissPopup(page: Page): Promise<boolean> {
-    try {
-      // Check for the "New likes" banner and close it.
-      const newLikesBanner = page.locator('a:has-text("New likes")');
-      if (await newLikesBanner.isVisible()) {
-          const closeButton = newLikesBanner.getByRole('button', { name: 'Close' });
-          if (await closeButton.isVisible()) {
-              this.logger.info("Found and closing the 'New likes' notification banner.");
-              await humanClick(page, closeButton);
-              await page.waitForTimeout(random(500, 1000));
-              // This popup doesn't block interaction, so we don't return true,
-              // allowing other popups to be checked.
-          }
-      }
-      
-      // Fallback for SuperLike upsell, which might not be a standard dialog
-      const likeAnywayButton = page.getByRole('button', { name: "LIKE THEM ANYWAY" });
-      if (await likeAnywayButton.isVisible()) {
+  protected getPopupRules(): PopupRule[] {
+    // The notifications prompt and generic dialogs share one handler, so "Not now" is still tried first
+    const dialogOverlay = (page: Page) => page.locator(this.selectors.dialog);
+    return [
+      {
+        // The "New likes" banner doesn't block interaction, so later rules are still checked
+        name: 'new-likes-banner',
+        priority: 70,
+        blocking: false,
+        detect: async (page) => {
+          const newLikesBanner = page.locator(this.selectors.newLikesBanner);
+          if (!(await newLikesBanner.isVisible())) return null;
+          const closeButton = newLikesBanner.getByRole('button', { name: toTextMatcher(this.selectors.newLikesCloseName) });
+          return (await closeButton.isVisible()) ? closeButton : null;
+        },
+        dismiss: async (page, closeButton) => {
+          this.logger.info("Found and closing the 'New likes' notification banner.");
+          await humanClick(page, closeButton, this.rng);
+          await page.waitForTimeout(random(500, 1000, this.rng));
+        },
+      },
+      {
+        // Fallback for SuperLike upsell, which might not be a standard dialog
+        name: 'superlike-upsell',
+        priority: 60,
+        detect: async (page) => {
+          const likeAnywayButton = page.getByRole('button', { name: toTextMatcher(this.selectors.superLikeUpsellName) });
+          return (await likeAnywayButton.isVisible()) ? likeAnywayButton : null;
+        },
+        dismiss: async (page, likeAnywayButton) => {
           this.logger.info("Found 'Like Them Anyway' button, dismissing SuperLike popup...");
-          await humanClick(page, likeAnywayButton);
-          await page.waitForTimeout(random(1000, 1500));
-          return true;
-      }
-
-      // Check for "IT'S A MATCH!" popup
-      const mutualMatchModal = page.locator('div.RwExEGDmxyCOmxlC8VqG:has-text("IT’S A MATCH!")');
-      if (await mutualMatchModal.isVisible()) {
-        const closeMatchButton = mutualMatchModal.locator('button[data-cy="matchEvent.closeButton"]');
-        if (await closeMatchButton.isVisible()) {
+          await humanClick(page, likeAnywayButton, this.rng);
+          await page.waitForTimeout(random(1000, 1500, this.rng));
+        },
+      },
+      {
+        name: 'match',
+        priority: 50,
+        isMatch: true,
+        overlay: (page) => page.locator(this.selectors.matchModal),
+        detect: async (page) => {
+          const mutualMatchModal = page.locator(this.selectors.matchModal);
+          if (!(await mutualMatchModal.isVisible())) return null;
+          const closeMatchButton = mutualMatchModal.locator(this.selectors.matchCloseButton);
+          return (await closeMatchButton.isVisible()) ? closeMatchButton : null;
+        },
+        dismiss: async (page, closeMatchButton) => {
           this.logger.info("Found 'IT’S A MATCH!' popup, dismissing...");
-          await humanClick(page, closeMatchButton);
-          await page.waitForTimeout(random(1000, 1500));
-          return true;
-        }
-      }
-      
-      // Check for "Priority Likes" upsell popup
-      const priorityLikesPopup = page.locator('p:has-text("Get your Likes seen sooner with Priority Likes, included in Premium Plus.")');
-      if (await priorityLikesPopup.isVisible()) {
-        const closeButton = page.getByRole('button', { name: 'Close' });
-        if (await closeButton.isVisible()) {
+          await humanClick(page, closeMatchButton, this.rng);
+          await page.waitForTimeout(random(1000, 1500, this.rng));
+        },
+      },
+      {
+        name: 'priority-likes-upsell',
+        priority: 40,
+        overlay: (page) => page.locator(this.selectors.priorityLikesUpsell),
+        detect: async (page) => {
+          const priorityLikesPopup = page.locator(this.selectors.priorityLikesUpsell);
+          if (!(await priorityLikesPopup.isVisible())) return null;
+          const closeButton = page.getByRole('button', { name: toTextMatcher(this.selectors.priorityLikesCloseName) });
+          return (await closeButton.isVisible()) ? closeButton : null;
+        },
+        dismiss: async (page, closeButton) => {
           this.logger.info("Found 'Priority Likes' upsell popup, dismissing...");
-          await humanClick(page, closeButton);
-          await page.waitForTimeout(random(1000, 1500));
-          return true;
-        }
-      }
-      
-      // Prioritize checking for the "Enable Notifications" popup
-      const notificationsDialog = page.locator('div[role="dialog"], div[role="alertdialog"]');
-      if (await notificationsDialog.isVisible()) {
-        const notNowButton = notificationsDialog.getByRole('button', { name: 'Not now' });
-        if (await notNowButton.isVisible()) {
+          await humanClick(page, closeButton, this.rng);
+          await page.waitForTimeout(random(1000, 1500, this.rng));
+        },
+      },
+      {
+        // Checked before the generic dialog rule so "Not now" wins over other buttons
+        name: 'notifications',
+        priority: 30,
+        overlay: dialogOverlay,
+        detect: async (page) => {
+          const notificationsDialog = page.locator(this.selectors.dialog);
+          if (!(await notificationsDialog.isVisible())) return null;
+          const notNowButton = notificationsDialog.getByRole('button', { name: toTextMatcher(this.selectors.notificationsNotNowName) });
+          return (await notNowButton.isVisible()) ? notNowButton : null;
+        },
+        dismiss: async (page, notNowButton) => {
           this.logger.info("Found 'Enable Notifications' popup, dismissing with 'Not now'.");
-          await humanClick(page, notNowButton);
-          await page.waitForTimeout(random(1000, 1500));
-          return true;
-        }
-      }
-      
-      // Check for the specific "MAYBE LATER" button from the likes-celebration popup
-      const maybeLaterButton = page.locator('button.likes-celebration-actions-anticta:has-text("MAYBE LATER")');
-      if (await maybeLaterButton.isVisible()) {
-        this.logger.info("Found 'MAYBE LATER' button on likes-celebration popup, dismissing...");
-        await humanClick(page, maybeLaterButton);
-        await page.waitForTimeout(random(1000, 1500));
-        return true;
-      }
-
-      // A more robust way to find popups is to look for dialog roles and then find a close button within them
-      const dialog = page.locator('div[role="dialog"], div[role="alertdialog"]');
-      if (await dialog.isVisible()) {
-        this.logger.info("Generic dialog popup detected. Trying to dismiss...");
-        // Prioritize specific, user-visible close buttons
-        const closeButton = dialog.getByRole('button', { name: /Close|No Thanks|Dismiss|Maybe Later/i });
-        if (await closeButton.isVisible()) {
+          await humanClick(page, notNowButton, this.rng);
+          await page.waitForTimeout(random(1000, 1500, this.rng));
+        },
+      },
+      {
+        name: 'likes-celebration',
+        priority: 20,
+        overlay: (page) => page.locator(this.selectors.likesCelebrationMaybeLater),
+        detect: async (page) => {
+          const maybeLaterButton = page.locator(this.selectors.likesCelebrationMaybeLater);
+          return (await maybeLaterButton.isVisible()) ? maybeLaterButton : null;
+        },
+        dismiss: async (page, maybeLaterButton) => {
+          this.logger.info("Found 'MAYBE LATER' button on likes-celebration popup, dismissing...");
+          await humanClick(page, maybeLaterButton, this.rng);
+          await page.waitForTimeout(random(1000, 1500, this.rng));
+        },
+      },
+      {
+        // A more robust way to find popups is to look for dialog roles and then find a close button within them
+        name: 'dialog',
+        priority: 10,
+        overlay: dialogOverlay,
+        detect: async (page) => {
+          const dialog = page.locator(this.selectors.dialog);
+          if (!(await dialog.isVisible())) return null;
+          this.logger.info("Generic dialog popup detected. Trying to dismiss...");
+          const closeButton = dialog.getByRole('button', { name: toTextMatcher(this.selectors.dialogCloseName) });
+          return (await closeButton.isVisible()) ? closeButton : null;
+        },
+        dismiss: async (page, closeButton) => {
           this.logger.info(`Found close button with text: "${await closeButton.textContent()}"`);
-          await humanClick(page, closeButton);
-          await page.waitForTimeout(random(1000, 1500));
-          return true;
-        }
-      }
-
-    } catch (_e: unknown) { // Renamed e to _e
-      const errorMessage = _e instanceof Error ? _e.message : String(_e);
-      this.logger.debug(`No popup found to dismiss: ${errorMessage}`);
-    }
-    return false;
+          await humanClick(page, closeButton, this.rng);
+          await page.waitForTimeout(random(1000, 1500, this.rng));
+        },
+      },
+    ];
   }
 
   async waitForCards(page: Page): Promise<boolean> {
@@ -159,8 +208,8 @@ export class OkCupidSite extends BaseSite {
       await this.dismissPopup(page); // Always check for popups first
 
       this.logger.debug("Waiting for 'Like' or 'Pass' button to be visible...");
-      const likeButton = page.getByRole('button', { name: 'Like and view the next profile' });
-      const passButton = page.getByRole('button', { name: 'Pass and view the next profile' });
+      const likeButton = page.getByRole('button', { name: toTextMatcher(this.selectors.likeButtonName) });
+      const passButton = page.getByRole('button', { name: toTextMatcher(this.selectors.passButtonName) });
 
       // Use Promise.race to wait for whichever button appears first
       await Promise.race([
@@ -178,33 +227,55 @@ export class OkCupidSite extends BaseSite {
     }
   }
 
-  async swipe(page: Page, action: 'like' | 'dislike'): Promise<boolean> {
-    try {
-      await this.dismissPopup(page); // Always check for popups before a swipe
+  async getCurrentProfile(page: Page): Promise<ProfileSnapshot> {
+    // Read inside the current card when it can be found, so the next card is not mixed in
+    const card = page.locator(this.selectors.currentCard);
+    const scope = (await card.count()) > 0 ? card.first() : page;
+    return extractProfile(
+      scope,
+      {
+        name: this.selectors.profileName,
+        age: this.selectors.profileAge,
+        distance: this.selectors.profileDistance,
+        bio: this.selectors.profileBio,
+        photos: this.selectors.profilePhotos,
+        verified: this.selectors.profileVerified,
+        matchPercentage: this.selectors.profileMatchPercentage,
+      },
+      this.logger
+    );
+  }
 
-      const button = action === 'like'
-        ? page.getByRole('button', { name: 'Like and view the next profile' })
-        : page.getByRole('button', { name: 'Pass and view the next profile' });
+  async swipe(page: Page, action: SwipeAction): Promise<SwipeOutcome> {
+    try {
+      // Popups covering the button are cleared by the popup handlers when humanClick checks it
+      const buttonNames = {
+        like: this.selectors.likeButtonName,
+        superlike: this.selectors.superLikeButtonName,
+        dislike: this.selectors.passButtonName,
+      };
+      const button = page.getByRole('button', { name: toTextMatcher(buttonNames[action]) });
 
       if (await button.isVisible()) {
-        await humanClick(page, button);
-        this.logger.info(`${action === 'like' ? 'Liked' : 'Passed'} a profile.`);
-        return true;
+        await humanClick(page, button, this.rng);
+        const verbs = { like: 'Liked', superlike: 'SuperLiked', dislike: 'Passed' };
+        this.logger.info(`${verbs[action]} a profile.`);
+        return { kind: 'success' };
       } else {
         this.logger.warn(`Could not find ${action} button.`);
-        return false;
+        return await this.diagnoseMissingControl(page, `${action} button`);
       }
     } catch (_error: unknown) { // Renamed error to _error
       const errorMessage = _error instanceof Error ? _error.message : String(_error);
       this.logger.error(`Error during swipe action: ${errorMessage}`);
-      return false;
+      return this.errorOutcome(_error);
     }
   }
 
   async hasMoreProfiles(page: Page): Promise<boolean> {
     try {
       // OkCupid often shows a "You're out of people" message
-      const noMoreProfiles = page.getByRole('heading', { name: /You're out of people|No more matches/i });
+      const noMoreProfiles = page.getByRole('heading', { name: toTextMatcher(this.selectors.outOfProfilesHeadingName) });
       if (await noMoreProfiles.isVisible()) {
         this.logger.info("No more profiles found.");
         return false;
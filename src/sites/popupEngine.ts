@@ -0,0 +1,133 @@
+import { Locator, Page } from 'playwright';
+import { Logger } from '../utils/logger';
+
+/**
+ * A popup a site can show, and how to get rid of it.
+ */
+export interface PopupRule {
+  /** A short name for the popup, used in logs and session stats. */
+  name: string;
+  /** Rules with a higher priority are checked first. Rules with the same priority keep their declared order. */
+  priority: number;
+  /**
+   * Optional: Whether the popup blocks swiping. Defaults to true.
+   * Dismissing a blocking popup ends the check; non-blocking ones (such as banners) let later rules run.
+   */
+  blocking?: boolean;
+  /** Optional: Whether the popup announces a match. Defaults to false. */
+  isMatch?: boolean;
+  /**
+   * Optional: Locates the element that covers the page while the popup is showing.
+   * Rules with an overlay are registered as Playwright locator handlers, so the popup is cleared
+   * automatically before any action. Rules that share the same overlay function share one handler.
+   * @param page - The Playwright page instance.
+   * @returns The overlay locator.
+   */
+  overlay?(page: Page): Locator;
+  /**
+   * Looks for the popup.
+   * @param page - The Playwright page instance.
+   * @returns The element to act on (usually its dismiss button), or null if the popup is not showing.
+   */
+  detect(page: Page): Promise<Locator | null>;
+  /**
+   * Dismisses the popup.
+   * @param page - The Playwright page instance.
+   * @param target - The element returned by detect.
+   */
+  dismiss(page: Page, target: Locator): Promise<void>;
+}
+
+/**
+ * Evaluates a site's popup rules and keeps count of which ones fired.
+ */
+export class PopupEngine {
+  private rules: PopupRule[];
+  private logger: Logger;
+  private fired: Record<string, number> = {};
+  private onDismissed?: (rule: PopupRule) => void;
+
+  /**
+   * Creates an instance of PopupEngine.
+   * @param rules - The popup rules to evaluate.
+   * @param logger - The logger instance.
+   * @param onDismissed - Optional: Called after a rule dismissed its popup.
+   */
+  constructor(rules: PopupRule[], logger: Logger, onDismissed?: (rule: PopupRule) => void) {
+    // Array.prototype.sort is stable, so equal priorities keep their declared order
+    this.rules = [...rules].sort((a, b) => b.priority - a.priority);
+    this.logger = logger;
+    this.onDismissed = onDismissed;
+  }
+
+  /**
+   * Checks the rules in priority order and dismisses the first blocking popup found.
+   * Non-blocking popups found along the way are dismissed too.
+   * @param page - The Playwright page instance.
+   * @returns A promise that resolves to true if a blocking popup was dismissed, false otherwise.
+   */
+  async run(page: Page): Promise<boolean> {
+    return this.evaluate(page, this.rules);
+  }
+
+  /**
+   * Registers the rules that declare an overlay as locator handlers on the page, so Playwright
+   * dismisses their popups before clicks, key presses on locators, and waits for selectors.
+   * @param page - The Playwright page instance.
+   * @returns The number of handlers registered.
+   */
+  async registerHandlers(page: Page): Promise<number> {
+    const groups = new Map<(page: Page) => Locator, PopupRule[]>();
+    for (const rule of this.rules) {
+      if (!rule.overlay) continue;
+      const group = groups.get(rule.overlay) ?? [];
+      group.push(rule);
+      groups.set(rule.overlay, group);
+    }
+
+    for (const [overlay, rules] of groups) {
+      // noWaitAfter: a rule that cannot dismiss its popup should not stall every later action
+      await page.addLocatorHandler(overlay(page).first(), async () => {
+        await this.evaluate(page, rules);
+      }, { noWaitAfter: true });
+      this.logger.debug(`Registered popup handler for: ${rules.map((rule) => rule.name).join(', ')}`);
+    }
+    return groups.size;
+  }
+
+  /**
+   * Checks the given rules in order and dismisses the first blocking popup found.
+   * @param page - The Playwright page instance.
+   * @param rules - The rules to check, already sorted by priority.
+   * @returns A promise that resolves to true if a blocking popup was dismissed, false otherwise.
+   */
+  private async evaluate(page: Page, rules: PopupRule[]): Promise<boolean> {
+    try {
+      for (const rule of rules) {
+        const target = await rule.detect(page);
+        if (!target) {
+          continue;
+        }
+        this.logger.debug(`Popup rule "${rule.name}" matched.`);
+        await rule.dismiss(page, target);
+        this.fired[rule.name] = (this.fired[rule.name] ?? 0) + 1;
+        this.onDismissed?.(rule);
+        if (rule.blocking !== false) {
+          return true;
+        }
+      }
+    } catch (_error: unknown) {
+      const errorMessage = _error instanceof Error ? _error.message : String(_error);
+      this.logger.debug(`No popup found to dismiss: ${errorMessage}`);
+    }
+    return false;
+  }
+
+  /**
+   * Gets how many times each rule dismissed a popup.
+   * @returns The dismiss counts, keyed by rule name.
+   */
+  getFiredCounts(): Record<string, number> {
+    return { ...this.fired };
+  }
+}
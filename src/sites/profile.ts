@@ -0,0 +1,146 @@
+import { Locator, Page } from 'playwright';
+import { ProfileSnapshot } from '../types';
+import { Logger } from '../utils/logger';
+
+const KM_PER_MILE = 1.609344;
+
+/**
+ * The selectors used to read each profile field. Fields without a selector are skipped.
+ */
+export interface ProfileFieldSelectors {
+  /** The display name. */
+  name?: string;
+  /** The age, or text that starts with it. */
+  age?: string;
+  /** Text such as "5 miles away" or "8 km away". */
+  distance?: string;
+  /** The bio or first profile text. */
+  bio?: string;
+  /** One element per photo, such as the photo indicator dots. */
+  photos?: string;
+  /** The verified badge. */
+  verified?: string;
+  /** Text containing the match percentage, such as "92% Match". */
+  matchPercentage?: string;
+}
+
+/**
+ * Reads the first whole number from a text.
+ * @param text - The text to parse, such as "27" or ", 27".
+ * @returns The number, or undefined if there is none.
+ */
+export function parseWholeNumber(text: string): number | undefined {
+  const match = /\d+/.exec(text);
+  return match ? Number(match[0]) : undefined;
+}
+
+/**
+ * Reads a distance and converts it to kilometers.
+ * @param text - Text such as "5 miles away", "1 mile away" or "12 km away".
+ * @returns The distance in kilometers, or undefined if no distance was found.
+ */
+export function parseDistanceKm(text: string): number | undefined {
+  const match = /(\d+(?:[.,]\d+)?)\s*(miles?|mi|kilometers?|kilometres?|km)\b/i.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  const value = Number(match[1].replace(',', '.'));
+  const inMiles = match[2].toLowerCase().startsWith('mi');
+  return Math.round((inMiles ? value * KM_PER_MILE : value) * 10) / 10;
+}
+
+/**
+ * Reads a percentage.
+ * @param text - Text such as "92% Match".
+ * @returns The percentage, or undefined if there is none.
+ */
+export function parsePercentage(text: string): number | undefined {
+  const match = /(\d{1,3})\s*%/.exec(text);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Reads the trimmed text of the first element matching a selector, without waiting for it.
+ * @param scope - The page or card to search in.
+ * @param selector - The selector to read.
+ * @returns The text, or undefined if nothing matches or the text is empty.
+ */
+async function readText(scope: Page | Locator, selector: string): Promise<string | undefined> {
+  const locator = scope.locator(selector);
+  if ((await locator.count()) === 0) {
+    return undefined;
+  }
+  const text = await locator.first().textContent();
+  return text?.trim() || undefined;
+}
+
+/**
+ * Reads a profile card. Each field is read on its own, so a field that cannot be read is left
+ * out instead of failing the whole snapshot.
+ * @param scope - The page or the card element to read from.
+ * @param selectors - The selectors for each field.
+ * @param logger - The logger instance.
+ * @returns The fields that could be read.
+ */
+export async function extractProfile(
+  scope: Page | Locator,
+  selectors: ProfileFieldSelectors,
+  logger: Logger
+): Promise<ProfileSnapshot> {
+  const profile: ProfileSnapshot = {};
+  const read = async (field: keyof ProfileSnapshot, readField: () => Promise<void>) => {
+    try {
+      await readField();
+    } catch (_error: unknown) {
+      const errorMessage = _error instanceof Error ? _error.message : String(_error);
+      logger.debug(`Could not read profile ${field}: ${errorMessage}`);
+    }
+  };
+
+  const { name, age, distance, bio, photos, verified, matchPercentage } = selectors;
+  if (name) {
+    await read('name', async () => {
+      profile.name = await readText(scope, name);
+    });
+  }
+  if (age) {
+    await read('age', async () => {
+      const text = await readText(scope, age);
+      profile.age = text !== undefined ? parseWholeNumber(text) : undefined;
+    });
+  }
+  if (distance) {
+    await read('distanceKm', async () => {
+      const text = await readText(scope, distance);
+      profile.distanceKm = text !== undefined ? parseDistanceKm(text) : undefined;
+    });
+  }
+  if (bio) {
+    await read('bio', async () => {
+      profile.bio = await readText(scope, bio);
+    });
+  }
+  if (photos) {
+    await read('photoCount', async () => {
+      const count = await scope.locator(photos).count();
+      // Sites hide the indicators on single-photo cards, so no indicators means the count is unknown
+      profile.photoCount = count > 0 ? count : undefined;
+    });
+  }
+  if (verified) {
+    await read('verified', async () => {
+      profile.verified = (await scope.locator(verified).count()) > 0;
+    });
+  }
+  if (matchPercentage) {
+    await read('matchPercentage', async () => {
+      const text = await readText(scope, matchPercentage);
+      profile.matchPercentage = text !== undefined ? parsePercentage(text) : undefined;
+    });
+  }
+
+  // Leave out fields that were not found rather than reporting them as undefined
+  return Object.fromEntries(
+    Object.entries(profile).filter(([, value]) => value !== undefined)
+  ) as ProfileSnapshot;
+}
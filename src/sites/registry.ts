@@ -0,0 +1,123 @@
+import { SiteModule } from './base';
+import { SiteCapabilities, SiteConfig } from '../types';
+import { Logger } from '../utils/logger';
+import { Rng } from '../utils/random';
+
+/**
+ * Creates a site module instance for a given site configuration.
+ */
+export type SiteFactory = (config: SiteConfig, logger: Logger, rng: Rng) => SiteModule;
+
+/**
+ * Descriptive information about a registered site.
+ */
+export interface SiteMetadata {
+  /** Human-readable name of the site. */
+  displayName: string;
+  /** The site's base URL. */
+  url: string;
+  /** Optional: A short description shown in site listings. */
+  description?: string;
+}
+
+/**
+ * Everything the registry needs to know about a site module.
+ */
+export interface SiteRegistration {
+  /** The lowercase name used in config.json and on the command line. */
+  name: string;
+  /** Creates the site module. */
+  factory: SiteFactory;
+  /** Descriptive information about the site. */
+  metadata: SiteMetadata;
+  /** Optional: What the site supports, so site listings can show it without creating the module. */
+  capabilities?: SiteCapabilities;
+}
+
+/**
+ * Thrown when a site name is requested that no module has registered.
+ */
+export class UnknownSiteError extends Error {
+  siteName: string;
+  constructor(siteName: string, registeredSites: string[]) {
+    const available = registeredSites.length > 0 ? registeredSites.join(', ') : 'none';
+    super(`Unsupported site: ${siteName}. Registered sites: ${available}`);
+    this.siteName = siteName;
+    this.name = 'UnknownSiteError';
+  }
+}
+
+/**
+ * Keeps track of the site modules available to the bot.
+ */
+export class SiteRegistry {
+  private registrations = new Map<string, SiteRegistration>();
+
+  /**
+   * Registers a site module.
+   * @param registration - The site's name, factory and metadata.
+   * @throws If a site with the same name is already registered.
+   */
+  register(registration: SiteRegistration): void {
+    const name = registration.name.toLowerCase();
+    if (name === 'all' || name === 'global') {
+      throw new Error(`"${name}" is reserved and cannot be used as a site name.`);
+    }
+    if (this.registrations.has(name)) {
+      throw new Error(`Site "${name}" is already registered.`);
+    }
+    this.registrations.set(name, { ...registration, name });
+  }
+
+  /**
+   * Checks whether a site is registered.
+   * @param name - The site name.
+   * @returns True if the site is registered.
+   */
+  has(name: string): boolean {
+    return this.registrations.has(name.toLowerCase());
+  }
+
+  /**
+   * Gets the registration for a site.
+   * @param name - The site name.
+   * @returns The registration.
+   * @throws {UnknownSiteError} If the site is not registered.
+   */
+  get(name: string): SiteRegistration {
+    const registration = this.registrations.get(name.toLowerCase());
+    if (!registration) {
+      throw new UnknownSiteError(name, this.getNames());
+    }
+    return registration;
+  }
+
+  /**
+   * Creates a site module for a registered site.
+   * @param name - The site name.
+   * @param config - The site configuration.
+   * @param logger - The logger for the site module.
+   * @param rng - Optional: The random number generator for the site module. Defaults to an unseeded one.
+   * @returns The new site module.
+   * @throws {UnknownSiteError} If the site is not registered.
+   */
+  create(name: string, config: SiteConfig, logger: Logger, rng: Rng = new Rng()): SiteModule {
+    return this.get(name).factory(config, logger, rng);
+  }
+
+  /**
+   * Gets the names of all registered sites, in registration order.
+   * @returns The registered site names.
+   */
+  getNames(): string[] {
+    return [...this.registrations.keys()];
+  }
+
+  /**
+   * Gets all registrations, in registration order.
+   * @returns The registrations.
+   */
+  getAll(): SiteRegistration[] {
+    return [...this.registrations.values()];
+  }
+}
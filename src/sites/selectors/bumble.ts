@@ -0,0 +1,51 @@
+import { SelectorPack } from './pack';
+
+/**
+ * The selectors used by the Bumble site module.
+ * Entries described as names or text are matched against accessible names or text, and may be `/patterns/`.
+ */
+export interface BumbleSelectors {
+  /** The sidebar or encounters deck, only rendered for logged-in users. */
+  loggedIn: string;
+  /** The path logged-out visitors are redirected to. */
+  loggedOutPath: string;
+  /** Name of the sign-in buttons shown to logged-out visitors. */
+  loggedOutButtonName: string;
+  /** Name of the cookie banner's accept button. */
+  cookieAcceptName: string;
+  /** Name of the button that closes the match screen. */
+  matchContinueName: string;
+  /** Name of the "Not now" button in the notifications prompt. */
+  notificationsNotNowName: string;
+  /** Modals and dialogs, such as premium upsells. */
+  dialog: string;
+  /** Name of the buttons that close a generic dialog. */
+  dialogCloseName: string;
+  /** The like button. */
+  likeButton: string;
+  /** The pass button. */
+  passButton: string;
+  /** Text shown once everyone nearby has been seen. */
+  outOfProfilesText: string;
+}
+
+/**
+ * The built-in selector pack for Bumble.
+ */
+export const bumbleSelectors: SelectorPack<BumbleSelectors> = {
+  site: 'bumble',
+  version: 1,
+  selectors: {
+    loggedIn: '.sidebar, .encounters-user',
+    loggedOutPath: '/get-started',
+    loggedOutButtonName: '/Continue with|Use cell phone/i',
+    cookieAcceptName: '/Accept all/i',
+    matchContinueName: '/Continue Bumbling/i',
+    notificationsNotNowName: 'Not now',
+    dialog: '.modal, div[role="dialog"]',
+    dialogCloseName: '/Close|No thanks|Maybe later|Not interested/i',
+    likeButton: '.encounters-action--like',
+    passButton: '.encounters-action--dislike',
+    outOfProfilesText: "/You[’']ve seen everyone|That[’']s everyone|No one new/i",
+  },
+};
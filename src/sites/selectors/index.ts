@@ -0,0 +1,8 @@
+export { loadSelectorPack, validateSelectorPack, toTextMatcher, SelectorPackError } from './pack';
+export type { SelectorPack, SelectorValue, SelectorOverrideFile } from './pack';
+export { tinderSelectors } from './tinder';
+export type { TinderSelectors } from './tinder';
+export { okcupidSelectors } from './okcupid';
+export type { OkCupidSelectors } from './okcupid';
+export { bumbleSelectors } from './bumble';
+export type { BumbleSelectors } from './bumble';
@@ -0,0 +1,96 @@
+import { SelectorPack } from './pack';
+
+/**
+ * The selectors used by the OkCupid site module.
+ * Entries described as names are matched against accessible names or text, and may be `/patterns/`.
+ */
+export interface OkCupidSelectors {
+  /** The profile link or primary navigation, only rendered for logged-in users. */
+  loggedIn: string;
+  /** Name of the links shown to logged-out visitors. */
+  loggedOutLinkName: string;
+  /** The OneTrust cookie consent "Accept" button. */
+  cookieAccept: string;
+  /** The "New likes" notification banner. */
+  newLikesBanner: string;
+  /** Name of the close button inside the "New likes" banner. */
+  newLikesCloseName: string;
+  /** Name of the button that skips the SuperLike upsell. */
+  superLikeUpsellName: string;
+  /** The "IT'S A MATCH!" modal. */
+  matchModal: string;
+  /** The close button inside the match modal. */
+  matchCloseButton: string;
+  /** The "Priority Likes" upsell text. */
+  priorityLikesUpsell: string;
+  /** Name of the close button for the "Priority Likes" upsell. */
+  priorityLikesCloseName: string;
+  /** Dialogs and alert dialogs. */
+  dialog: string;
+  /** Name of the "Not now" button in the notifications prompt. */
+  notificationsNotNowName: string;
+  /** The "MAYBE LATER" button on the likes-celebration popup. */
+  likesCelebrationMaybeLater: string;
+  /** Name of the buttons that close a generic dialog. */
+  dialogCloseName: string;
+  /** Name of the like button. */
+  likeButtonName: string;
+  /** Name of the SuperLike button. */
+  superLikeButtonName: string;
+  /** Name of the pass button. */
+  passButtonName: string;
+  /** Name of the heading shown when there are no more profiles. */
+  outOfProfilesHeadingName: string;
+  /** The DoubleTake card currently shown; profile fields are read inside it. */
+  currentCard: string;
+  /** The name on the current card. */
+  profileName: string;
+  /** The age on the current card. */
+  profileAge: string;
+  /** Text such as "5 miles away" on the current card. */
+  profileDistance: string;
+  /** The first essay on the current card. */
+  profileBio: string;
+  /** One element per photo on the current card. */
+  profilePhotos: string;
+  /** The verified badge on the current card. */
+  profileVerified: string;
+  /** The match percentage on the current card. */
+  profileMatchPercentage: string;
+}
+
+/**
+ * The built-in selector pack for OkCupid.
+ */
+export const okcupidSelectors: SelectorPack<OkCupidSelectors> = {
+  site: 'okcupid',
+  version: 1,
+  selectors: {
+    loggedIn: 'a[href="/profile"], nav[aria-label="Primary"]',
+    loggedOutLinkName: '/Sign In|Join OkCupid/i',
+    cookieAccept: '#onetrust-accept-btn-handler',
+    newLikesBanner: 'a:has-text("New likes")',
+    newLikesCloseName: 'Close',
+    superLikeUpsellName: 'LIKE THEM ANYWAY',
+    matchModal: 'div.RwExEGDmxyCOmxlC8VqG:has-text("IT’S A MATCH!")',
+    matchCloseButton: 'button[data-cy="matchEvent.closeButton"]',
+    priorityLikesUpsell: 'p:has-text("Get your Likes seen sooner with Priority Likes, included in Premium Plus.")',
+    priorityLikesCloseName: 'Close',
+    dialog: 'div[role="dialog"], div[role="alertdialog"]',
+    notificationsNotNowName: 'Not now',
+    likesCelebrationMaybeLater: 'button.likes-celebration-actions-anticta:has-text("MAYBE LATER")',
+    dialogCloseName: '/Close|No Thanks|Dismiss|Maybe Later/i',
+    likeButtonName: 'Like and view the next profile',
+    superLikeButtonName: 'SuperLike',
+    passButtonName: 'Pass and view the next profile',
+    outOfProfilesHeadingName: "/You're out of people|No more matches/i",
+    currentCard: '[class*="qmcard"], [data-cy="discover.userCard"]',
+    profileName: '[class*="cardsummary-realname"]',
+    profileAge: '[class*="cardsummary-age"]',
+    profileDistance: 'text=/\\d+ (miles?|kilometers?|km) away/i',
+    profileBio: '[class*="profile-essay-contents"]',
+    profilePhotos: '[class*="photo-overview"] img, [class*="sliding-pagination-dot"]',
+    profileVerified: '[class*="verified-badge"], [aria-label*="Verified"]',
+    profileMatchPercentage: '[class*="match-percentage"], text=/\\d+% Match/',
+  },
+};
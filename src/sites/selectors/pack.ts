@@ -0,0 +1,182 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+
+/**
+ * A single selector entry: one selector, or a prioritized list of selectors that are tried in order.
+ * Strings written as `/source/flags` are treated as regular expressions where a site matches on text or
+ * accessible names (see {@link toTextMatcher}).
+ */
+export type SelectorValue = string | string[];
+
+/**
+ * A typed, versioned set of selectors for one site.
+ */
+export interface SelectorPack<T extends { [K in keyof T]: SelectorValue }> {
+  /** The name of the site the selectors belong to. */
+  site: string;
+  /** Bumped whenever selector keys are added, removed or change meaning. */
+  version: number;
+  /** The selectors, keyed by what they locate. */
+  selectors: T;
+}
+
+/**
+ * The shape of the JSON file referenced by `SiteConfig.selectorsFile`.
+ */
+export interface SelectorOverrideFile {
+  /** Optional: The pack version the overrides were written against. */
+  version?: number;
+  /** Selectors that replace the built-in value for the same key. */
+  selectors?: Record<string, SelectorValue>;
+  /** Selectors appended to the built-in list for the same key (list entries only). */
+  extend?: Record<string, string[]>;
+}
+
+/**
+ * Error thrown when a selector pack or a selector override file is invalid.
+ */
+export class SelectorPackError extends Error {
+  /** The site whose selectors are invalid. */
+  site: string;
+  /** The override file that caused the error, if any. */
+  file?: string;
+
+  /**
+   * Creates an instance of SelectorPackError.
+   * @param site - The site whose selectors are invalid.
+   * @param message - A description of the problem.
+   * @param file - The override file that caused the error, if any.
+   */
+  constructor(site: string, message: string, file?: string) {
+    super(`Invalid ${site} selectors${file ? ` in ${file}` : ''}: ${message}`);
+    this.name = 'SelectorPackError';
+    this.site = site;
+    this.file = file;
+  }
+}
+
+const PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+/**
+ * Converts a selector string into a matcher for `getByRole`/`getByText`.
+ * @param value - A plain string, or a regular expression written as `/source/flags`.
+ * @returns The regular expression, or the plain string unchanged.
+ */
+export function toTextMatcher(value: string): string | RegExp {
+  const match = PATTERN.exec(value);
+  return match ? new RegExp(match[1], match[2]) : value;
+}
+
+/**
+ * Checks a single selector value, returning a description of the problem if it is invalid.
+ * @param value - The value to check.
+ * @returns The problem, or null if the value is valid.
+ */
+function checkValue(value: unknown): string | null {
+  const entries = Array.isArray(value) ? value : [value];
+  if (Array.isArray(value) && value.length === 0) {
+    return 'must not be an empty list';
+  }
+  for (const entry of entries) {
+    if (typeof entry !== 'string' || entry.trim() === '') {
+      return 'must be a non-empty string or a list of non-empty strings';
+    }
+    const match = PATTERN.exec(entry);
+    if (match) {
+      try {
+        new RegExp(match[1], match[2]);
+      } catch (_error: unknown) {
+        const errorMessage = _error instanceof Error ? _error.message : String(_error);
+        return `has an invalid pattern ${entry} (${errorMessage})`;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates every selector in a pack.
+ * @param pack - The selector pack to validate.
+ * @param file - Optional: The override file the pack was built from, for error messages.
+ * @throws {SelectorPackError} If the version or any selector is invalid.
+ */
+export function validateSelectorPack<T extends { [K in keyof T]: SelectorValue }>(
+  pack: SelectorPack<T>,
+  file?: string
+): void {
+  if (!Number.isInteger(pack.version) || pack.version < 1) {
+    throw new SelectorPackError(pack.site, `version must be a positive integer, got ${String(pack.version)}`, file);
+  }
+  for (const [key, value] of Object.entries(pack.selectors)) {
+    const problem = checkValue(value);
+    if (problem) {
+      throw new SelectorPackError(pack.site, `"${key}" ${problem}`, file);
+    }
+  }
+}
+
+/**
+ * Applies the overrides from a JSON file to a built-in pack and validates the result.
+ * Only keys that exist in the built-in pack may be overridden, and a key keeps its shape:
+ * single selectors stay single, lists stay lists.
+ * @param pack - The built-in selector pack.
+ * @param selectorsFile - Optional: Path to a JSON override file, relative to the working directory.
+ * @returns The pack to use, with any overrides applied.
+ * @throws {SelectorPackError} If the override file cannot be read or does not fit the pack.
+ */
+export function loadSelectorPack<T extends { [K in keyof T]: SelectorValue }>(
+  pack: SelectorPack<T>,
+  selectorsFile?: string
+): SelectorPack<T> {
+  validateSelectorPack(pack);
+  if (!selectorsFile) {
+    return pack;
+  }
+
+  let overrides: SelectorOverrideFile;
+  try {
+    overrides = JSON.parse(readFileSync(resolve(selectorsFile), 'utf-8')) as SelectorOverrideFile;
+  } catch (_error: unknown) {
+    const errorMessage = _error instanceof Error ? _error.message : String(_error);
+    throw new SelectorPackError(pack.site, `could not read file (${errorMessage})`, selectorsFile);
+  }
+  if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+    throw new SelectorPackError(pack.site, 'expected a JSON object', selectorsFile);
+  }
+  if (overrides.version !== undefined && overrides.version !== pack.version) {
+    throw new SelectorPackError(
+      pack.site,
+      `written for selector pack version ${overrides.version}, but the built-in pack is version ${pack.version}`,
+      selectorsFile
+    );
+  }
+
+  const builtin = pack.selectors as Record<string, SelectorValue>;
+  const merged: Record<string, SelectorValue> = { ...builtin };
+
+  for (const [key, value] of Object.entries(overrides.selectors ?? {})) {
+    if (!Object.prototype.hasOwnProperty.call(builtin, key)) {
+      throw new SelectorPackError(pack.site, `unknown selector "${key}"`, selectorsFile);
+    }
+    if (Array.isArray(value) !== Array.isArray(builtin[key])) {
+      const expected = Array.isArray(builtin[key]) ? 'a list of selectors' : 'a single selector';
+      throw new SelectorPackError(pack.site, `"${key}" must be ${expected}`, selectorsFile);
+    }
+    merged[key] = value;
+  }
+
+  for (const [key, value] of Object.entries(overrides.extend ?? {})) {
+    const current = merged[key];
+    if (!Object.prototype.hasOwnProperty.call(builtin, key)) {
+      throw new SelectorPackError(pack.site, `unknown selector "${key}"`, selectorsFile);
+    }
+    if (!Array.isArray(current) || !Array.isArray(value)) {
+      throw new SelectorPackError(pack.site, `only lists can be extended, and "${key}" needs a list`, selectorsFile);
+    }
+    merged[key] = [...current, ...value];
+  }
+
+  const result: SelectorPack<T> = { site: pack.site, version: pack.version, selectors: merged as unknown as T };
+  validateSelectorPack(result, selectorsFile);
+  return result;
+}
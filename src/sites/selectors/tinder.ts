@@ -0,0 +1,113 @@
+import { SelectorPack } from './pack';
+
+/**
+ * The selectors used by the Tinder site module.
+ */
+export interface TinderSelectors {
+  /** Cards or swipe buttons, either of which means the app has loaded for a logged-in user. */
+  appReady: string;
+  /** Cards or the like button, used to rule out a false positive from the login form. */
+  profileCards: string;
+  /** The login form shown to logged-out visitors. */
+  loginForm: string;
+  /** Navigation that is only rendered for logged-in users. */
+  navMenu: string;
+  /** The full-page loading screen Tinder sometimes gets stuck on. */
+  loadingScreen: string;
+  /** Card and swipe button selectors, most specific first. The first four are retried after a refresh. */
+  cardCandidates: string[];
+  /** Buttons that dismiss upsells, notification prompts and other popups, tried in order after matchPopupButtons. */
+  popupDismissButtons: string[];
+  /** Buttons that dismiss the "It's a match" screen, tried in order before popupDismissButtons. Each one counts as a match. */
+  matchPopupButtons: string[];
+  /** The Super Like button; Tinder has no keyboard shortcut for it. */
+  superLikeButton: string;
+  /** A dialog that would swallow the swipe key press. */
+  blockingDialog: string;
+  /** Text shown when a swipe was refused because a limit was reached. */
+  limitMessage: string;
+  /** Text shown when no more profiles can be swiped. */
+  outOfProfilesMessage: string;
+  /** The cards left in the deck. */
+  remainingCards: string;
+  /** The card currently on top of the deck; profile fields are read inside it. */
+  currentCard: string;
+  /** The name on the current card. */
+  profileName: string;
+  /** The age on the current card. */
+  profileAge: string;
+  /** Text such as "5 miles away" on the current card. */
+  profileDistance: string;
+  /** The bio on the current card. */
+  profileBio: string;
+  /** One element per photo on the current card (the photo indicator bullets). */
+  profilePhotos: string;
+  /** The verified badge on the current card. */
+  profileVerified: string;
+  /** Any interactive element, used as a last resort to decide whether the app is usable. */
+  interactive: string;
+  /** Any interactive element or link, used as a last resort to decide whether the app is usable. */
+  interactiveWithLinks: string;
+}
+
+/**
+ * The built-in selector pack for Tinder.
+ */
+export const tinderSelectors: SelectorPack<TinderSelectors> = {
+  site: 'tinder',
+  version: 1,
+  selectors: {
+    appReady: '[data-testid="card"], [class*="Card"], button[aria-label*="Like"], button[aria-label*="Nope"]',
+    profileCards: '[data-testid="card"], [class*="Card"], button[aria-label*="Like"]',
+    loginForm: 'input[type="email"], input[type="tel"], button:has-text("Log in")',
+    navMenu: '[aria-label*="Profile"], [aria-label*="Messages"], nav',
+    loadingScreen: '[data-testid="root-loading-screen"]',
+    cardCandidates: [
+      'button[aria-label*="Like"]', // Like button
+      'button[aria-label*="Nope"]', // Dislike button
+      '[data-testid="card"]', // Card test ID
+      '[class*="Card"][class*="Stack"]', // Card stack
+      '[class*="ProfileCard"]', // Profile card
+      'div[role="button"]:has-text("Like")', // Like button alternative
+      'div[role="button"]:has-text("Nope")', // Dislike button alternative
+      '[class*="Card"]', // Generic card
+    ],
+    popupDismissButtons: [
+      '[aria-label="Close"]', // Match popup
+      'button[aria-label="Close"]', // Match popup
+      'button:has-text("X")', // Generic close button
+      'button:has-text("Maybe Later")',
+      'text="Maybe Later"',
+      '[aria-label*="Maybe Later"]',
+      'button:has-text("Not now")',
+      'text="Not now"',
+      'button:has-text("Not interested")',
+      'text="Not interested"',
+      '[aria-label*="Not interested"]',
+      'button:has-text("No Thanks")',
+      'text="No Thanks"',
+      'button:has-text("Great!")',
+      'text="Great!"',
+    ],
+    matchPopupButtons: [
+      'button:has-text("Keep Swiping")',
+      'text="Keep Swiping"',
+      'button:has-text("Back to Tinder")',
+      'text="Back to Tinder"',
+    ],
+    superLikeButton: 'button[aria-label*="Super Like"]',
+    blockingDialog: '[role="dialog"]',
+    limitMessage: 'text=/out of likes|limit|upgrade|refresh|try again|no more|send as many likes/i',
+    outOfProfilesMessage: 'text=/out of likes|no more|limit|upgrade|refresh|try again|send as many likes/i',
+    remainingCards: '[data-testid="card"], [class*="Card"]',
+    currentCard: '[data-keyboard-gamepad="true"][aria-hidden="false"]',
+    profileName: '[itemprop="name"]',
+    profileAge: '[itemprop="age"]',
+    profileDistance: 'text=/\\d+ (miles?|kilometers?|km) away/i',
+    profileBio: '[class*="BreakWord"]',
+    profilePhotos: '.bullet',
+    profileVerified: '[aria-label="Verified!"], [title="Verified!"]',
+    interactive: 'button, [role="button"]',
+    interactiveWithLinks: 'button, [role="button"], a',
+  },
+};
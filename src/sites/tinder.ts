@@ -1,13 +1,40 @@
-import { Page } from "playwright";
+import { Locator, Page } from "playwright";
 import { BaseSite } from "./base";
-
-
+import { PopupRule } from "./popupEngine";
+import { ProfileSnapshot, SiteCapabilities, SiteConfig, SwipeAction, SwipeOutcome } from "../types";
+import { Logger } from "../utils/logger";
+import { Rng } from "../utils/random";
+import { humanClick } from "../utils/helpers";
+import { loadSelectorPack, tinderSelectors, TinderSelectors } from "./selectors";
+import { extractProfile } from "./profile";
 
 /**
  * The site module for Tinder.
  */
 export class TinderSite extends BaseSite {
+  /** What the Tinder module supports. */
+  static readonly CAPABILITIES: SiteCapabilities = {
+    swipeInput: "keyboard",
+    superLike: true,
+    matchDetection: true,
+    limitDetection: true,
+    matchPercentage: false,
+  };
+
   private readonly URL = "https://tinder.com";
+  private readonly selectors: TinderSelectors;
+
+  /**
+   * Creates an instance of TinderSite.
+   * @param config - The site configuration.
+   * @param logger - The logger instance.
+   * @param rng - Optional: The random number generator for clicks and pauses.
+   * @throws {SelectorPackError} If the configured selectors file is invalid.
+   */
+  constructor(config: SiteConfig, logger: Logger, rng?: Rng) {
+    super(config, logger, rng);
+    this.selectors = loadSelectorPack(tinderSelectors, config.selectorsFile).selectors;
+  }
 
   /**
    * Gets the base URL of the site.
@@ -17,6 +44,14 @@ export class TinderSite extends BaseSite {
     return this.URL;
   }
 
+  /**
+   * Describes what the Tinder module supports.
+   * @returns The site's capabilities.
+   */
+  getCapabilities(): SiteCapabilities {
+    return TinderSite.CAPABILITIES;
+  }
+
   /**
    * Navigates to the site and waits for it to load.
    * @param page - The Playwright page instance.
@@ -67,87 +102,79 @@ export class TinderSite extends BaseSite {
   }
 
   /**
-   * Dismisses any popups that may appear on the page.
+   * Declares Tinder's popups: one rule per dismiss button selector, the match screen's buttons
+   * first and then the other popups', each list checked in the pack's order.
+   * @returns The popup rules.
+   */
+  protected getPopupRules(): PopupRule[] {
+    // Tinder's popups are dialogs, so every rule shares one handler that watches for a dialog
+    const overlay = (page: Page) => page.locator(this.selectors.blockingDialog);
+    const { matchPopupButtons, popupDismissButtons } = this.selectors;
+    // Match buttons come first so a match screen that also has a close button still counts as a match
+    const buttons = [
+      ...matchPopupButtons.map((selector) => ({ selector, isMatch: true })),
+      ...popupDismissButtons
+        .filter((selector) => !matchPopupButtons.includes(selector))
+        .map((selector) => ({ selector, isMatch: false })),
+    ];
+    return buttons.map(({ selector, isMatch }) => ({
+      name: selector,
+      priority: 0,
+      isMatch,
+      overlay,
+      detect: (page: Page) => this.findDismissButton(page, selector),
+      dismiss: async (page: Page, button: Locator) => {
+        this.logger.info(`Found popup button with selector: "${selector}", dismissing...`);
+        await button.click();
+        // Wait longer for popup to close and page to update
+        await page.waitForTimeout(3000);
+        this.logger.success("Popup dismissed successfully.");
+      },
+    }));
+  }
+
+  /**
+   * Looks for a visible popup button, skipping matches that are too large to be a popup.
    * @param page - The Playwright page instance.
-   * @returns A promise that resolves to true if a popup was dismissed, false otherwise.
+   * @param selector - The dismiss button selector.
+   * @returns The button, or null if it is not showing.
    */
-  async dismissPopup(page: Page): Promise<boolean> {
-    this.logger.debug("Attempting to dismiss popup...");
+  private async findDismissButton(page: Page, selector: string): Promise<Locator | null> {
+    this.logger.debug(`Trying selector: "${selector}"`);
     try {
-      // Check for "Maybe Later" button in various possible locations
-      const maybeLaterSelectors = [
-        '[aria-label="Close"]', // Added for match popup
-        'button[aria-label="Close"]', // Added for match popup
-        'button:has-text("X")', // Generic close button
-        'button:has-text("Keep Swiping")', // Specifically for match popup
-        'text="Keep Swiping"', // Specifically for match popup
-        'button:has-text("Back to Tinder")', // Specifically for match popup
-        'text="Back to Tinder"', // Specifically for match popup
-        'button:has-text("Maybe Later")',
-        'text="Maybe Later"',
-        '[aria-label*="Maybe Later"]',
-        'button:has-text("Not now")',
-        'text="Not now"',
-        'button:has-text("Not interested")',
-        'text="Not interested"',
-        '[aria-label*="Not interested"]',
-        'button:has-text("No Thanks")',
-        'text="No Thanks"',
-        'button:has-text("Great!")',
-        'text="Great!"',
-      ];
-
-      for (const selector of maybeLaterSelectors) {
-        this.logger.debug(`Trying selector: "${selector}"`);
-        try {
-          const button = page.locator(selector).first();
-          const isVisible = await button.isVisible({ timeout: 1000 }).catch(() => false); // Reduced timeout to quickly check
-          if (isVisible) {
-            this.logger.debug(`Button found and visible with selector: "${selector}"`);
-            // Get bounding box of the button
-            const boundingBox = await button.boundingBox();
-            if (boundingBox) {
-              this.logger.debug(
-                `Button bounding box: x=${boundingBox.x}, y=${boundingBox.y}, width=${boundingBox.width}, height=${boundingBox.height}`
-              );
-              // Get viewport size
-              const viewportSize = page.viewportSize();
-              if (viewportSize) {
-                this.logger.debug(`Viewport size: width=${viewportSize.width}, height=${viewportSize.height}`);
-                // Check if the button is smaller than the viewport (to avoid dismissing large background elements)
-                if (
-                  boundingBox.width < viewportSize.width &&
-                  boundingBox.height < viewportSize.height
-                ) {
-                  this.logger.info(`Found popup button with selector: "${selector}", dismissing...`);
-                  await button.click();
-                  // Wait longer for popup to close and page to update
-                  await page.waitForTimeout(3000);
-                  this.logger.success("Popup dismissed successfully.");
-                  return true;
-                } else {
-                  this.logger.debug(`Button with selector "${selector}" found but too large to be a popup (likely a background element).`);
-                }
-              } else {
-                this.logger.debug("Could not get viewport size.");
-              }
-            } else {
-              this.logger.debug(`Could not get bounding box for button with selector: "${selector}"`);
-            }
-          } else {
-            this.logger.debug(`Button with selector "${selector}" not visible.`);
-          }
-        } catch (_e) { // Renamed e to _e
-          this.logger.debug(`Error with selector "${selector}": ${String(_e)}`);
-          // Try next selector
-          continue;
-        }
+      const button = page.locator(selector).first();
+      const isVisible = await button.isVisible({ timeout: 1000 }).catch(() => false); // Reduced timeout to quickly check
+      if (!isVisible) {
+        this.logger.debug(`Button with selector "${selector}" not visible.`);
+        return null;
       }
-      this.logger.debug("No popup dismissed after trying all selectors.");
-      return false;
-    } catch (_error) { // Renamed error to _error
-      this.logger.debug(`Error in dismissPopup: ${String(_error)}`);
-      return false;
+      this.logger.debug(`Button found and visible with selector: "${selector}"`);
+      // Get bounding box of the button
+      const boundingBox = await button.boundingBox();
+      if (!boundingBox) {
+        this.logger.debug(`Could not get bounding box for button with selector: "${selector}"`);
+        return null;
+      }
+      this.logger.debug(
+        `Button bounding box: x=${boundingBox.x}, y=${boundingBox.y}, width=${boundingBox.width}, height=${boundingBox.height}`
+      );
+      // Get viewport size
+      const viewportSize = page.viewportSize();
+      if (!viewportSize) {
+        this.logger.debug("Could not get viewport size.");
+        return null;
+      }
+      this.logger.debug(`Viewport size: width=${viewportSize.width}, height=${viewportSize.height}`);
+      // Check if the button is smaller than the viewport (to avoid dismissing large background elements)
+      if (boundingBox.width < viewportSize.width && boundingBox.height < viewportSize.height) {
+        return button;
+      }
+      this.logger.debug(`Button with selector "${selector}" found but too large to be a popup (likely a background element).`);
+      return null;
+    } catch (_e) { // Renamed e to _e
+      // Try next selector
+      this.logger.debug(`Error with selector "${selector}": ${String(_e)}`);
+      return null;
     }
   }
 
@@ -171,7 +198,7 @@ export class TinderSite extends BaseSite {
         // Try to wait for cards with a longer timeout
         try {
           await page.waitForSelector(
-            '[data-testid="card"], [class*="Card"], button[aria-label*="Like"], button[aria-label*="Nope"]',
+            this.selectors.appReady,
             {
               timeout: 15000,
               state: "attached",
@@ -189,19 +216,15 @@ export class TinderSite extends BaseSite {
 
       // Check for login form - if present and prominent, we're not logged in
       const loginForm = await page
-        .locator(
-          'input[type="email"], input[type="tel"], button:has-text("Log in")'
-        )
+        .locator(this.selectors.loginForm)
         .count();
       if (loginForm > 0) {
         // Check if we also see cards/nav (might be a false positive)
         const profileCards = await page
-          .locator(
-            '[data-testid="card"], [class*="Card"], button[aria-label*="Like"]'
-          )
+          .locator(this.selectors.profileCards)
           .count();
         const navMenu = await page
-          .locator('[aria-label*="Profile"], [aria-label*="Messages"], nav')
+          .locator(this.selectors.navMenu)
           .count();
 
         if (profileCards === 0 && navMenu === 0) {
@@ -214,12 +237,10 @@ export class TinderSite extends BaseSite {
 
       // Check for profile cards or navigation menu
       const profileCards = await page
-        .locator(
-          '[data-testid="card"], [class*="Card"], button[aria-label*="Like"], button[aria-label*="Nope"]'
-        )
+        .locator(this.selectors.appReady)
         .count();
       const navMenu = await page
-        .locator('[aria-label*="Profile"], [aria-label*="Messages"], nav')
+        .locator(this.selectors.navMenu)
         .count();
 
       if (profileCards > 0 || navMenu > 0) {
@@ -234,9 +255,7 @@ export class TinderSite extends BaseSite {
 
         // Check again after waiting
         const cardsAfterWait = await page
-          .locator(
-            '[data-testid="card"], [class*="Card"], button[aria-label*="Like"]'
-          )
+          .locator(this.selectors.profileCards)
           .count();
         const urlAfterWait = page.url();
 
@@ -285,7 +304,7 @@ export class TinderSite extends BaseSite {
 
       // Check for loading screen - if present, refresh immediately
       const loadingScreen = await page
-        .locator('[data-testid="root-loading-screen"]')
+        .locator(this.selectors.loadingScreen)
         .count();
       if (loadingScreen > 0) {
         this.logger.warn(
@@ -295,7 +314,7 @@ export class TinderSite extends BaseSite {
 
         // Check again - if still showing loading screen, refresh
         const stillLoading = await page
-          .locator('[data-testid="root-loading-screen"]')
+          .locator(this.selectors.loadingScreen)
           .count();
         if (stillLoading > 0) {
           this.logger.warn("Loading screen still present. Refreshing page...");
@@ -307,23 +326,11 @@ export class TinderSite extends BaseSite {
       }
 
       // Try multiple selectors that Tinder might use (in order of specificity)
-      const selectors = [
-        'button[aria-label*="Like"]', // Like button
-        'button[aria-label*="Nope"]', // Dislike button
-        '[data-testid="card"]', // Card test ID
-        '[class*="Card"][class*="Stack"]', // Card stack
-        '[class*="ProfileCard"]', // Profile card
-        'div[role="button"]:has-text("Like")', // Like button alternative
-        'div[role="button"]:has-text("Nope")', // Dislike button alternative
-        '[class*="Card"]', // Generic card
-      ];
+      const selectors = this.selectors.cardCandidates;
 
       // First attempt: check if cards are already visible (quick check)
       this.logger.info("Checking for cards...");
 
-      // Check for popups before checking cards
-      await this.dismissPopup(page);
-
       // Quick check: are cards already visible?
       for (const selector of selectors) {
         try {
@@ -335,19 +342,11 @@ export class TinderSite extends BaseSite {
               .isVisible({ timeout: 1000 })
               .catch(() => false);
             if (isVisible) {
-              // Dismiss any popup that might be blocking
-              await this.dismissPopup(page);
-              // Re-check visibility after popup dismissal
-              const stillVisible = await firstCard
-                .isVisible({ timeout: 1000 })
-                .catch(() => false);
-              if (stillVisible) {
-                this.logger.success(
-                  `Found visible profile cards using selector: ${selector} (count: ${count})`
-                );
-                await page.waitForTimeout(1000);
-                return true;
-              }
+              this.logger.success(
+                `Found visible profile cards using selector: ${selector} (count: ${count})`
+              );
+              await page.waitForTimeout(1000);
+              return true;
             }
           }
         } catch (_e) { // Renamed e to _e
@@ -364,15 +363,14 @@ export class TinderSite extends BaseSite {
       for (const selector of selectors) {
         try {
           this.logger.debug(`Waiting for selector: ${selector}`);
+          // Waiting for a selector runs the popup handlers, so blocking popups are cleared here
           await page.waitForSelector(selector, {
             timeout: 10000,
             state: "visible",
           });
           const count = await page.locator(selector).count();
           if (count > 0) {
-            // Dismiss any popup
-            await this.dismissPopup(page);
-            // Verify still visible after popup dismissal
+            // Verify still visible
             const firstCard = page.locator(selector).first();
             const isVisible = await firstCard
               .isVisible({ timeout: 2000 })
@@ -396,7 +394,7 @@ export class TinderSite extends BaseSite {
       if (currentUrl.includes("/app")) {
         // Check if loading screen appeared
         const loadingScreenCheck = await page
-          .locator('[data-testid="root-loading-screen"]')
+          .locator(this.selectors.loadingScreen)
           .count();
         if (loadingScreenCheck > 0) {
           this.logger.warn(
@@ -483,7 +481,7 @@ export class TinderSite extends BaseSite {
 
         // Final fallback: check if page seems interactive
         const anyInteractive = await page
-          .locator('button, [role="button"]')
+          .locator(this.selectors.interactive)
           .count();
         if (anyInteractive > 5) {
           this.logger.info(
@@ -502,7 +500,7 @@ export class TinderSite extends BaseSite {
 
         // Check for any interactive elements
         const interactiveElements = await page
-          .locator('button, [role="button"], a')
+          .locator(this.selectors.interactiveWithLinks)
           .count();
         const bodyText = await page.locator("body").textContent();
 
@@ -526,19 +524,63 @@ export class TinderSite extends BaseSite {
   }
 
   /**
-   * Performs a swipe action (like or dislike).
+   * Reads the profile on the top card. Fields are read inside the top card when it can be
+   * found, so the cards stacked underneath are not mixed in.
+   * @param page - The Playwright page instance.
+   * @returns A promise that resolves to the profile snapshot.
+   */
+  async getCurrentProfile(page: Page): Promise<ProfileSnapshot> {
+    const card = page.locator(this.selectors.currentCard);
+    const scope = (await card.count()) > 0 ? card.first() : page;
+    return extractProfile(
+      scope,
+      {
+        name: this.selectors.profileName,
+        age: this.selectors.profileAge,
+        distance: this.selectors.profileDistance,
+        bio: this.selectors.profileBio,
+        photos: this.selectors.profilePhotos,
+        verified: this.selectors.profileVerified,
+      },
+      this.logger
+    );
+  }
+
+  /**
+   * Performs a swipe action (like, super like or dislike).
    * @param page - The Playwright page instance.
    * @param action - The swipe action to perform.
-   * @returns A promise that resolves to true if the swipe was successful, false otherwise.
+   * @returns A promise that resolves to the outcome of the swipe attempt.
    */
-  async swipe(page: Page, action: "like" | "dislike"): Promise<boolean> {
+  async swipe(page: Page, action: SwipeAction): Promise<SwipeOutcome> {
     try {
-      // Always check for popups before swiping
-      await this.dismissPopup(page);
+      // Key presses skip Playwright's actionability checks, so let the popup handlers run first
+      await this.clearOverlays(page);
+
+      // Keyboard shortcuts are sent to whatever page is open, so make sure it is still Tinder
+      if (!this.isOnSite(page)) {
+        this.logger.warn(`Left Tinder, now on: ${page.url()}`);
+        return { kind: "navigated-away", url: page.url() };
+      }
+
+      // A dialog that survived the popup handlers would swallow the key press
+      const blockingDialogs = await page.locator(this.selectors.blockingDialog).count();
+      if (blockingDialogs > 0) {
+        this.logger.warn("A dialog is still covering the cards, not swiping.");
+        return { kind: "popup-blocked", popup: "dialog" };
+      }
 
       // Tinder uses keyboard shortcuts or buttons
-      // Right arrow = like, Left arrow = dislike
-      if (action === "like") {
+      // Right arrow = like, Left arrow = dislike, Super Like button = super like
+      if (action === "superlike") {
+        const superLikeButton = page.locator(this.selectors.superLikeButton).first();
+        if (!(await superLikeButton.isVisible())) {
+          this.logger.warn("Could not find the Super Like button.");
+          return await this.diagnoseMissingControl(page, "super like button");
+        }
+        await humanClick(page, superLikeButton, this.rng);
+        this.logger.info("Swiped up (super like)");
+      } else if (action === "like") {
         // Try keyboard shortcut first (more natural)
         await page.keyboard.press("ArrowRight");
         this.logger.info("Swiped right (like)");
@@ -553,21 +595,22 @@ export class TinderSite extends BaseSite {
       // Check if we hit a limit or error message
       // Look for various limit-related messages from Tinder
       const errorMessages = await page
-        .locator("text=/out of likes|limit|upgrade|refresh|try again|no more|send as many likes/i")
+        .locator(this.selectors.limitMessage)
         .count();
       if (errorMessages > 0) {
         const message = await page
-          .locator("text=/out of likes|limit|upgrade|refresh|try again|no more|send as many likes/i")
+          .locator(this.selectors.limitMessage)
           .first()
           .textContent();
         this.logger.warn(`Hit a limit: ${message}`);
-        return false;
+        this.recordLimitMessage(message ?? "");
+        return { kind: "limit-reached", message: message?.trim() ?? "" };
       }
 
-      return true;
+      return { kind: "success" };
     } catch (_error) { // Renamed error to _error
       this.logger.error(`Error performing swipe: ${String(_error)}`);
-      return false;
+      return this.errorOutcome(_error);
     }
   }
 
@@ -580,20 +623,21 @@ export class TinderSite extends BaseSite {
     try {
       // Check for "out of likes" or similar messages that indicate we can't swipe anymore
       const limitMessages = await page
-        .locator("text=/out of likes|no more|limit|upgrade|refresh|try again|send as many likes/i")
+        .locator(this.selectors.outOfProfilesMessage)
         .count();
       if (limitMessages > 0) {
         const message = await page
-          .locator("text=/out of likes|no more|limit|upgrade|refresh|try again|send as many likes/i")
+          .locator(this.selectors.outOfProfilesMessage)
           .first()
           .textContent();
         this.logger.warn(`No more profiles available: ${message}`);
+        this.recordLimitMessage(message ?? "");
         return false;
       }
 
       // Check if cards are still present
       let cards = await page
-        .locator('[data-testid="card"], [class*="Card"]')
+        .locator(this.selectors.remainingCards)
         .count();
 
       // If no cards found, a popup (like a match) might be blocking them
@@ -604,7 +648,7 @@ export class TinderSite extends BaseSite {
           this.logger.info("Popup dismissed, re-checking for cards...");
           await page.waitForTimeout(2000);
           cards = await page
-            .locator('[data-testid="card"], [class*="Card"]')
+            .locator(this.selectors.remainingCards)
             .count();
         }
       }
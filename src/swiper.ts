@@ -1,9 +1,25 @@
 import { writeFileSync } from 'fs';
-import { BrowserContext } from 'playwright'; // Import BrowserContext
+import { BrowserContext, Page } from 'playwright'; // Import BrowserContext
 import { SiteModule } from './sites/base';
-import { RateLimiter } from './utils/rateLimiter';
+import { RateLimiter, SwipeQuota } from './utils/rateLimiter';
+import { DecisionPacing, DecisionStrategy } from './decisions';
 import { Logger } from './utils/logger';
-import { SiteConfig } from './types';
+import { MatchEvent, ProfileSnapshot, SiteConfig, SwipeDecision, SwipeErrorKind, SwipeOutcome } from './types';
+import { SessionEndReason, SessionError, SessionState, SessionTransition } from './session';
+import { SwipeAssistant } from './assist';
+import { AllowedWindows } from './utils/timeWindows';
+import { formatDateTime } from './utils/helpers';
+
+/** How many swipes in a row may fail before the session gives up. */
+const MAX_CONSECUTIVE_FAILURES = 5;
+/** How many times in a row a blocking popup is dismissed and the swipe retried. */
+const MAX_POPUP_RETRIES = 3;
+/** How each quota is described in the logs. */
+const QUOTA_LABELS: Record<SwipeQuota, string> = {
+  maxSwipesPerDay: 'Daily swipe quota',
+  maxLikesPerDay: 'Daily like quota',
+  maxSwipesPerWeek: 'Weekly swipe quota',
+};
 
 /**
  * Statistics for a swiping session.
@@ -11,152 +27,200 @@ import { SiteConfig } from './types';
 export interface SwiperStats {
   /** The total number of swipes performed. */
   totalSwipes: number;
-  /** The number of profiles liked. */
+  /** The number of profiles liked, not counting super likes. */
   likes: number;
+  /** The number of profiles super liked. */
+  superLikes: number;
   /** The number of profiles disliked. */
   dislikes: number;
+  /** The number of matches the site announced. */
+  matches: number;
   /** The number of errors encountered during swiping. */
   errors: number;
+  /** The errors broken down by swipe outcome kind. */
+  errorsByKind: Partial<Record<SwipeErrorKind, number>>;
+  /** Optional: The message the site showed when a swipe limit was reached. */
+  limitMessage?: string;
+  /** Optional: When the site said its limit resets, or when the limit that kept this run from starting resets. */
+  limitResetAt?: Date;
+  /** Optional: The daily or weekly quota that ended the session. */
+  quota?: SwipeQuota;
+  /** Optional: The like ratio of the last decision, for strategies that adjust it as they go. */
+  effectiveLikeRatio?: number;
+  /** How many times each popup was dismissed, keyed by popup rule name. */
+  popups: Record<string, number>;
+  /** Optional: Why the session ended, once it has. */
+  endReason?: SessionEndReason;
+  /** Whether this was a dry run, in which the counts are decisions and no swipes were sent. */
+  dryRun: boolean;
+}
+
+/**
+ * Options that change how a session runs.
+ */
+export interface SwiperOptions {
+  /** Optional: Decide on each profile without sending the like or pass. Defaults to false. */
+  dryRun?: boolean;
+  /** Optional: Asks the user to confirm each swipe (assisted mode). Without it, swiping is fully automatic. */
+  assistant?: SwipeAssistant;
 }
 
+/**
+ * What the swiping loop should do after a failed swipe.
+ */
+type FailureResponse =
+  | { next: 'retry' | 'continue' }
+  | { next: 'stop'; reason: SessionEndReason };
+
+/**
+ * What to do with the profile on screen.
+ */
+type CardPlan =
+  | { next: 'swipe'; decision: SwipeDecision }
+  | { next: 'skip' }
+  | { next: 'quit' };
+
 /**
  * The core class for managing the swiping process.
+ * A session moves through explicit states (see SessionState); every transition is logged and
+ * reported to the listeners registered with onStateChange.
  */
 export class Swiper {
   private browserContext: BrowserContext; // Changed from browserManager
   private siteModule: SiteModule;
   private rateLimiter: RateLimiter;
+  private strategy: DecisionStrategy;
   private logger: Logger;
   private config: SiteConfig;
+  private options: SwiperOptions;
+  private windows?: AllowedWindows;
   private stats: SwiperStats;
+  private consecutiveFailures = 0;
+  private popupRetries = 0;
+  private state: SessionState = 'idle';
+  private stateListeners: ((transition: SessionTransition) => void)[] = [];
+  private pauseRequested = false;
+  private stopRequested = false;
+  private stopSignal = new AbortController();
+  private resumeWaiters: (() => void)[] = [];
+  private likesBeforeSession = 0;
+  private attempts = 0;
 
   /**
    * Creates an instance of Swiper.
    * @param browserContext - The Playwright browser context for this swiping session.
    * @param siteModule - The site module for the target dating site.
-   * @param rateLimiter - The rate limiter instance.
+   * @param rateLimiter - The rate limiter instance, which paces the swipes.
    * @param logger - The logger instance.
    * @param config - The configuration for the target site.
+   * @param strategy - The strategy that decides each swipe.
+   * @param options - Optional: Options that change how the session runs, such as dry runs.
+   * @throws {TimeWindowError} If the site's allowedWindows are invalid.
    */
   constructor(
     browserContext: BrowserContext, // Changed from browserManager
     siteModule: SiteModule,
     rateLimiter: RateLimiter,
     logger: Logger,
-    config: SiteConfig
+    config: SiteConfig,
+    strategy: DecisionStrategy,
+    options: SwiperOptions = {}
   ) {
     this.browserContext = browserContext; // Changed from browserManager
     this.siteModule = siteModule;
     this.rateLimiter = rateLimiter;
+    this.strategy = strategy;
     this.logger = logger;
     this.config = config;
+    this.options = options;
+    this.windows = config.allowedWindows ? new AllowedWindows(config.allowedWindows) : undefined;
     this.stats = {
       totalSwipes: 0,
       likes: 0,
+      superLikes: 0,
       dislikes: 0,
+      matches: 0,
       errors: 0,
+      errorsByKind: {},
+      popups: {},
+      dryRun: options.dryRun ?? false,
     };
+    this.siteModule.onMatch?.((event) => this.recordMatch(event));
   }
 
   /**
-   * Runs the swiping session.
+   * Runs the swiping session. Running it again after it failed resumes it on a new page, with
+   * the swipes it has left and the time limit counted from the first run.
    * @returns A promise that resolves with the session statistics.
+   * @throws {SessionError} If the session cannot continue, with the reason it ended.
    */
   async run(): Promise<SwiperStats> {
     const context = this.browserContext; // Use the context directly
 
-    const page = await context.newPage();
+    if (this.stopRequested) {
+      this.end('stopped');
+      return this.stats;
+    }
+    if (await this.limitStillPending()) {
+      this.end('limit-pending');
+      return this.stats;
+    }
+    if (this.windows && !this.windows.isOpen(new Date())) {
+      this.logger.warn(`Outside the allowed windows (${this.windows.describe()}), not starting.`);
+      this.end('outside-window');
+      return this.stats;
+    }
 
+    // Sites share a limit on open swiping pages, so wait for a slot first
+    const releasePage = await this.rateLimiter.acquirePage();
+    // Stopping cuts the wait for a slot short, so do not open the page after all
+    if (this.stopRequested) {
+      releasePage();
+      this.end('stopped');
+      return this.stats;
+    }
+    let page: Page;
     try {
-      // Navigate to the site immediately
-      await this.siteModule.navigate(page);
-
-      // Check if logged in
-      let loggedIn = await this.siteModule.isLoggedIn(page);
-      if (!loggedIn) {
-        this.logger.warn('Not logged in. Please log in manually in the browser window.');
-        this.logger.info('Waiting for you to log in... (Press Ctrl+C when done)');
-        
-        // Wait for user to log in (check every 5 seconds)
-        let attempts = 0;
-        const maxAttempts = 60; // 5 minutes max wait
-        while (attempts < maxAttempts) {
-          await page.waitForTimeout(5000);
-          loggedIn = await this.siteModule.isLoggedIn(page);
-          if (loggedIn) {
-            this.logger.success('Login detected! Waiting for page to stabilize...');
-            // Give page time to fully load after login
-            await page.waitForTimeout(3000);
-            break;
-          }
-          attempts++;
-          if (attempts % 12 === 0) {
-            this.logger.info(`Still waiting for login... (${attempts * 5}s elapsed)`);
-          }
-        }
-
-        if (!loggedIn) {
-          throw new Error('Login timeout. Please ensure you are logged in and try again.');
-        }
-      } else {
-        // Already logged in, give page a moment to stabilize
-        this.logger.info('Already logged in, waiting for page to stabilize...');
-        await page.waitForTimeout(2000);
-      }
+      page = await context.newPage();
+    } catch (_error: unknown) {
+      releasePage();
+      throw _error;
+    }
+    // The time limit covers the whole session, logging in and restarts included
+    const resumed = this.attempts++ > 0;
+    if (resumed) {
+      this.consecutiveFailures = 0;
+      this.popupRetries = 0;
+    } else {
+      this.rateLimiter.startSession();
+    }
 
-      // Wait for cards to load
-      const cardsAvailable = await this.siteModule.waitForCards(page);
-      if (!cardsAvailable) {
-        throw new Error('Could not find profile cards. The page may have changed or you may need to refresh.');
-      }
+    try {
+      // Clear site popups automatically before every interaction
+      await this.siteModule.registerPopupHandlers?.(page);
 
-      // Start swiping loop
-      this.logger.info(`Starting swiping session (max ${this.config.maxSwipesPerSession} swipes)...`);
-      
-      while (this.stats.totalSwipes < this.config.maxSwipesPerSession) {
-        // Check if we still have profiles
-        const hasMore = await this.siteModule.hasMoreProfiles(page);
-        if (!hasMore) {
-          this.logger.warn('No more profiles available or hit a limit');
-          break;
-        }
+      this.transition('navigating');
+      await this.siteModule.navigate(page);
 
-        // Decide on swipe action
-        const decision = this.rateLimiter.decideSwipe();
-        
-        // Perform swipe
-        const success = await this.siteModule.swipe(page, decision.action);
-        
-        if (success) {
-          this.stats.totalSwipes++;
-          if (decision.action === 'like') {
-            this.stats.likes++;
-          } else {
-            this.stats.dislikes++;
-          }
-          
-          this.logger.info(
-            `Swipe ${this.stats.totalSwipes}/${this.config.maxSwipesPerSession}: ${decision.action.toUpperCase()} ` +
-            `(Total: ${this.stats.likes} likes, ${this.stats.dislikes} dislikes)`
+      let endReason: SessionEndReason = 'stopped';
+      if (await this.ensureLoggedIn(page)) {
+        this.transition('waiting-for-cards');
+        const cardsAvailable = await this.siteModule.waitForCards(page);
+        if (!cardsAvailable) {
+          throw new SessionError(
+            'Could not find profile cards. The page may have changed or you may need to refresh.',
+            'no-cards',
+            this.state
           );
-        } else {
-          this.stats.errors++;
-          this.logger.warn('Swipe failed or hit a limit');
-          // If swipe failed, we might have hit a limit
-          const stillHasMore = await this.siteModule.hasMoreProfiles(page);
-          if (!stillHasMore) {
-            break;
-          }
         }
 
-        // Random delay before next swipe
-        await this.rateLimiter.delay();
-
-        // Occasional reading delay
-        await this.rateLimiter.readingDelay();
+        endReason = await this.swipeLoop(page, resumed);
+        this.recordLimitReset(endReason);
       }
 
       this.logger.success('Swiping session completed!');
+      this.stats.popups = this.siteModule.getPopupStats?.() ?? {};
+      this.end(endReason);
       this.printStats();
 
       return this.stats;
@@ -183,22 +247,667 @@ export class Swiper {
         }
       }
 
+      this.end(_error instanceof SessionError ? _error.endReason : 'error');
       throw _error;
     } finally {
+      releasePage();
       await page.close();
       // saveStorageState is handled by the BrowserManager externally
     }
   }
 
+  /**
+   * Waits for a limit an earlier run hit to reset, as long as the site's maxLimitWaitMinutes
+   * allows.
+   * @returns A promise that resolves to true if the limit resets too late and the run should be skipped.
+   */
+  private async limitStillPending(): Promise<boolean> {
+    const resetAt = this.rateLimiter.getNextEligibleRun();
+    const waitMs = resetAt ? resetAt.getTime() - Date.now() : 0;
+    if (!resetAt || waitMs <= 0) {
+      return false;
+    }
+    if (waitMs > (this.config.maxLimitWaitMinutes ?? 0) * 60000) {
+      this.stats.limitResetAt = resetAt;
+      this.logger.warn(`The site's limit resets at ${formatDateTime(resetAt)}, skipping this run.`);
+      return true;
+    }
+    this.logger.info(`Waiting until ${formatDateTime(resetAt)} for the site's limit to reset...`);
+    await this.rateLimiter.waitForLimitReset(waitMs);
+    return false;
+  }
+
+  /**
+   * Remembers when the site said its limit resets, so later runs wait or are skipped until then.
+   * @param endReason - Why the swiping stopped.
+   */
+  private recordLimitReset(endReason: SessionEndReason): void {
+    if (endReason !== 'limit-reached' && endReason !== 'out-of-profiles') {
+      return;
+    }
+    const resetAt = this.siteModule.getLimitReset?.();
+    if (!resetAt) {
+      return;
+    }
+    this.stats.limitResetAt = resetAt;
+    this.rateLimiter.setNextEligibleRun(resetAt);
+    this.logger.info(`The site's limit resets at ${formatDateTime(resetAt)}; runs before then wait or are skipped.`);
+  }
+
+  /**
+   * Waits for the user to log in manually if they are not logged in yet.
+   * @param page - The Playwright page instance.
+   * @returns A promise that resolves to true once logged in, or false if the session was stopped first.
+   * @throws {SessionError} If the user does not log in within five minutes.
+   */
+  private async ensureLoggedIn(page: Page): Promise<boolean> {
+    if (await this.siteModule.isLoggedIn(page)) {
+      // Already logged in, give page a moment to stabilize
+      this.logger.info('Already logged in, waiting for page to stabilize...');
+      await page.waitForTimeout(2000);
+      return true;
+    }
+
+    this.transition('awaiting-login');
+    this.logger.warn('Not logged in. Please log in manually in the browser window.');
+    this.logger.info('Waiting for you to log in... (Press Ctrl+C when done)');
+
+    // Wait for user to log in (check every 5 seconds)
+    const maxAttempts = 60; // 5 minutes max wait
+    for (let attempts = 1; attempts <= maxAttempts; attempts++) {
+      await page.waitForTimeout(5000);
+      if (this.stopRequested) {
+        return false;
+      }
+      if (await this.siteModule.isLoggedIn(page)) {
+        this.logger.success('Login detected! Waiting for page to stabilize...');
+        // Give page time to fully load after login
+        await page.waitForTimeout(3000);
+        return true;
+      }
+      if (attempts % 12 === 0) {
+        this.logger.info(`Still waiting for login... (${attempts * 5}s elapsed)`);
+      }
+    }
+
+    throw new SessionError('Login timeout. Please ensure you are logged in and try again.', 'login-timeout', this.state);
+  }
+
+  /**
+   * Swipes until the session has a reason to end.
+   * @param page - The Playwright page instance.
+   * @param resumed - Whether an earlier run of this session failed and this one picks up after it.
+   * @returns Why the swiping stopped.
+   * @throws {SessionError} If too many swipes fail in a row or the page cannot be recovered.
+   */
+  private async swipeLoop(page: Page, resumed: boolean): Promise<SessionEndReason> {
+    this.transition('swiping');
+    if (resumed) {
+      this.logger.info(
+        `Resuming after ${this.stats.totalSwipes} of ${this.config.maxSwipesPerSession} ${this.options.dryRun ? 'profiles' : 'swipes'}...`
+      );
+    } else {
+      // Later runs of this session already count in today's usage, so only read it once
+      this.likesBeforeSession = this.rateLimiter.getUsageToday().likes;
+    }
+    if (this.options.dryRun) {
+      this.logger.info(`Starting dry run (max ${this.config.maxSwipesPerSession} profiles, no swipes are sent)...`);
+      return this.dryRunLoop(page);
+    }
+    this.logger.info(`Starting swiping session (max ${this.config.maxSwipesPerSession} swipes)...`);
+    const budget = this.rateLimiter.getRemainingBudget();
+    const left = [
+      budget.swipes !== Infinity ? `${budget.swipes} swipes` : undefined,
+      budget.likes !== Infinity ? `${budget.likes} likes` : undefined,
+    ].filter((part) => part !== undefined);
+    if (left.length > 0) {
+      this.logger.info(`Quota budget left: ${left.join(', ')}.`);
+    }
+
+    // A swipe blocked by a popup is retried with the same decision
+    let retryDecision: SwipeDecision | null = null;
+
+    while (this.stats.totalSwipes < this.config.maxSwipesPerSession) {
+      await this.waitWhilePaused();
+      if (this.stopRequested) {
+        return 'stopped';
+      }
+
+      // Stop once a daily or weekly quota is used up, counting earlier runs
+      const { exhausted } = this.rateLimiter.getRemainingBudget();
+      if (exhausted) {
+        this.stats.quota = exhausted;
+        this.logger.warn(`${QUOTA_LABELS[exhausted]} reached (${exhausted}: ${this.config[exhausted]}). Ending session.`);
+        return 'quota-reached';
+      }
+
+      if (this.rateLimiter.isTimeUp()) {
+        this.logger.warn(`Session time limit reached (maxSessionMinutes: ${this.config.maxSessionMinutes}). Ending session.`);
+        return 'time-limit';
+      }
+      if (this.windowClosed()) {
+        return 'window-closed';
+      }
+      if (this.stats.totalSwipes > 0) {
+        await this.takeBreakIfDue();
+        // The break may have used up the rest of the session
+        if (this.rateLimiter.isTimeUp()) {
+          continue;
+        }
+      }
+
+      // Check if we still have profiles
+      const hasMore = await this.siteModule.hasMoreProfiles(page);
+      if (!hasMore) {
+        this.logger.warn('No more profiles available or hit a limit');
+        return 'out-of-profiles';
+      }
+
+      // Decide on swipe action; a retried swipe keeps its decision
+      let decision: SwipeDecision;
+      if (retryDecision) {
+        decision = retryDecision;
+        retryDecision = null;
+      } else {
+        const profile = await this.readProfile(page);
+        const plan = await this.confirm(profile, this.decide(profile));
+        // Ctrl+C at a prompt stops every session, this one included
+        if (this.stopRequested) {
+          return 'stopped';
+        }
+        if (plan.next === 'quit') {
+          this.logger.info('Quitting at your request.');
+          return 'user-quit';
+        }
+        if (plan.next === 'skip') {
+          if (!(await this.siteModule.skipProfile?.(page))) {
+            this.logger.warn('Could not skip the profile, asking again.');
+          }
+          continue;
+        }
+        decision = plan.decision;
+      }
+
+      // Perform swipe once the budget shared with the other sites allows it
+      await this.rateLimiter.acquireSwipe();
+      if (this.stopRequested) {
+        return 'stopped';
+      }
+      const outcome = await this.siteModule.swipe(page, decision.action);
+
+      if (outcome.kind === 'success') {
+        this.recordSwipe(decision);
+      } else {
+        const response = await this.handleFailedSwipe(page, outcome);
+        if (response.next === 'stop') {
+          return response.reason;
+        }
+        this.transition('swiping');
+        if (response.next === 'retry') {
+          // Retry straight away; the popup was the only thing in the way
+          retryDecision = decision;
+          continue;
+        }
+      }
+
+      // Random delay before next swipe
+      await this.rateLimiter.delay();
+
+      // Occasional reading delay
+      await this.rateLimiter.readingDelay();
+    }
+
+    return 'max-swipes';
+  }
+
+  /**
+   * Decides on profiles without swiping. Moving on to the next profile needs a site module
+   * that can skip a profile; otherwise the dry run ends after the first one.
+   * @param page - The Playwright page instance.
+   * @returns Why the dry run stopped.
+   */
+  private async dryRunLoop(page: Page): Promise<SessionEndReason> {
+    while (this.stats.totalSwipes < this.config.maxSwipesPerSession) {
+      await this.waitWhilePaused();
+      if (this.stopRequested) {
+        return 'stopped';
+      }
+
+      if (this.rateLimiter.isTimeUp()) {
+        this.logger.warn(`Session time limit reached (maxSessionMinutes: ${this.config.maxSessionMinutes}). Ending dry run.`);
+        return 'time-limit';
+      }
+      if (this.windowClosed()) {
+        return 'window-closed';
+      }
+      if (!(await this.siteModule.hasMoreProfiles(page))) {
+        this.logger.warn('No more profiles available or hit a limit');
+        return 'out-of-profiles';
+      }
+
+      this.recordSwipe(this.decide(await this.readProfile(page)));
+
+      if (this.stats.totalSwipes >= this.config.maxSwipesPerSession) {
+        break;
+      }
+      if (!this.siteModule.skipProfile) {
+        this.logger.warn('This site cannot move to the next profile without swiping, so the dry run stops here.');
+        return 'cannot-advance';
+      }
+      if (!(await this.siteModule.skipProfile(page))) {
+        this.logger.warn('Could not move to the next profile without swiping, so the dry run stops here.');
+        return 'cannot-advance';
+      }
+
+      await this.rateLimiter.delay();
+    }
+
+    return 'max-swipes';
+  }
+
+  /**
+   * Checks whether the allowed time window has closed since the session started.
+   * @returns True if the session should wind down.
+   */
+  private windowClosed(): boolean {
+    if (!this.windows || this.windows.isOpen(new Date())) {
+      return false;
+    }
+    this.logger.warn(`The allowed window closed (${this.windows.describe()}). Ending session.`);
+    return true;
+  }
+
+  /**
+   * Takes a break when the site's breakEvery setting says one is due.
+   */
+  private async takeBreakIfDue(): Promise<void> {
+    const breakMs = this.rateLimiter.nextBreak(this.stats.totalSwipes);
+    if (breakMs <= 0) {
+      return;
+    }
+    this.transition('on-break');
+    this.logger.info(`Taking a break for ${(breakMs / 60000).toFixed(1)} minutes after ${this.stats.totalSwipes} swipes...`);
+    await this.rateLimiter.takeBreak(breakMs);
+    this.logger.info('Break over, back to swiping.');
+    this.transition('swiping');
+  }
+
+  /**
+   * Reads the profile on screen. Sites that cannot read profiles give an empty snapshot.
+   * @param page - The Playwright page instance.
+   * @returns A promise that resolves to the profile snapshot.
+   */
+  private async readProfile(page: Page): Promise<ProfileSnapshot> {
+    const profile = (await this.siteModule.getCurrentProfile?.(page)) ?? {};
+    this.logger.debug(`Current profile: ${JSON.stringify(profile)}`);
+    return profile;
+  }
+
+  /**
+   * Asks the decision strategy what to do with a profile.
+   * @param profile - The profile on screen.
+   * @returns The swipe decision.
+   */
+  private decide(profile: ProfileSnapshot): SwipeDecision {
+    const decision = this.strategy.decide({ swipeNumber: this.stats.totalSwipes + 1, profile, pacing: this.pacing() });
+    if (decision.likeRatio !== undefined) {
+      this.stats.effectiveLikeRatio = decision.likeRatio;
+    }
+    if (decision.reason) {
+      this.logger.info(`Decided ${decision.action}: ${decision.reason}`);
+    } else {
+      this.logger.debug(`Strategy ${this.strategy.name} decided: ${decision.action}`);
+    }
+    return decision;
+  }
+
+  /**
+   * Works out how far the day and the session have got. Likes are counted from the session's
+   * own statistics on top of the earlier runs, so dry runs pace themselves the same way.
+   * @returns The pacing for the next decision.
+   */
+  private pacing(): DecisionPacing {
+    const sessionSwipesLeft = this.config.maxSwipesPerSession - this.stats.totalSwipes;
+    return {
+      likesToday: this.likesBeforeSession + this.stats.likes + this.stats.superLikes,
+      remainingSwipes: Math.min(sessionSwipesLeft, this.rateLimiter.getRemainingBudget().swipes),
+    };
+  }
+
+  /**
+   * In assisted mode, asks the user to accept or override the strategy's decision. Without an
+   * assistant the decision is carried out as is.
+   * @param profile - The profile on screen.
+   * @param suggestion - The strategy's decision.
+   * @returns A promise that resolves to what to do with the profile.
+   */
+  private async confirm(profile: ProfileSnapshot, suggestion: SwipeDecision): Promise<CardPlan> {
+    const { assistant } = this.options;
+    if (!assistant) {
+      return { next: 'swipe', decision: suggestion };
+    }
+
+    this.transition('awaiting-confirmation');
+    const choice = await assistant.confirm({
+      site: this.config.name ?? 'site',
+      swipeNumber: this.stats.totalSwipes + 1,
+      profile,
+      suggestion,
+      canSkip: this.siteModule.skipProfile !== undefined,
+      signal: this.stopSignal.signal,
+    });
+    this.transition('swiping');
+
+    if (choice === 'accept') {
+      return { next: 'swipe', decision: suggestion };
+    }
+    if (choice === 'like' || choice === 'pass') {
+      const action = choice === 'like' ? 'like' : 'dislike';
+      this.logger.info(`You chose ${action} (suggested ${suggestion.action}).`);
+      return { next: 'swipe', decision: { action, reason: `chosen in assisted mode, suggested ${suggestion.action}` } };
+    }
+    return { next: choice };
+  }
+
+  /**
+   * Counts a successful swipe, or in a dry run, a decision.
+   * @param decision - The decision that was carried out.
+   */
+  private recordSwipe(decision: SwipeDecision): void {
+    this.consecutiveFailures = 0;
+    this.popupRetries = 0;
+    this.stats.totalSwipes++;
+    if (decision.action === 'like') {
+      this.stats.likes++;
+    } else if (decision.action === 'superlike') {
+      this.stats.superLikes++;
+    } else {
+      this.stats.dislikes++;
+    }
+
+    const totals = `(Total: ${this.stats.likes} likes, ${this.stats.superLikes} super likes, ${this.stats.dislikes} dislikes)`;
+    if (this.options.dryRun) {
+      const verbs = { like: 'would like', superlike: 'would super like', dislike: 'would pass' };
+      this.logger.info(
+        `Dry run ${this.stats.totalSwipes}/${this.config.maxSwipesPerSession}: ${verbs[decision.action]} ${totals}`
+      );
+      return;
+    }
+    this.rateLimiter.recordSwipe(decision.action);
+    this.logger.info(
+      `Swipe ${this.stats.totalSwipes}/${this.config.maxSwipesPerSession}: ${decision.action.toUpperCase()} ${totals}`
+    );
+  }
+
+  /**
+   * Reacts to a failed swipe according to why it failed.
+   * @param page - The Playwright page instance.
+   * @param outcome - The outcome of the failed swipe.
+   * @returns What the swiping loop should do next.
+   * @throws {SessionError} If too many swipes fail in a row or the page cannot be recovered.
+   */
+  private async handleFailedSwipe(
+    page: Page,
+    outcome: Exclude<SwipeOutcome, { kind: 'success' }>
+  ): Promise<FailureResponse> {
+    if (outcome.kind === 'limit-reached') {
+      this.stats.limitMessage = outcome.message;
+      this.transition('limit-reached');
+      this.logger.warn(`Swipe limit reached${outcome.message ? `: ${outcome.message}` : ''}. Ending session.`);
+      return { next: 'stop', reason: 'limit-reached' };
+    }
+
+    this.stats.errors++;
+    this.stats.errorsByKind[outcome.kind] = (this.stats.errorsByKind[outcome.kind] ?? 0) + 1;
+    this.consecutiveFailures++;
+    if (this.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+      throw new SessionError(
+        `${this.consecutiveFailures} swipes in a row failed (last: ${outcome.kind}).`,
+        'too-many-failures',
+        this.state
+      );
+    }
+
+    if (outcome.kind === 'error') {
+      this.logger.warn(`Swipe failed: ${outcome.message}`);
+      return { next: 'continue' };
+    }
+
+    this.transition('recovering');
+    switch (outcome.kind) {
+      case 'popup-blocked': {
+        this.popupRetries++;
+        if (this.popupRetries > MAX_POPUP_RETRIES) {
+          this.logger.warn('Popup keeps blocking the swipe, reloading the cards...');
+          this.popupRetries = 0;
+          return (await this.recoverPage(page, false))
+            ? { next: 'continue' }
+            : { next: 'stop', reason: 'recovery-failed' };
+        }
+        this.logger.warn(`Swipe blocked by a popup${outcome.popup ? ` (${outcome.popup})` : ''}, dismissing and retrying...`);
+        await this.siteModule.dismissPopup(page);
+        return { next: 'retry' };
+      }
+      case 'element-missing': {
+        this.logger.warn(`Could not find the ${outcome.element}.`);
+        if (!(await this.siteModule.hasMoreProfiles(page))) {
+          return { next: 'stop', reason: 'out-of-profiles' };
+        }
+        return (await this.siteModule.waitForCards(page))
+          ? { next: 'continue' }
+          : { next: 'stop', reason: 'no-cards' };
+      }
+      case 'navigated-away': {
+        this.logger.warn(`Page navigated away to ${outcome.url}, returning to the site...`);
+        if (!(await this.recoverPage(page, true))) {
+          throw new SessionError(
+            'Could not get back to the profile cards after the page navigated away.',
+            'recovery-failed',
+            this.state
+          );
+        }
+        return { next: 'continue' };
+      }
+    }
+  }
+
+  /**
+   * Tries to get the page back to a state where cards can be swiped.
+   * @param page - The Playwright page instance.
+   * @param renavigate - Whether to navigate back to the site first.
+   * @returns True if cards are available again.
+   */
+  private async recoverPage(page: Page, renavigate: boolean): Promise<boolean> {
+    if (renavigate) {
+      await this.siteModule.navigate(page);
+    }
+    return this.siteModule.waitForCards(page);
+  }
+
+  /**
+   * Subscribes to session state changes.
+   * @param listener - Called with every transition, in order.
+   */
+  onStateChange(listener: (transition: SessionTransition) => void): void {
+    this.stateListeners.push(listener);
+  }
+
+  /**
+   * Gets the state the session is in.
+   * @returns The current session state.
+   */
+  getState(): SessionState {
+    return this.state;
+  }
+
+  /**
+   * Puts swiping on hold. The swipe in progress finishes first; the session then stays
+   * 'paused' until resume is called. Has no effect once the session is done.
+   */
+  pause(): void {
+    if (this.state === 'done' || this.pauseRequested) {
+      return;
+    }
+    this.pauseRequested = true;
+    this.logger.info('Pausing after the current swipe...');
+  }
+
+  /**
+   * Resumes a paused session.
+   */
+  resume(): void {
+    if (!this.pauseRequested) {
+      return;
+    }
+    this.pauseRequested = false;
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    for (const wake of waiters) {
+      wake();
+    }
+  }
+
+  /**
+   * Ends the session after the swipe in progress, with 'stopped'. A pause, break or delay in
+   * progress is cut short, an assisted-mode prompt still waiting its turn is not shown, a session that has not started yet ends as soon as it starts, and a
+   * failed session is not restarted.
+   */
+  stop(): void {
+    if (this.stopRequested) {
+      return;
+    }
+    this.stopRequested = true;
+    this.stopSignal.abort();
+    if (this.state !== 'idle' && this.state !== 'done') {
+      this.logger.info('Stopping after the current swipe...');
+    }
+    this.rateLimiter.cancelWaits();
+    this.resume();
+  }
+
+  /**
+   * Checks whether stop was called.
+   * @returns True once the session has been asked to stop.
+   */
+  isStopRequested(): boolean {
+    return this.stopRequested;
+  }
+
+  /**
+   * Waits before the session is restarted after a failed run. Calling stop ends the wait early.
+   * @param ms - How long to wait in milliseconds.
+   */
+  async waitBeforeRestart(ms: number): Promise<void> {
+    await this.rateLimiter.waitBeforeRestart(ms);
+  }
+
+  /**
+   * Blocks the swiping loop while a pause is requested.
+   */
+  private async waitWhilePaused(): Promise<void> {
+    if (!this.pauseRequested) {
+      return;
+    }
+    const previous = this.state;
+    this.transition('paused');
+    this.logger.info('Session paused.');
+    await new Promise<void>((resolve) => this.resumeWaiters.push(resolve));
+    this.logger.info('Session resumed.');
+    this.transition(previous);
+  }
+
+  /**
+   * Moves the session to a new state and notifies the listeners.
+   * @param to - The state to enter.
+   * @param endReason - Optional: Why the session ended, when entering 'done'.
+   */
+  private transition(to: SessionState, endReason?: SessionEndReason): void {
+    if (to === this.state) {
+      return;
+    }
+    const transition: SessionTransition = { from: this.state, to, at: new Date(), endReason };
+    this.state = to;
+    this.logger.debug(`Session state: ${transition.from} -> ${to}${endReason ? ` (${endReason})` : ''}`);
+    for (const listener of this.stateListeners) {
+      listener(transition);
+    }
+  }
+
+  /**
+   * Ends the session and records why.
+   * @param reason - Why the session ended.
+   */
+  private end(reason: SessionEndReason): void {
+    this.stats.endReason = reason;
+    this.pauseRequested = false;
+    this.transition('done', reason);
+  }
+
+  /**
+   * Counts a match announced by the site module.
+   * @param event - The match event.
+   */
+  private recordMatch(event: MatchEvent): void {
+    this.stats.matches++;
+    this.logger.info(`Match #${this.stats.matches} detected (${event.source}).`);
+  }
+
+  /**
+   * Formats a ratio as a percentage, or "n/a" when there is nothing to divide by.
+   * @param count - The numerator.
+   * @param total - The denominator.
+   * @returns The formatted percentage.
+   */
+  static formatRate(count: number, total: number): string {
+    return total > 0 ? `${((count / total) * 100).toFixed(1)}%` : 'n/a';
+  }
+
   /**
    * Prints the session statistics to the console.
    */
   private printStats(): void {
-    this.logger.info('=== Session Statistics ===');
+    if (this.stats.dryRun) {
+      this.logger.info('=== Session Statistics (DRY RUN) ===');
+      this.logger.info('Dry run: the counts below are decisions only, no likes or passes were sent.');
+    } else {
+      this.logger.info('=== Session Statistics ===');
+    }
+    this.logger.info(`Ended: ${this.stats.endReason}`);
     this.logger.info(`Total Swipes: ${this.stats.totalSwipes}`);
-    this.logger.info(`Likes: ${this.stats.likes} (${((this.stats.likes / this.stats.totalSwipes) * 100).toFixed(1)}%)`);
-    this.logger.info(`Dislikes: ${this.stats.dislikes} (${((this.stats.dislikes / this.stats.totalSwipes) * 100).toFixed(1)}%)`);
+    // A session stopped early may not have swiped at all
+    this.logger.info(`Likes: ${this.stats.likes} (${Swiper.formatRate(this.stats.likes, this.stats.totalSwipes)})`);
+    this.logger.info(`Dislikes: ${this.stats.dislikes} (${Swiper.formatRate(this.stats.dislikes, this.stats.totalSwipes)})`);
+    this.logger.info(`Super Likes: ${this.stats.superLikes} (${Swiper.formatRate(this.stats.superLikes, this.stats.totalSwipes)})`);
+    if (this.siteModule.getCapabilities().matchDetection) {
+      // Super likes are likes too, so they count towards the like-to-match rate
+      const allLikes = this.stats.likes + this.stats.superLikes;
+      this.logger.info(`Matches: ${this.stats.matches} (${Swiper.formatRate(this.stats.matches, allLikes)} of likes)`);
+    } else {
+      this.logger.info('Matches: not reported by this site');
+    }
     this.logger.info(`Errors: ${this.stats.errors}`);
+    for (const [kind, count] of Object.entries(this.stats.errorsByKind)) {
+      this.logger.info(`  ${kind}: ${count}`);
+    }
+    if (this.stats.limitMessage !== undefined) {
+      this.logger.info(`Limit reached: ${this.stats.limitMessage || '(no message)'}`);
+    }
+    if (this.stats.limitResetAt !== undefined) {
+      this.logger.info(`Limit resets: ${formatDateTime(this.stats.limitResetAt)}`);
+    }
+    if (this.stats.effectiveLikeRatio !== undefined) {
+      this.logger.info(`Effective like ratio: ${this.stats.effectiveLikeRatio.toFixed(2)} (last decision)`);
+    }
+    if (this.stats.quota !== undefined) {
+      this.logger.info(`Quota reached: ${this.stats.quota} (${this.config[this.stats.quota]})`);
+    }
+    const popups = Object.entries(this.stats.popups);
+    if (popups.length > 0) {
+      this.logger.info(`Popups dismissed: ${popups.reduce((total, [, count]) => total + count, 0)}`);
+      for (const [name, count] of popups) {
+        this.logger.info(`  ${name}: ${count}`);
+      }
+    }
   }
 
   /**
@@ -206,6 +915,10 @@ export class Swiper {
    * @returns The session statistics.
    */
   getStats(): SwiperStats {
-    return { ...this.stats };
+    return {
+      ...this.stats,
+      errorsByKind: { ...this.stats.errorsByKind },
+      popups: this.siteModule.getPopupStats?.() ?? { ...this.stats.popups },
+    };
   }
 }
\ No newline at end of file
@@ -8,6 +8,68 @@ export interface SwipeDelay {
   max: number;
 }
 
+/**
+ * A range of minutes, such as the length of a break.
+ */
+export interface MinuteRange {
+  /** The minimum in minutes. */
+  min: number;
+  /** The maximum in minutes. */
+  max: number;
+}
+
+/**
+ * When to take a break. With both set, the break comes after whichever is reached first.
+ */
+export interface BreakSchedule {
+  /** Optional: Take a break after this many swipes. */
+  swipes?: number;
+  /** Optional: Take a break after this many minutes. */
+  minutes?: number;
+}
+
+/**
+ * The occasional pause that mimics reading a profile.
+ */
+export interface ReadingPause {
+  /** Optional: The probability of pausing after a swipe (0.0 to 1.0). Defaults to 0.1. */
+  probability?: number;
+  /** Optional: How long the pause lasts, in milliseconds. Defaults to 5000-10000ms. */
+  duration?: SwipeDelay;
+}
+
+/**
+ * How long to wait before restarting a failed session. Each restart waits longer than the last.
+ */
+export interface RestartBackoff {
+  /** Optional: The wait before the first restart, in seconds. Defaults to 30. */
+  initialSeconds?: number;
+  /** Optional: What the wait is multiplied by for each further restart. Defaults to 2. */
+  multiplier?: number;
+  /** Optional: The longest wait, in seconds. Defaults to 600. */
+  maxSeconds?: number;
+}
+
+/**
+ * A day of the week, as used in allowed time windows.
+ */
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+/**
+ * A time of day during which swiping is allowed. A window whose end is before its start runs
+ * past midnight into the next day.
+ */
+export interface TimeWindow {
+  /** Optional: The days the window opens on. Defaults to every day. */
+  days?: Weekday[];
+  /** When the window opens, as HH:MM. */
+  start: string;
+  /** When the window closes, as HH:MM. "24:00" closes it at midnight. */
+  end: string;
+  /** Optional: The IANA time zone the times are in, such as "Europe/Berlin". Defaults to the system time zone. */
+  timezone?: string;
+}
+
 /**
  * Configuration for a specific dating site.
  */
@@ -18,12 +80,85 @@ export interface SiteConfig {
   enabled: boolean;
   /** The probability of liking a profile (0.0 to 1.0). */
   likeRatio: number;
+  /** Optional: The probability of sending a like as a super like instead (0.0 to 1.0). Defaults to 0. */
+  superLikeRatio?: number;
+  /** Optional: The maximum number of super likes per session. Defaults to no limit. */
+  maxSuperLikesPerSession?: number;
+  /** Optional: How to decide between like and dislike, as a strategy name or a name with options. Defaults to "random-ratio". */
+  decisionStrategy?: string | DecisionStrategyConfig;
+  /** Optional: Rules that force a like or a pass for matching profiles, checked in order before the decision strategy. */
+  filters?: SwipeFilterRule[];
   /** The random delay between swipes. */
   swipeDelay: SwipeDelay;
   /** The maximum number of swipes per session. */
   maxSwipesPerSession: number;
+  /** Optional: The maximum length of a session in minutes, breaks included. Defaults to no limit. */
+  maxSessionMinutes?: number;
+  /** Optional: When to take a break from swiping. Defaults to no breaks. */
+  breakEvery?: BreakSchedule;
+  /** Optional: How long a break lasts, in minutes. Defaults to 5-10 minutes. */
+  breakDuration?: MinuteRange;
+  /** Optional: How often and how long to pause as if reading a profile. */
+  readingPause?: ReadingPause;
+  /** Optional: The maximum number of swipes per calendar day, counted across runs. Defaults to no limit. */
+  maxSwipesPerDay?: number;
+  /** Optional: The maximum number of likes, super likes included, per calendar day, counted across runs. Defaults to no limit. */
+  maxLikesPerDay?: number;
+  /** Optional: The maximum number of swipes over the last seven days, counted across runs. Defaults to no limit. */
+  maxSwipesPerWeek?: number;
+  /** Optional: The times of day swiping is allowed. Sessions do not start outside them and end when one closes. Defaults to any time. */
+  allowedWindows?: TimeWindow[];
+  /** Optional: How many minutes a run waits for a limit the site reported to reset. Runs that would wait longer are skipped. Defaults to 0 (always skip). */
+  maxLimitWaitMinutes?: number;
+  /** Optional: How many times a failed session is restarted on a new page. Defaults to 0 (no restarts). */
+  maxRestarts?: number;
+  /** Optional: How long to wait before each restart. Defaults to 30 seconds, doubling up to 10 minutes. */
+  restartBackoff?: RestartBackoff;
+  /** Optional: When the daemon starts a session, as a five-field cron expression such as "0 19 * * *". */
+  schedule?: string;
   /** Optional: Whether to enable debug logging for this site. */
   debugMode?: boolean;
+  /** Optional: Path to a JSON file that overrides or extends the site's built-in selector pack. */
+  selectorsFile?: string;
+}
+
+/**
+ * Selects a decision strategy and passes it options.
+ */
+export interface DecisionStrategyConfig {
+  /** The name the strategy is registered under. */
+  name: string;
+  /** Optional: Strategy-specific options, such as the script for "scripted". */
+  options?: Record<string, unknown>;
+}
+
+/**
+ * A filter rule that forces a like or a pass. A rule's conditions all have to hold for the
+ * profile to match it. Conditions on fields the profile does not report are not counted either way.
+ */
+export interface SwipeFilterRule {
+  /** Optional: The name used in logs. Defaults to the rule's position, such as "#2". */
+  name?: string;
+  /** What to do with a profile the rule fires for. */
+  action: 'like' | 'pass';
+  /** Optional: Fire when the profile matches the conditions (default) or when it fails any of them. */
+  when?: 'matches' | 'fails';
+  /** Optional: The minimum age. */
+  minAge?: number;
+  /** Optional: The maximum age. */
+  maxAge?: number;
+  /** Optional: The maximum distance in kilometers. */
+  maxDistanceKm?: number;
+  /** Optional: Keywords of which the bio must contain at least one (case-insensitive). */
+  bioIncludes?: string[];
+  /** Optional: Keywords the bio must not contain (case-insensitive). */
+  bioExcludes?: string[];
+  /** Optional: The minimum number of photos. */
+  minPhotos?: number;
+  /** Optional: Whether the profile must be verified. */
+  verifiedOnly?: boolean;
+  /** Optional: The minimum match percentage (OkCupid). */
+  minMatchPercentage?: number;
 }
 
 /**
@@ -36,6 +171,32 @@ export interface BrowserConfig {
   profilePath: string;
 }
 
+/**
+ * Describes what a site module supports, so settings and the swiper can adapt to each site.
+ */
+export interface SiteCapabilities {
+  /** How likes and dislikes are sent: keyboard shortcuts or clicks on the on-screen buttons. */
+  swipeInput: 'keyboard' | 'buttons';
+  /** Whether the site supports the 'superlike' swipe action. */
+  superLike: boolean;
+  /** Whether the site shows a match screen the module detects and reports. */
+  matchDetection: boolean;
+  /** Whether the module detects when the site refuses swipes because a daily limit was reached. */
+  limitDetection: boolean;
+  /** Whether the profiles the module reads report a match percentage, which minMatchPercentage filter conditions need. */
+  matchPercentage: boolean;
+}
+
+/**
+ * Limits shared by all sites running at once.
+ */
+export interface RateBudgetConfig {
+  /** Optional: The maximum number of swipes per minute across all sites. Defaults to no limit. */
+  maxActionsPerMinute?: number;
+  /** Optional: The maximum number of sites swiping at once, each on its own page. Defaults to no limit. */
+  maxConcurrentPages?: number;
+}
+
 /**
  * The main application configuration.
  */
@@ -44,17 +205,87 @@ export interface AppConfig {
   sites: {
     tinder?: SiteConfig;
     okcupid?: SiteConfig;
+    bumble?: SiteConfig;
     global?: SiteConfig;
     [key: string]: SiteConfig | undefined;
   };
   /** Configuration for the browser. */
   browser: BrowserConfig;
+  /** Optional: Local paths or npm packages that register additional site modules. */
+  plugins?: string[];
+  /** Optional: The seed for every random choice, so a run can be reproduced. Defaults to a new seed per run. */
+  seed?: number | string;
+  /** Optional: Limits shared by all sites, so running more sites does not add up to more load. */
+  rateBudget?: RateBudgetConfig;
 }
 
 /**
- * Represents the decision to like or dislike a profile.
+ * The actions a swipe can perform on a profile.
+ */
+export type SwipeAction = 'like' | 'dislike' | 'superlike';
+
+/**
+ * Represents the decision to like, super like or dislike a profile.
  */
 export interface SwipeDecision {
   /** The action to perform. */
-  action: 'like' | 'dislike';
-}
\ No newline at end of file
+  action: SwipeAction;
+  /** Optional: Why the action was chosen, such as the filter rule that fired. Logged with the decision. */
+  reason?: string;
+  /** Optional: The like ratio the decision was made with, set by strategies that adjust it as they go. */
+  likeRatio?: number;
+}
+
+/**
+ * What could be read from the profile card currently on screen. Fields the site does not
+ * show, or that could not be read, are left out.
+ */
+export interface ProfileSnapshot {
+  /** The display name. */
+  name?: string;
+  /** The age in years. */
+  age?: number;
+  /** The distance to the person in kilometers. */
+  distanceKm?: number;
+  /** The bio or first profile text. */
+  bio?: string;
+  /** The number of photos on the card. */
+  photoCount?: number;
+  /** Whether the profile shows a verified badge. */
+  verified?: boolean;
+  /** The match percentage, on sites that compute one (OkCupid). */
+  matchPercentage?: number;
+}
+
+/**
+ * A match the site announced during a session.
+ */
+export interface MatchEvent {
+  /** The name of the popup rule that spotted the match screen. */
+  source: string;
+  /** When the match was detected. */
+  detectedAt: Date;
+}
+
+/**
+ * The result of a swipe attempt. Failed attempts say why they failed so the
+ * swiper can react to each case instead of guessing.
+ */
+export type SwipeOutcome =
+  /** The swipe was performed. */
+  | { kind: 'success' }
+  /** The site refused the swipe because a like or swipe limit was reached. */
+  | { kind: 'limit-reached'; message: string }
+  /** A popup or modal covered the swipe controls. */
+  | { kind: 'popup-blocked'; popup?: string }
+  /** The like or pass control could not be found on the page. */
+  | { kind: 'element-missing'; element: string }
+  /** The page is no longer on the site's swiping screen. */
+  | { kind: 'navigated-away'; url: string }
+  /** Anything else that went wrong while swiping. */
+  | { kind: 'error'; message: string };
+
+/**
+ * The kinds of swipe outcomes that are counted as errors.
+ */
+export type SwipeErrorKind = Exclude<SwipeOutcome['kind'], 'success' | 'limit-reached'>;
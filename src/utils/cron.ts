@@ -0,0 +1,182 @@
+/**
+ * Thrown when a cron expression cannot be parsed or never matches a date.
+ */
+export class CronParseError extends Error {
+  expression: string;
+  constructor(expression: string, message: string) {
+    super(`Invalid schedule "${expression}": ${message}`);
+    this.expression = expression;
+    this.name = 'CronParseError';
+  }
+}
+
+/**
+ * The five fields of a cron expression, in order.
+ */
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 },
+];
+
+/** How far ahead next() looks before deciding a schedule never matches. */
+const SEARCH_YEARS = 5;
+
+/**
+ * A standard five-field cron schedule ("minute hour day-of-month month day-of-week"), in local
+ * time. Fields take `*`, numbers, ranges (`1-5`), lists (`1,3,5`) and steps (`0-30/10`, or `*`
+ * followed by `/15`).
+ * Day of week runs from 0 (Sunday) to 6, and 7 is Sunday too. As in cron, when both day of month
+ * and day of week are restricted, a day matching either one counts.
+ */
+export class CronSchedule {
+  readonly expression: string;
+  private minutes: Set<number>;
+  private hours: Set<number>;
+  private days: Set<number>;
+  private months: Set<number>;
+  private weekdays: Set<number>;
+  private anyDay: boolean;
+  private anyWeekday: boolean;
+
+  /**
+   * Creates an instance of CronSchedule.
+   * @param expression - The cron expression, such as "0 19 * * *".
+   * @throws {CronParseError} If the expression is invalid or never matches a date.
+   */
+  constructor(expression: string) {
+    this.expression = expression;
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== FIELDS.length) {
+      throw new CronParseError(expression, `expected ${FIELDS.length} fields, found ${fields.length}.`);
+    }
+    [this.minutes, this.hours, this.days, this.months, this.weekdays] = fields.map((field, index) =>
+      this.parseField(field, index)
+    );
+    if (this.weekdays.delete(7)) {
+      this.weekdays.add(0);
+    }
+    this.anyDay = fields[2] === '*';
+    this.anyWeekday = fields[4] === '*';
+
+    // Fails now rather than when the first run is due
+    this.next(new Date());
+  }
+
+  /**
+   * Checks whether a date falls on the schedule, to the minute.
+   * @param date - The date to check.
+   * @returns True if the schedule matches the date's minute.
+   */
+  matches(date: Date): boolean {
+    return (
+      this.minutes.has(date.getMinutes()) &&
+      this.hours.has(date.getHours()) &&
+      this.months.has(date.getMonth() + 1) &&
+      this.dayMatches(date)
+    );
+  }
+
+  /**
+   * Finds the next time the schedule matches.
+   * @param after - The time to search from. The result is always later than this.
+   * @returns The start of the next matching minute.
+   * @throws {CronParseError} If the schedule matches no date in the next five years.
+   */
+  next(after: Date): Date {
+    const date = new Date(after.getTime());
+    date.setSeconds(0, 0);
+    date.setMinutes(date.getMinutes() + 1);
+
+    const limit = new Date(after.getTime());
+    limit.setFullYear(limit.getFullYear() + SEARCH_YEARS);
+
+    // Skip whole months, days and hours that cannot match before stepping through minutes
+    while (date <= limit) {
+      if (!this.months.has(date.getMonth() + 1)) {
+        date.setMonth(date.getMonth() + 1, 1);
+        date.setHours(0, 0, 0, 0);
+      } else if (!this.dayMatches(date)) {
+        date.setDate(date.getDate() + 1);
+        date.setHours(0, 0, 0, 0);
+      } else if (!this.hours.has(date.getHours())) {
+        date.setHours(date.getHours() + 1, 0, 0, 0);
+      } else if (!this.minutes.has(date.getMinutes())) {
+        date.setMinutes(date.getMinutes() + 1, 0, 0);
+      } else {
+        return date;
+      }
+    }
+    throw new CronParseError(this.expression, `does not match any date in the next ${SEARCH_YEARS} years.`);
+  }
+
+  /**
+   * Checks the day of month and day of week together, the way cron does.
+   * @param date - The date to check.
+   * @returns True if the day matches.
+   */
+  private dayMatches(date: Date): boolean {
+    const day = this.days.has(date.getDate());
+    const weekday = this.weekdays.has(date.getDay());
+    if (!this.anyDay && !this.anyWeekday) {
+      return day || weekday;
+    }
+    return day && weekday;
+  }
+
+  /**
+   * Parses one field into the values it allows.
+   * @param field - The field text.
+   * @param index - The position of the field.
+   * @returns The allowed values.
+   * @throws {CronParseError} If the field is invalid.
+   */
+  private parseField(field: string, index: number): Set<number> {
+    const { name, min, max } = FIELDS[index];
+    const values = new Set<number>();
+    const toNumber = (text: string): number => {
+      if (!/^\d+$/.test(text)) {
+        throw new CronParseError(this.expression, `"${text}" in the ${name} field is not a number.`);
+      }
+      const value = Number(text);
+      if (value < min || value > max) {
+        throw new CronParseError(this.expression, `${value} is outside the ${name} range ${min}-${max}.`);
+      }
+      return value;
+    };
+
+    for (const part of field.split(',')) {
+      const [range, stepText, ...rest] = part.split('/');
+      if (rest.length > 0) {
+        throw new CronParseError(this.expression, `"${part}" in the ${name} field has more than one step.`);
+      }
+      const step = stepText === undefined ? 1 : toNumber(stepText);
+      if (step === 0) {
+        throw new CronParseError(this.expression, `the step in "${part}" must be at least 1.`);
+      }
+
+      let from: number;
+      let to: number;
+      if (range === '*') {
+        [from, to] = [min, max];
+      } else if (range.includes('-')) {
+        const [start, end] = range.split('-');
+        [from, to] = [toNumber(start), toNumber(end)];
+        if (from > to) {
+          throw new CronParseError(this.expression, `the range "${range}" in the ${name} field is backwards.`);
+        }
+      } else {
+        from = toNumber(range);
+        // "5/15" means every 15 starting at 5
+        to = stepText === undefined ? from : max;
+      }
+
+      for (let value = from; value <= to; value += step) {
+        values.add(value);
+      }
+    }
+    return values;
+  }
+}
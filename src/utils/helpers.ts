@@ -1,13 +1,29 @@
 import { Page, Locator } from 'playwright';
+import { Rng } from './random';
+import { dayKey } from './stateStore';
+
+/** Used by callers that do not pass their own generator. */
+const unseededRng = new Rng();
 
 /**
  * Generates a random number within a given range.
  * @param min - The minimum value.
  * @param max - The maximum value.
+ * @param rng - Optional: The random number generator to draw from.
  * @returns A random number between min and max.
  */
-export function random(min: number, max: number): number {
-  return Math.random() * (max - min) + min;
+export function random(min: number, max: number, rng: Rng = unseededRng): number {
+  return rng.between(min, max);
+}
+
+/**
+ * Formats a date for the logs, in local time.
+ * @param date - The date.
+ * @returns The date as YYYY-MM-DD HH:MM.
+ */
+export function formatDateTime(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${dayKey(date)} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
 }
 
 /**
@@ -15,21 +31,26 @@ export function random(min: number, max: number): number {
  * This is a more human-like way to click than a direct .click() call.
  * @param page - The Playwright page instance.
  * @param locator - The Playwright locator for the element to click.
+ * @param rng - Optional: The random number generator for the click point and timing.
  */
-export async function humanClick(page: Page, locator: Locator) {
+export async function humanClick(page: Page, locator: Locator, rng: Rng = unseededRng) {
+  // A trial hover only runs the actionability checks, which lets registered popup handlers
+  // clear any overlay before the mouse moves. If the checks time out, try the click anyway.
+  await locator.hover({ trial: true, timeout: 5000 }).catch(() => undefined);
+
   const boundingBox = await locator.boundingBox();
   if (!boundingBox) {
     throw new Error('Could not get bounding box for element. It might not be visible.');
   }
 
   // Calculate random coordinates within the element
-  const targetX = boundingBox.x + random(boundingBox.width * 0.2, boundingBox.width * 0.8);
-  const targetY = boundingBox.y + random(boundingBox.height * 0.2, boundingBox.height * 0.8);
+  const targetX = boundingBox.x + random(boundingBox.width * 0.2, boundingBox.width * 0.8, rng);
+  const targetY = boundingBox.y + random(boundingBox.height * 0.2, boundingBox.height * 0.8, rng);
 
   // Move the mouse in a more human-like way
-  await page.mouse.move(targetX, targetY, { steps: Math.floor(random(10, 20)) });
-  await page.waitForTimeout(random(50, 150)); // Small pause before clicking
+  await page.mouse.move(targetX, targetY, { steps: Math.floor(random(10, 20, rng)) });
+  await page.waitForTimeout(random(50, 150, rng)); // Small pause before clicking
   await page.mouse.down();
-  await page.waitForTimeout(random(80, 200)); // Hold click for a moment
+  await page.waitForTimeout(random(80, 200, rng)); // Hold click for a moment
   await page.mouse.up();
 }
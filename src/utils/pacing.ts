@@ -0,0 +1,107 @@
+import { SiteConfig } from '../types';
+import { Rng } from './random';
+
+/** The reading pause probability when the site does not set one. */
+export const DEFAULT_READING_PAUSE_PROBABILITY = 0.1;
+/** The reading pause length in milliseconds when the site does not set one. */
+export const DEFAULT_READING_PAUSE_DURATION = { min: 5000, max: 10000 };
+/** The break length in minutes when the site does not set one. */
+export const DEFAULT_BREAK_DURATION = { min: 5, max: 10 };
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Works out the session's timing from the site configuration: the delay between swipes, the
+ * reading pauses, the breaks and the session time limit. It only decides how long to wait;
+ * the waiting is up to the caller.
+ */
+export class PacingScheduler {
+  private config: SiteConfig;
+  private rng: Rng;
+  private now: () => number;
+  private startedAt?: number;
+  private lastBreakEndsAt = 0;
+  private swipesAtLastBreak = 0;
+
+  /**
+   * Creates an instance of PacingScheduler.
+   * @param config - The site configuration.
+   * @param rng - Optional: The random number generator for the delays. Defaults to an unseeded one.
+   * @param now - Optional: The clock, in milliseconds. Defaults to Date.now.
+   */
+  constructor(config: SiteConfig, rng: Rng = new Rng(), now: () => number = Date.now) {
+    this.config = config;
+    this.rng = rng;
+    this.now = now;
+  }
+
+  /**
+   * Starts the session clock. The time limit and time-based breaks count from here.
+   */
+  start(): void {
+    this.startedAt = this.now();
+    this.lastBreakEndsAt = this.startedAt;
+    this.swipesAtLastBreak = 0;
+  }
+
+  /**
+   * Picks the delay before the next swipe.
+   * @returns The delay in milliseconds.
+   */
+  swipeDelay(): number {
+    return this.rng.int(this.config.swipeDelay.min, this.config.swipeDelay.max);
+  }
+
+  /**
+   * Decides whether to pause as if reading the profile.
+   * @returns The pause in milliseconds, or 0 for no pause.
+   */
+  readingPause(): number {
+    const { probability = DEFAULT_READING_PAUSE_PROBABILITY, duration = DEFAULT_READING_PAUSE_DURATION } =
+      this.config.readingPause ?? {};
+    return this.rng.chance(probability) ? this.rng.int(duration.min, duration.max) : 0;
+  }
+
+  /**
+   * Gets the time left before the session time limit.
+   * @returns The time left in milliseconds; Infinity without a limit or before the session starts.
+   */
+  timeLeft(): number {
+    if (this.config.maxSessionMinutes === undefined || this.startedAt === undefined) {
+      return Infinity;
+    }
+    return Math.max(0, this.startedAt + this.config.maxSessionMinutes * MINUTE - this.now());
+  }
+
+  /**
+   * Checks whether the session time limit has been reached.
+   * @returns True once the session has run for maxSessionMinutes.
+   */
+  isTimeUp(): boolean {
+    return this.timeLeft() === 0;
+  }
+
+  /**
+   * Checks whether a break is due and, if so, starts it. A break never runs past the session
+   * time limit.
+   * @param swipeCount - The swipes made so far in the session.
+   * @returns The length of the break in milliseconds, or 0 if no break is due.
+   */
+  nextBreak(swipeCount: number): number {
+    const { breakEvery } = this.config;
+    if (!breakEvery || this.startedAt === undefined) {
+      return 0;
+    }
+    const swipesDue = breakEvery.swipes !== undefined && swipeCount - this.swipesAtLastBreak >= breakEvery.swipes;
+    const timeDue = breakEvery.minutes !== undefined && this.now() - this.lastBreakEndsAt >= breakEvery.minutes * MINUTE;
+    if (!swipesDue && !timeDue) {
+      return 0;
+    }
+
+    const duration = this.config.breakDuration ?? DEFAULT_BREAK_DURATION;
+    const length = Math.min(this.rng.int(duration.min * MINUTE, duration.max * MINUTE), this.timeLeft());
+    this.swipesAtLastBreak = swipeCount;
+    this.lastBreakEndsAt = this.now() + length;
+    return length;
+  }
+}
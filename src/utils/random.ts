@@ -0,0 +1,91 @@
+import { randomInt } from 'crypto';
+
+/**
+ * A seed for a random number generator. Numbers and their string form give the same sequence.
+ */
+export type Seed = number | string;
+
+/**
+ * Hashes a seed into a 32-bit state (FNV-1a).
+ * @param seed - The seed text.
+ * @returns The initial generator state.
+ */
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * A seedable random number generator (mulberry32). Every random choice the bot makes goes
+ * through an instance of this class, so a session can be replayed by reusing its seed.
+ */
+export class Rng {
+  /** The seed this generator started from. Log it to reproduce a run. */
+  readonly seed: string;
+  private state: number;
+
+  /**
+   * Creates an instance of Rng.
+   * @param seed - Optional: The seed. Defaults to a random one.
+   */
+  constructor(seed: Seed = randomInt(2 ** 32)) {
+    this.seed = String(seed);
+    this.state = hashSeed(this.seed);
+  }
+
+  /**
+   * Generates the next number in the sequence.
+   * @returns A number from 0 (inclusive) to 1 (exclusive).
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Generates a number within a given range.
+   * @param min - The minimum value.
+   * @param max - The maximum value.
+   * @returns A number from min (inclusive) to max (exclusive).
+   */
+  between(min: number, max: number): number {
+    return this.next() * (max - min) + min;
+  }
+
+  /**
+   * Generates a whole number within a given range.
+   * @param min - The minimum value.
+   * @param max - The maximum value.
+   * @returns A whole number from min to max, both inclusive.
+   */
+  int(min: number, max: number): number {
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  /**
+   * Makes a yes/no choice.
+   * @param probability - The chance of true (0.0 to 1.0).
+   * @returns True with the given probability.
+   */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /**
+   * Creates an independent generator for one part of the bot, such as one site or its pacing.
+   * Parts that draw a varying number of values, like popup clicks, then do not shift the
+   * sequence of the others.
+   * @param label - The name of the part.
+   * @returns A generator seeded from this generator's seed and the label.
+   */
+  derive(label: string): Rng {
+    return new Rng(`${this.seed}/${label}`);
+  }
+}
@@ -0,0 +1,150 @@
+import { RateBudgetConfig } from '../types';
+import { Logger } from './logger';
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Sleeps for a number of milliseconds, or until the signal aborts.
+ * @param ms - The number of milliseconds to sleep.
+ * @param signal - Optional: Ends the sleep early when aborted.
+ * @returns A promise that resolves once the time is up or the signal aborted.
+ */
+export function sleepUnlessAborted(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.resolve();
+  }
+  return new Promise((resolve) => {
+    const finish = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', finish);
+      resolve();
+    };
+    const timer = setTimeout(finish, ms);
+    signal?.addEventListener('abort', finish, { once: true });
+  });
+}
+
+/**
+ * Limits shared by all sites running at once: how many swipes they may send per minute in total,
+ * and how many of them may have a swiping page open at the same time. Each site's RateLimiter
+ * waits here before opening its page and before every swipe.
+ */
+export class GlobalRateBudget {
+  private config: RateBudgetConfig;
+  private logger: Logger;
+  private now: () => number;
+  private actionTimes: number[] = [];
+  private actionQueue: Promise<unknown> = Promise.resolve();
+  private openPages = 0;
+  private pageWaiters: (() => void)[] = [];
+
+  /**
+   * Creates an instance of GlobalRateBudget.
+   * @param config - The shared limits.
+   * @param logger - The logger instance.
+   * @param now - Optional: The clock, in milliseconds. Defaults to Date.now.
+   */
+  constructor(config: RateBudgetConfig, logger: Logger, now: () => number = Date.now) {
+    this.config = config;
+    this.logger = logger;
+    this.now = now;
+  }
+
+  /**
+   * Waits until a swipe fits in the shared per-minute budget and counts it. Callers are served
+   * in the order they asked.
+   * @param signal - Optional: Ends the wait early when aborted, without counting a swipe.
+   * @returns A promise that resolves once the swipe may be sent, or the signal aborted.
+   */
+  acquireAction(signal?: AbortSignal): Promise<void> {
+    const turn = this.actionQueue.then(() => this.waitForActionSlot(signal));
+    this.actionQueue = turn;
+    if (!signal) {
+      return turn;
+    }
+    // Do not wait for the callers ahead in the queue either
+    return new Promise((resolve, reject) => {
+      if (signal.aborted) {
+        resolve();
+        return;
+      }
+      const onAbort = () => resolve();
+      signal.addEventListener('abort', onAbort, { once: true });
+      turn.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Waits until a page slot is free and takes it.
+   * @param site - The site asking, used in logs.
+   * @param signal - Optional: Ends the wait early when aborted. No slot is taken then, and the
+   * returned function does nothing.
+   * @returns A promise that resolves to a function that frees the slot again.
+   */
+  async acquirePage(site: string, signal?: AbortSignal): Promise<() => void> {
+    if (signal?.aborted) {
+      return () => undefined;
+    }
+    const max = this.config.maxConcurrentPages;
+    if (max !== undefined && this.openPages >= max) {
+      this.logger.info(`${site} is waiting for one of the ${max} page slots to free up...`);
+      // A freed slot is handed straight to the next waiter, so openPages stays counted
+      const granted = await new Promise<boolean>((resolve) => {
+        const waiter = () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(true);
+        };
+        const onAbort = () => {
+          this.pageWaiters = this.pageWaiters.filter((other) => other !== waiter);
+          resolve(false);
+        };
+        this.pageWaiters.push(waiter);
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+      if (!granted) {
+        return () => undefined;
+      }
+    } else {
+      this.openPages++;
+    }
+
+    let released = false;
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      const next = this.pageWaiters.shift();
+      if (next) {
+        next();
+      } else {
+        this.openPages--;
+      }
+    };
+  }
+
+  /**
+   * Sleeps until the last minute holds fewer swipes than the budget allows, then counts one.
+   * @param signal - Optional: Ends the wait early when aborted, without counting a swipe.
+   */
+  private async waitForActionSlot(signal?: AbortSignal): Promise<void> {
+    const max = this.config.maxActionsPerMinute;
+    if (max === undefined) {
+      return;
+    }
+    for (;;) {
+      if (signal?.aborted) {
+        return;
+      }
+      const now = this.now();
+      this.actionTimes = this.actionTimes.filter((time) => time > now - MINUTE);
+      if (this.actionTimes.length < max) {
+        this.actionTimes.push(now);
+        return;
+      }
+      const waitMs = this.actionTimes[0] + MINUTE - now;
+      this.logger.debug(`Shared rate budget of ${max} swipes per minute reached, waiting ${waitMs}ms`);
+      await sleepUnlessAborted(waitMs, signal);
+    }
+  }
+}
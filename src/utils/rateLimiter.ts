@@ -1,74 +1,225 @@
-import { SiteConfig, SwipeDecision } from '../types'; // Removed .js
+import { SiteConfig, SwipeAction } from '../types'; // Removed .js
 import { Logger } from './logger'; // Removed .js
+import { Rng } from './random';
+import { PacingScheduler } from './pacing';
+import { GlobalRateBudget, sleepUnlessAborted } from './rateBudget';
+import { DailyUsage, StateStore } from './stateStore';
 
 /**
- * Manages swipe rate limiting and decision making.
+ * The quotas that persist across runs, named after their SiteConfig settings.
+ */
+export type SwipeQuota = 'maxSwipesPerDay' | 'maxLikesPerDay' | 'maxSwipesPerWeek';
+
+/**
+ * What a site may still send before one of its quotas is reached.
+ */
+export interface SwipeBudget {
+  /** The swipes left before a swipe quota is reached; Infinity without swipe quotas. */
+  swipes: number;
+  /** The likes left before the like quota is reached; Infinity without a like quota. */
+  likes: number;
+  /** Optional: The quota that is used up, if any. */
+  exhausted?: SwipeQuota;
+}
+
+/**
+ * Manages swipe pacing: the delays between swipes, the occasional reading pause, breaks and the
+ * session time limit, as timed by its PacingScheduler.
+ * Whether to like or dislike is up to the site's DecisionStrategy.
+ * Also keeps track of the daily and weekly quotas, which hold across runs, and of the limits
+ * shared with the other sites.
  */
 export class RateLimiter {
   private config: SiteConfig;
   private logger: Logger;
+  private scheduler: PacingScheduler;
+  private store: StateStore;
+  private budget?: GlobalRateBudget;
+  private waits = new AbortController();
 
   /**
    * Creates an instance of RateLimiter.
    * @param config - The site configuration.
    * @param logger - The logger instance.
+   * @param rng - Optional: The random number generator for the delays. Defaults to an unseeded one.
+   * @param store - Optional: Where the quota usage is kept between runs. Defaults to memory only,
+   * so the quotas only count this run.
+   * @param budget - Optional: The limits shared with the other sites. Without it, only this site's own pacing applies.
    */
-  constructor(config: SiteConfig, logger: Logger) {
+  constructor(
+    config: SiteConfig,
+    logger: Logger,
+    rng: Rng = new Rng(),
+    store: StateStore = new StateStore(undefined, logger),
+    budget?: GlobalRateBudget
+  ) {
     this.config = config;
     this.logger = logger;
-    logger.info(`Rate limiter initialized with like ratio: ${(config.likeRatio * 100).toFixed(1)}%`);
+    this.scheduler = new PacingScheduler(config, rng);
+    this.store = store;
+    this.budget = budget;
+    logger.info(`Rate limiter initialized with swipe delay: ${config.swipeDelay.min}-${config.swipeDelay.max}ms`);
   }
 
   /**
-   * Generates a random delay between min and max milliseconds.
+   * Waits for a free page slot in the shared budget.
+   * @returns A promise that resolves to a function that frees the slot when the session is done.
    */
-  async delay(): Promise<void> {
-    const delayMs = this.randomInt(
-      this.config.swipeDelay.min,
-      this.config.swipeDelay.max
-    );
-    this.logger.debug(`Waiting ${delayMs}ms before next action`);
-    await this.sleep(delayMs);
+  async acquirePage(): Promise<() => void> {
+    return this.budget ? this.budget.acquirePage(this.config.name ?? 'site', this.waits.signal) : () => undefined;
+  }
+
+  /**
+   * Waits until the shared budget allows another swipe.
+   */
+  async acquireSwipe(): Promise<void> {
+    await this.budget?.acquireAction(this.waits.signal);
+  }
+
+  /**
+   * Starts the session clock for the time limit and time-based breaks.
+   */
+  startSession(): void {
+    this.scheduler.start();
+  }
+
+  /**
+   * Checks whether the session has run for maxSessionMinutes.
+   * @returns True once the session time limit is reached.
+   */
+  isTimeUp(): boolean {
+    return this.scheduler.isTimeUp();
+  }
+
+  /**
+   * Checks whether a break is due. Once this returns a length, the break counts as started.
+   * @param swipeCount - The swipes made so far in the session.
+   * @returns The length of the break in milliseconds, or 0 if no break is due.
+   */
+  nextBreak(swipeCount: number): number {
+    return this.scheduler.nextBreak(swipeCount);
+  }
+
+  /**
+   * Waits out a break.
+   * @param ms - The length of the break in milliseconds.
+   */
+  async takeBreak(ms: number): Promise<void> {
+    await this.sleep(ms);
+  }
+
+  /**
+   * Works out what the site may still send under its daily and weekly quotas.
+   * @param now - Optional: The current time. Defaults to now.
+   * @returns The remaining budget, naming the quota that is used up if there is one.
+   */
+  getRemainingBudget(now: Date = new Date()): SwipeBudget {
+    const site = this.config.name ?? 'site';
+    const today = this.store.getUsage(site, 1, now);
+    const remaining = (limit: number | undefined, used: number) =>
+      limit === undefined ? Infinity : Math.max(0, limit - used);
+
+    const swipesToday = remaining(this.config.maxSwipesPerDay, today.swipes);
+    const swipesThisWeek = remaining(this.config.maxSwipesPerWeek, this.store.getUsage(site, 7, now).swipes);
+    const budget: SwipeBudget = {
+      swipes: Math.min(swipesToday, swipesThisWeek),
+      likes: remaining(this.config.maxLikesPerDay, today.likes),
+    };
+
+    if (swipesThisWeek === 0) {
+      budget.exhausted = 'maxSwipesPerWeek';
+    } else if (swipesToday === 0) {
+      budget.exhausted = 'maxSwipesPerDay';
+    } else if (budget.likes === 0) {
+      budget.exhausted = 'maxLikesPerDay';
+    }
+    return budget;
+  }
+
+  /**
+   * Gets what the site has sent today, earlier runs included.
+   * @param now - Optional: The current time. Defaults to now.
+   * @returns Today's usage.
+   */
+  getUsageToday(now: Date = new Date()): DailyUsage {
+    return this.store.getUsage(this.config.name ?? 'site', 1, now);
+  }
+
+  /**
+   * Counts a swipe that was sent against the quotas.
+   * @param action - The swipe action.
+   * @param at - Optional: When the swipe was sent. Defaults to now.
+   */
+  recordSwipe(action: SwipeAction, at: Date = new Date()): void {
+    this.store.recordSwipe(this.config.name ?? 'site', action, at);
+  }
+
+  /**
+   * Gets when the site's limit resets, as reported by an earlier run.
+   * @returns The reset time, or undefined if none is known.
+   */
+  getNextEligibleRun(): Date | undefined {
+    return this.store.getNextEligibleRun(this.config.name ?? 'site');
   }
 
   /**
-   * Decides whether to like or dislike based on the configured ratio.
-   * @returns The swipe decision.
+   * Remembers when the site's limit resets, so later runs wait or are skipped until then.
+   * @param at - The reset time.
    */
-  decideSwipe(): SwipeDecision {
-    const random = Math.random();
-    const action = random < this.config.likeRatio ? 'like' : 'dislike';
-    this.logger.debug(`Random: ${random.toFixed(3)}, Threshold: ${this.config.likeRatio}, Action: ${action}`);
-    return { action };
+  setNextEligibleRun(at: Date): void {
+    this.store.setNextEligibleRun(this.config.name ?? 'site', at);
+  }
+
+  /**
+   * Waits for the site's limit to reset.
+   * @param ms - How long to wait in milliseconds.
+   */
+  async waitForLimitReset(ms: number): Promise<void> {
+    await this.sleep(ms);
+  }
+
+  /**
+   * Waits before a failed session is restarted.
+   * @param ms - How long to wait in milliseconds.
+   */
+  async waitBeforeRestart(ms: number): Promise<void> {
+    await this.sleep(ms);
+  }
+
+  /**
+   * Generates a random delay between min and max milliseconds.
+   */
+  async delay(): Promise<void> {
+    const delayMs = this.scheduler.swipeDelay();
+    this.logger.debug(`Waiting ${delayMs}ms before next action`);
+    await this.sleep(delayMs);
   }
 
   /**
-   * Introduces a random delay to mimic reading a profile.
+   * Introduces a random delay to mimic reading a profile, as often and as long as the site's
+   * readingPause setting says.
    */
   async readingDelay(): Promise<void> {
-    // 10% chance of a longer pause (5-10 seconds) to mimic reading
-    if (Math.random() < 0.1) {
-      const readingDelay = this.randomInt(5000, 10000);
+    const readingDelay = this.scheduler.readingPause();
+    if (readingDelay > 0) {
       this.logger.debug(`Taking a reading pause of ${readingDelay}ms`);
       await this.sleep(readingDelay);
     }
   }
 
   /**
-   * Generates a random integer between min and max.
-   * @param min - The minimum value.
-   * @param max - The maximum value.
-   * @returns A random integer.
+   * Ends the delays, breaks and waits in progress straight away, and skips the ones after, for a
+   * session that is stopping. Waits for the shared budget end too, without taking a slot.
    */
-  private randomInt(min: number, max: number): number {
-    return Math.floor(Math.random() * (max - min + 1)) + min;
+  cancelWaits(): void {
+    this.waits.abort();
   }
 
   /**
-   * Pauses execution for a specified number of milliseconds.
+   * Pauses execution for a specified number of milliseconds, or until cancelWaits is called.
    * @param ms - The number of milliseconds to sleep.
    */
   private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+    return sleepUnlessAborted(ms, this.waits.signal);
   }
 }
@@ -0,0 +1,205 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { SwipeAction } from '../types';
+import { Logger } from './logger';
+
+/** The name of the state file, kept next to the browser profile. */
+export const STATE_FILE_NAME = 'swiper-state.json';
+
+const STATE_VERSION = 1;
+/** How many days of usage are kept; enough for the weekly quota. */
+const USAGE_HISTORY_DAYS = 8;
+
+/**
+ * What a site used on one day.
+ */
+export interface DailyUsage {
+  /** The swipes sent, of any kind. */
+  swipes: number;
+  /** The likes sent, including super likes. */
+  likes: number;
+}
+
+/**
+ * What the state file remembers about one site.
+ */
+interface SiteState {
+  /** Usage keyed by local date (YYYY-MM-DD). */
+  usage: Record<string, DailyUsage>;
+  /** Optional: When the site's limit resets, as an ISO timestamp. Runs before then wait or are skipped. */
+  nextEligibleRun?: string;
+}
+
+/**
+ * The contents of the state file.
+ */
+interface StateFile {
+  version: number;
+  sites: Record<string, SiteState>;
+}
+
+/**
+ * Formats a date as a local calendar day.
+ * @param date - The date.
+ * @returns The day as YYYY-MM-DD.
+ */
+export function dayKey(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Gets the local calendar day a number of days before a date.
+ * @param date - The date to count back from.
+ * @param days - How many days to go back.
+ * @returns The day as YYYY-MM-DD.
+ */
+function daysBefore(date: Date, days: number): string {
+  return dayKey(new Date(date.getFullYear(), date.getMonth(), date.getDate() - days));
+}
+
+/**
+ * Remembers what each site has used across runs, in a small JSON file next to the browser
+ * profile. Sessions running side by side share one store. Without a path the state is only
+ * kept in memory.
+ */
+export class StateStore {
+  private path: string | undefined;
+  private logger: Logger;
+  private state: StateFile;
+
+  /**
+   * Creates an instance of StateStore and loads the state file if it exists.
+   * @param path - The path of the state file, or undefined to keep the state in memory.
+   * @param logger - The logger instance.
+   */
+  constructor(path: string | undefined, logger: Logger) {
+    this.path = path;
+    this.logger = logger;
+    this.state = this.load();
+  }
+
+  /**
+   * Gets the state file path for a browser profile.
+   * @param profilePath - The browser profile directory.
+   * @returns The path of the state file next to the profile.
+   */
+  static pathFor(profilePath: string): string {
+    return join(dirname(resolve(profilePath)), STATE_FILE_NAME);
+  }
+
+  /**
+   * Gets the path of the state file.
+   * @returns The state file path, or undefined if the state is only kept in memory.
+   */
+  getPath(): string | undefined {
+    return this.path;
+  }
+
+  /**
+   * Records a swipe that was sent and saves the state file.
+   * @param site - The site name.
+   * @param action - The swipe action.
+   * @param at - Optional: When the swipe was sent. Defaults to now.
+   */
+  recordSwipe(site: string, action: SwipeAction, at: Date = new Date()): void {
+    const siteState = (this.state.sites[site] ??= { usage: {} });
+    const day = (siteState.usage[dayKey(at)] ??= { swipes: 0, likes: 0 });
+    day.swipes++;
+    if (action !== 'dislike') {
+      day.likes++;
+    }
+
+    // Drop the days no quota looks at anymore
+    const oldest = daysBefore(at, USAGE_HISTORY_DAYS - 1);
+    for (const key of Object.keys(siteState.usage)) {
+      if (key < oldest) {
+        delete siteState.usage[key];
+      }
+    }
+    this.save();
+  }
+
+  /**
+   * Remembers when a site's limit resets and saves the state file.
+   * @param site - The site name.
+   * @param at - The reset time.
+   */
+  setNextEligibleRun(site: string, at: Date): void {
+    const siteState = (this.state.sites[site] ??= { usage: {} });
+    siteState.nextEligibleRun = at.toISOString();
+    this.save();
+  }
+
+  /**
+   * Gets when a site's limit resets, as last reported by the site.
+   * @param site - The site name.
+   * @returns The reset time, or undefined if none is known.
+   */
+  getNextEligibleRun(site: string): Date | undefined {
+    const value = this.state.sites[site]?.nextEligibleRun;
+    if (value === undefined) {
+      return undefined;
+    }
+    const at = new Date(value);
+    return Number.isNaN(at.getTime()) ? undefined : at;
+  }
+
+  /**
+   * Adds up what a site used over the last days.
+   * @param site - The site name.
+   * @param days - How many days to count, today included.
+   * @param now - Optional: The current time. Defaults to now.
+   * @returns The usage over those days.
+   */
+  getUsage(site: string, days: number, now: Date = new Date()): DailyUsage {
+    const usage = this.state.sites[site]?.usage ?? {};
+    const total: DailyUsage = { swipes: 0, likes: 0 };
+    for (let i = 0; i < days; i++) {
+      const day = usage[daysBefore(now, i)];
+      total.swipes += day?.swipes ?? 0;
+      total.likes += day?.likes ?? 0;
+    }
+    return total;
+  }
+
+  /**
+   * Reads the state file. A missing file starts an empty state; an unreadable one is reported
+   * and replaced on the next save.
+   * @returns The state.
+   */
+  private load(): StateFile {
+    const empty: StateFile = { version: STATE_VERSION, sites: {} };
+    if (this.path === undefined || !existsSync(this.path)) {
+      return empty;
+    }
+    try {
+      const state = JSON.parse(readFileSync(this.path, 'utf-8')) as Partial<StateFile>;
+      if (state.version !== STATE_VERSION || typeof state.sites !== 'object' || state.sites === null) {
+        this.logger.warn(`Ignoring ${this.path}: unknown state file format.`);
+        return empty;
+      }
+      return { version: STATE_VERSION, sites: state.sites };
+    } catch (_error: unknown) {
+      const errorMessage = _error instanceof Error ? _error.message : String(_error);
+      this.logger.warn(`Could not read ${this.path}, starting with an empty state: ${errorMessage}`);
+      return empty;
+    }
+  }
+
+  /**
+   * Writes the state file. A failed write is reported but does not stop the session.
+   */
+  private save(): void {
+    if (this.path === undefined) {
+      return;
+    }
+    try {
+      mkdirSync(dirname(this.path), { recursive: true });
+      writeFileSync(this.path, `${JSON.stringify(this.state, null, 2)}\n`);
+    } catch (_error: unknown) {
+      const errorMessage = _error instanceof Error ? _error.message : String(_error);
+      this.logger.warn(`Could not save ${this.path}: ${errorMessage}`);
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { TimeWindow, Weekday } from '../types';
+
+/** The weekdays in the order Date.getDay() numbers them. */
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Thrown when an allowed time window is invalid.
+ */
+export class TimeWindowError extends Error {
+  window: TimeWindow;
+  constructor(window: TimeWindow, message: string) {
+    super(`Allowed window ${JSON.stringify(window)}: ${message}`);
+    this.window = window;
+    this.name = 'TimeWindowError';
+  }
+}
+
+/**
+ * A window with its times converted to minutes since midnight.
+ */
+interface ParsedWindow {
+  window: TimeWindow;
+  days: Set<number>;
+  start: number;
+  end: number;
+  format?: Intl.DateTimeFormat;
+}
+
+/**
+ * Parses a time of day.
+ * @param window - The window the time belongs to, for errors.
+ * @param time - The time as HH:MM.
+ * @returns The minutes since midnight.
+ * @throws {TimeWindowError} If the time is not a valid HH:MM.
+ */
+function parseTime(window: TimeWindow, time: string): number {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time ?? '');
+  const minutes = match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+  if (!match || Number(match[2]) > 59 || !(minutes <= 24 * 60)) {
+    throw new TimeWindowError(window, `"${time}" is not a time of day (HH:MM).`);
+  }
+  return minutes;
+}
+
+/**
+ * The times of day a site may swipe, each in its own time zone. A session checks them before it
+ * starts and before every swipe.
+ */
+export class AllowedWindows {
+  private windows: ParsedWindow[];
+
+  /**
+   * Creates an instance of AllowedWindows.
+   * @param windows - The allowed windows. Swiping is allowed when any of them is open.
+   * @throws {TimeWindowError} If a window has an invalid day, time or time zone.
+   */
+  constructor(windows: TimeWindow[]) {
+    this.windows = windows.map((window) => {
+      const days = new Set<number>();
+      for (const day of window.days ?? WEEKDAYS) {
+        const index = WEEKDAYS.indexOf(String(day).toLowerCase() as Weekday);
+        if (index === -1) {
+          throw new TimeWindowError(window, `unknown day "${day}". Use ${WEEKDAYS.join(', ')}.`);
+        }
+        days.add(index);
+      }
+
+      const start = parseTime(window, window.start);
+      const end = parseTime(window, window.end);
+      if (start === end) {
+        throw new TimeWindowError(window, 'start and end must differ.');
+      }
+
+      let format: Intl.DateTimeFormat | undefined;
+      if (window.timezone !== undefined) {
+        try {
+          format = new Intl.DateTimeFormat('en-US', {
+            timeZone: window.timezone,
+            weekday: 'short',
+            hour: '2-digit',
+            minute: '2-digit',
+            hourCycle: 'h23',
+          });
+        } catch {
+          throw new TimeWindowError(window, `unknown time zone "${window.timezone}".`);
+        }
+      }
+      return { window, days, start, end, format };
+    });
+  }
+
+  /**
+   * Checks whether any window is open.
+   * @param at - The time to check.
+   * @returns True if swiping is allowed at that time.
+   */
+  isOpen(at: Date): boolean {
+    return this.windows.some((window) => {
+      const { day, minutes } = this.localTime(window, at);
+      if (window.start < window.end) {
+        return window.days.has(day) && minutes >= window.start && minutes < window.end;
+      }
+      // Past midnight: the evening part belongs to today, the early morning part to yesterday
+      const yesterday = (day + 6) % 7;
+      return (window.days.has(day) && minutes >= window.start) || (window.days.has(yesterday) && minutes < window.end);
+    });
+  }
+
+  /**
+   * Describes the windows for the logs.
+   * @returns A summary such as "mon/tue 18:00-23:00 (Europe/Berlin)".
+   */
+  describe(): string {
+    return this.windows
+      .map(({ window }) => {
+        const days = window.days ? window.days.join('/') : 'every day';
+        return `${days} ${window.start}-${window.end}${window.timezone ? ` (${window.timezone})` : ''}`;
+      })
+      .join('; ');
+  }
+
+  /**
+   * Gets the day of the week and the time of day in a window's time zone.
+   * @param window - The window.
+   * @param at - The moment.
+   * @returns The day (0 is Sunday) and the minutes since midnight.
+   */
+  private localTime(window: ParsedWindow, at: Date): { day: number; minutes: number } {
+    if (!window.format) {
+      return { day: at.getDay(), minutes: at.getHours() * 60 + at.getMinutes() };
+    }
+    const parts = Object.fromEntries(window.format.formatToParts(at).map(({ type, value }) => [type, value]));
+    return {
+      day: WEEKDAYS.indexOf(parts.weekday.toLowerCase() as Weekday),
+      minutes: Number(parts.hour) * 60 + Number(parts.minute),
+    };
+  }
+}
@@ -0,0 +1,166 @@
+import { PassThrough } from 'stream';
+import { ReadStream } from 'tty';
+import { AssistRequest, formatProfile, PromptQueue, TerminalAssistant } from '../src/assist';
+
+describe('PromptQueue', () => {
+  it('should run prompts one at a time in the order they were queued', async () => {
+    const queue = new PromptQueue();
+    const events: string[] = [];
+    let answerFirst: (answer: string) => void = () => undefined;
+
+    const first = queue.run(() => {
+      events.push('first asked');
+      return new Promise<string>((resolve) => {
+        answerFirst = resolve;
+      });
+    });
+    const second = queue.run(async () => {
+      events.push('second asked');
+      return 'second';
+    });
+
+    await new Promise(setImmediate);
+    expect(events).toEqual(['first asked']);
+
+    answerFirst('first');
+    await expect(Promise.all([first, second])).resolves.toEqual(['first', 'second']);
+    expect(events).toEqual(['first asked', 'second asked']);
+  });
+
+  it('should keep going after a prompt fails', async () => {
+    const queue = new PromptQueue();
+
+    await expect(queue.run(() => Promise.reject(new Error('closed')))).rejects.toThrow('closed');
+    await expect(queue.run(async () => 'next')).resolves.toBe('next');
+  });
+});
+
+describe('formatProfile', () => {
+  it('should summarize the fields that are known', () => {
+    expect(
+      formatProfile({ name: 'Alex', age: 29, distanceKm: 4.8, photoCount: 1, verified: true, matchPercentage: 92, bio: 'Hi' })
+    ).toBe('Alex, 29 | 4.8 km away | 1 photo | verified | 92% match\n  Bio: Hi');
+    expect(formatProfile({})).toBe('Unknown name');
+  });
+});
+
+describe('TerminalAssistant', () => {
+  let input: PassThrough;
+  let output: PassThrough;
+  let written: string;
+  let assistant: TerminalAssistant;
+  let interrupt: jest.Mock;
+
+  const request: AssistRequest = {
+    site: 'tinder',
+    swipeNumber: 3,
+    profile: { name: 'Sam' },
+    suggestion: { action: 'dislike', reason: 'filter rule "too far"' },
+    canSkip: false,
+  };
+
+  const press = async (...keys: string[]) => {
+    for (const key of keys) {
+      await new Promise(setImmediate);
+      input.write(key);
+    }
+  };
+
+  beforeEach(() => {
+    input = new PassThrough();
+    output = new PassThrough();
+    written = '';
+    output.on('data', (chunk: Buffer) => {
+      written += chunk.toString();
+    });
+    interrupt = jest.fn();
+    assistant = new TerminalAssistant(new PromptQueue(), input as unknown as ReadStream, output, interrupt);
+  });
+
+  it('should show the profile and suggestion and read the choice', async () => {
+    const choice = assistant.confirm(request);
+    await press('\n');
+
+    await expect(choice).resolves.toBe('accept');
+    expect(written).toContain('[tinder] Profile #3: Sam');
+    expect(written).toContain('Suggestion: dislike (filter rule "too far")');
+    expect(written).not.toContain('[s]kip');
+  });
+
+  it('should map keys to choices and ask again after an unknown key', async () => {
+    const like = assistant.confirm(request);
+    await press('x', 'L');
+
+    await expect(like).resolves.toBe('like');
+    expect(written).toContain('Unknown key "x".');
+
+    const quit = assistant.confirm(request);
+    await press('q');
+    await expect(quit).resolves.toBe('quit');
+  });
+
+  it('should pass Ctrl+C on as an interrupt for every site', async () => {
+    const choice = assistant.confirm(request);
+    await press('\u0003');
+
+    await expect(choice).resolves.toBe('quit');
+    expect(interrupt).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not show a waiting prompt once its session has stopped', async () => {
+    const stop = new AbortController();
+    const first = assistant.confirm(request);
+    const second = assistant.confirm({ ...request, site: 'okcupid', signal: stop.signal });
+    stop.abort();
+    await press('\n');
+
+    await expect(first).resolves.toBe('accept');
+    await expect(second).resolves.toBe('quit');
+    expect(written).not.toContain('[okcupid]');
+  });
+
+  it('should answer a prompt on screen with quit once its session stops', async () => {
+    const stop = new AbortController();
+    const choice = assistant.confirm({ ...request, signal: stop.signal });
+    await new Promise(setImmediate);
+    expect(written).toContain('[tinder] Profile #3: Sam');
+
+    stop.abort();
+
+    await expect(choice).resolves.toBe('quit');
+    expect(input.listenerCount('data')).toBe(0);
+    expect(input.isPaused()).toBe(true);
+  });
+
+  it('should restore raw mode when a terminal prompt is stopped', async () => {
+    const setRawMode = jest.fn();
+    Object.assign(input, { isTTY: true, setRawMode });
+    const stop = new AbortController();
+    const choice = assistant.confirm({ ...request, signal: stop.signal });
+    await new Promise(setImmediate);
+
+    stop.abort();
+
+    await expect(choice).resolves.toBe('quit');
+    expect(setRawMode.mock.calls).toEqual([[true], [false]]);
+  });
+
+  it('should answer quit when the input ends', async () => {
+    const choice = assistant.confirm(request);
+    await new Promise(setImmediate);
+    input.end();
+
+    await expect(choice).resolves.toBe('quit');
+    await expect(assistant.confirm(request)).resolves.toBe('quit');
+  });
+
+  it('should only accept skip on sites that can skip profiles', async () => {
+    const refused = assistant.confirm(request);
+    await press('s', 'p');
+    await expect(refused).resolves.toBe('pass');
+
+    const skipped = assistant.confirm({ ...request, canSkip: true });
+    await press('s');
+    await expect(skipped).resolves.toBe('skip');
+  });
+});
@@ -0,0 +1,108 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Config, UnsupportedSettingError } from '../src/config';
+import { createDecisionStrategy } from '../src/decisions';
+import { SiteCapabilities } from '../src/types';
+
+describe('Config', () => {
+  let dir: string;
+
+  const loadConfig = (contents: object): Config => {
+    const file = join(dir, 'config.json');
+    writeFileSync(file, JSON.stringify(contents));
+    return new Config(file);
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'swiper-config-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('filters', () => {
+    it('should check the site\'s own rules before the global ones', () => {
+      const config = loadConfig({
+        sites: {
+          global: { filters: [{ name: 'far', action: 'pass', when: 'fails', maxDistanceKm: 50 }] },
+          tinder: { enabled: true, filters: [{ name: 'verified', action: 'like', verifiedOnly: true }] },
+          okcupid: { enabled: true },
+        },
+      });
+
+      expect(config.getSiteConfig('tinder')!.filters!.map((rule) => rule.name)).toEqual(['verified', 'far']);
+      expect(config.getSiteConfig('okcupid')!.filters!.map((rule) => rule.name)).toEqual(['far']);
+    });
+  });
+
+  describe('validateSiteConfig', () => {
+    const capabilities: SiteCapabilities = {
+      swipeInput: 'buttons',
+      superLike: false,
+      matchDetection: true,
+      limitDetection: false,
+      matchPercentage: false,
+    };
+
+    it('should reject a super like ratio for a site without super likes', () => {
+      const config = loadConfig({ sites: { bumble: { enabled: true, superLikeRatio: 0.1 } } });
+      const siteConfig = config.getSiteConfig('bumble')!;
+
+      expect(() => config.validateSiteConfig(siteConfig, capabilities)).toThrow(UnsupportedSettingError);
+      expect(() => config.validateSiteConfig(siteConfig, capabilities)).toThrow(
+        'bumble does not support "superLikeRatio"'
+      );
+    });
+
+    it('should accept settings the site supports', () => {
+      const config = loadConfig({ sites: { tinder: { enabled: true, superLikeRatio: 0.1 }, bumble: { enabled: true } } });
+
+      expect(() => config.validateSiteConfig(config.getSiteConfig('tinder')!, { ...capabilities, superLike: true })).not.toThrow();
+      expect(() => config.validateSiteConfig(config.getSiteConfig('bumble')!, capabilities)).not.toThrow();
+    });
+
+    it('should reject a strategy that can decide on a super like for a site without super likes', () => {
+      const config = loadConfig({
+        sites: { bumble: { enabled: true, decisionStrategy: { name: 'scripted', options: { script: ['like', 'superlike'] } } } },
+      });
+      const siteConfig = config.getSiteConfig('bumble')!;
+      const strategy = createDecisionStrategy(siteConfig);
+
+      expect(() => config.validateSiteConfig(siteConfig, capabilities, strategy)).toThrow(
+        'bumble does not support "decisionStrategy": the site has no super likes, but the "scripted" strategy can decide on one.'
+      );
+      expect(() => config.validateSiteConfig(siteConfig, { ...capabilities, superLike: true }, strategy)).not.toThrow();
+    });
+
+    it('should accept a strategy that does not list its actions', () => {
+      const config = loadConfig({ sites: { bumble: { enabled: true } } });
+      const strategy = { name: 'plugin', decide: () => ({ action: 'superlike' as const }) };
+
+      expect(config.validateSiteConfig(config.getSiteConfig('bumble')!, capabilities, strategy)).toEqual([]);
+    });
+
+    it('should warn about match percentage conditions on sites that do not report one', () => {
+      const config = loadConfig({
+        sites: {
+          bumble: {
+            enabled: true,
+            filters: [
+              { name: 'compatible', action: 'like', minMatchPercentage: 90 },
+              { action: 'pass', maxDistanceKm: 50 },
+              { action: 'pass', when: 'fails', minMatchPercentage: 50 },
+            ],
+          },
+        },
+      });
+      const siteConfig = config.getSiteConfig('bumble')!;
+
+      expect(config.validateSiteConfig(siteConfig, capabilities)).toEqual([
+        'Filter rule "compatible" sets "minMatchPercentage", but bumble profiles never report a match percentage, so the condition is never counted.',
+        'Filter rule #3 sets "minMatchPercentage", but bumble profiles never report a match percentage, so the condition is never counted.',
+      ]);
+      expect(config.validateSiteConfig(siteConfig, { ...capabilities, matchPercentage: true })).toEqual([]);
+    });
+  });
+});
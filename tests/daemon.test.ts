@@ -0,0 +1,92 @@
+import { Daemon, ScheduledSite } from '../src/daemon';
+import { formatDateTime } from '../src/utils/helpers';
+import { SwiperStats } from '../src/swiper';
+import { CronSchedule } from '../src/utils/cron';
+import { Logger } from '../src/utils/logger';
+
+jest.mock('../src/utils/logger');
+
+describe('Daemon', () => {
+  let logger: jest.Mocked<Logger>;
+  let runSession: jest.Mock<Promise<SwiperStats>, [string]>;
+  let finishRun: (() => void)[];
+
+  const stats = { totalSwipes: 12, endReason: 'max-swipes' } as SwiperStats;
+  const sites: ScheduledSite[] = [
+    { name: 'tinder', schedule: new CronSchedule('0 * * * *') },
+    { name: 'okcupid', schedule: new CronSchedule('30 19 * * *') },
+  ];
+  const minutes = (count: number) => count * 60 * 1000;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date(2026, 9, 19, 18, 15) });
+    logger = new Logger() as jest.Mocked<Logger>;
+    finishRun = [];
+    runSession = jest.fn(
+      (_siteName: string) =>
+        new Promise<SwiperStats>((resolve) => {
+          finishRun.push(() => resolve(stats));
+        })
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should log when each site runs next and start the runs when they are due', async () => {
+    const daemon = new Daemon(sites, runSession, logger);
+    daemon.start();
+
+    expect(logger.info).toHaveBeenCalledWith('Next tinder run: 2026-10-19 19:00 (0 * * * *)');
+    expect(logger.info).toHaveBeenCalledWith('Next okcupid run: 2026-10-19 19:30 (30 19 * * *)');
+
+    await jest.advanceTimersByTimeAsync(minutes(45));
+    expect(runSession.mock.calls).toEqual([['tinder']]);
+    expect(daemon.isRunning('tinder')).toBe(true);
+    expect(logger.info).toHaveBeenCalledWith('Next tinder run: 2026-10-19 20:00 (0 * * * *)');
+
+    finishRun[0]();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(daemon.isRunning('tinder')).toBe(false);
+    expect(logger.success).toHaveBeenCalledWith('tinder run finished: 12 swipes (max-swipes).');
+
+    await jest.advanceTimersByTimeAsync(minutes(30));
+    expect(runSession.mock.calls).toEqual([['tinder'], ['okcupid']]);
+    finishRun[1]();
+    await daemon.stop();
+  });
+
+  it('should skip a run while the previous one for the site is still going', async () => {
+    const daemon = new Daemon([sites[0]], runSession, logger);
+    daemon.start();
+
+    await jest.advanceTimersByTimeAsync(minutes(45) + minutes(60));
+
+    expect(runSession).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenCalledWith('Skipping the 2026-10-19 20:00 tinder run: the previous one is still going.');
+
+    finishRun[0]();
+    await jest.advanceTimersByTimeAsync(minutes(60));
+    expect(runSession).toHaveBeenCalledTimes(2);
+    finishRun[1]();
+    await daemon.stop();
+  });
+
+  it('should keep going after a run fails, and stop scheduling once stopped', async () => {
+    runSession.mockRejectedValueOnce(new Error('Navigation timeout'));
+    const daemon = new Daemon([sites[0]], runSession, logger);
+    daemon.start();
+
+    await jest.advanceTimersByTimeAsync(minutes(45));
+    expect(logger.error).toHaveBeenCalledWith('tinder run failed: Navigation timeout');
+
+    await daemon.stop();
+    await jest.advanceTimersByTimeAsync(minutes(120));
+    expect(runSession).toHaveBeenCalledTimes(1);
+  });
+
+  it('should format dates in local time to the minute', () => {
+    expect(formatDateTime(new Date(2026, 0, 5, 7, 3, 59))).toBe('2026-01-05 07:03');
+  });
+});
@@ -0,0 +1,138 @@
+import {
+  AlternatingStrategy,
+  AlwaysLikeStrategy,
+  DecisionStrategy,
+  DecisionStrategyError,
+  LikeBudgetStrategy,
+  RandomRatioStrategy,
+  ScriptedStrategy,
+  SuperLikeUpgrade,
+} from '../../src/decisions';
+import { Rng } from '../../src/utils/random';
+
+describe('built-in decision strategies', () => {
+  let rng: Rng;
+  let randomSpy: jest.SpyInstance<number, []>;
+
+  const actions = (strategy: DecisionStrategy, count: number) =>
+    Array.from({ length: count }, (_, index) => strategy.decide({ swipeNumber: index + 1, profile: {} }).action);
+
+  beforeEach(() => {
+    rng = new Rng('test');
+    randomSpy = jest.spyOn(rng, 'next');
+  });
+
+  describe('RandomRatioStrategy', () => {
+    it('should like below the like ratio and dislike above it', () => {
+      randomSpy.mockReturnValueOnce(0.2).mockReturnValueOnce(0.8);
+
+      expect(actions(new RandomRatioStrategy(0.5, rng), 2)).toEqual(['like', 'dislike']);
+    });
+  });
+
+  describe('with the same seed', () => {
+    it('should make the same decisions', () => {
+      randomSpy.mockRestore();
+      const run = () => actions(new SuperLikeUpgrade(new RandomRatioStrategy(0.5, new Rng(42)), 0.3, undefined, new Rng(42)), 20);
+
+      expect(run()).toEqual(run());
+      expect(new Set(run())).toEqual(new Set(['like', 'dislike', 'superlike']));
+    });
+  });
+
+  describe('AlwaysLikeStrategy', () => {
+    it('should like every profile', () => {
+      expect(actions(new AlwaysLikeStrategy(), 3)).toEqual(['like', 'like', 'like']);
+    });
+  });
+
+  describe('AlternatingStrategy', () => {
+    it('should alternate starting with the configured action', () => {
+      expect(actions(new AlternatingStrategy(), 3)).toEqual(['like', 'dislike', 'like']);
+      expect(actions(new AlternatingStrategy('dislike'), 2)).toEqual(['dislike', 'like']);
+    });
+  });
+
+  describe('ScriptedStrategy', () => {
+    it('should play back the script and start over when it runs out', () => {
+      const strategy = new ScriptedStrategy(['like', 'superlike', 'dislike']);
+
+      expect(actions(strategy, 5)).toEqual(['like', 'superlike', 'dislike', 'like', 'superlike']);
+    });
+
+    it('should give the same decision when a swipe number is decided again', () => {
+      const strategy = new ScriptedStrategy(['like', 'dislike']);
+
+      expect(strategy.decide({ swipeNumber: 2, profile: {} })).toEqual(strategy.decide({ swipeNumber: 2, profile: {} }));
+    });
+
+    it('should reject an empty script or unknown actions', () => {
+      expect(() => new ScriptedStrategy([])).toThrow(DecisionStrategyError);
+      expect(() => new ScriptedStrategy(undefined)).toThrow('"script" must be a non-empty list of actions.');
+      expect(() => new ScriptedStrategy(['like', 'swipe-up'])).toThrow('unknown action "swipe-up"');
+    });
+
+    it('should list the actions in its script as its actions', () => {
+      expect(new ScriptedStrategy(['dislike', 'superlike', 'dislike']).actions).toEqual(['dislike', 'superlike']);
+    });
+  });
+
+  describe('LikeBudgetStrategy', () => {
+    it('should spread the likes left over the swipes left', () => {
+      randomSpy.mockReturnValue(0.3);
+      const strategy = new LikeBudgetStrategy(40, 0, 1, 100, rng);
+
+      const decision = strategy.decide({ swipeNumber: 1, profile: {}, pacing: { likesToday: 30, remainingSwipes: 20 } });
+
+      expect(decision).toEqual({
+        action: 'like',
+        likeRatio: 0.5,
+        reason: 'like ratio 0.50 (10 of 40 likes left, about 20 swipes to go)',
+      });
+    });
+
+    it('should keep the ratio within the configured bounds', () => {
+      randomSpy.mockReturnValue(0.99);
+      const strategy = new LikeBudgetStrategy(10, 0.1, 0.6, 100, rng);
+
+      expect(strategy.decide({ swipeNumber: 1, profile: {}, pacing: { likesToday: 0, remainingSwipes: 5 } }).likeRatio).toBe(0.6);
+      expect(strategy.decide({ swipeNumber: 2, profile: {}, pacing: { likesToday: 12, remainingSwipes: 5 } }).likeRatio).toBe(0.1);
+    });
+
+    it('should count its own likes when the decision has no pacing', () => {
+      randomSpy.mockReturnValue(0);
+      const strategy = new LikeBudgetStrategy(2, 0, 1, 4, rng);
+
+      expect(actions(strategy, 4)).toEqual(['like', 'like', 'dislike', 'dislike']);
+    });
+  });
+
+  describe('SuperLikeUpgrade', () => {
+    it('should upgrade likes to super likes until the session cap is used up', () => {
+      randomSpy.mockReturnValue(0.1);
+
+      expect(actions(new SuperLikeUpgrade(new AlwaysLikeStrategy(), 0.5, 2, rng), 3)).toEqual([
+        'superlike',
+        'superlike',
+        'like',
+      ]);
+    });
+
+    it('should only upgrade likes that win the super like roll', () => {
+      randomSpy.mockReturnValueOnce(0.6).mockReturnValueOnce(0.2);
+
+      expect(actions(new SuperLikeUpgrade(new AlwaysLikeStrategy(), 0.3, undefined, rng), 2)).toEqual(['like', 'superlike']);
+    });
+
+    it('should never turn a dislike into a super like', () => {
+      randomSpy.mockReturnValue(0);
+
+      expect(actions(new SuperLikeUpgrade(new AlternatingStrategy('dislike'), 1, undefined, rng), 2)).toEqual(['dislike', 'superlike']);
+    });
+
+    it('should add super likes to the actions of the strategy it upgrades', () => {
+      expect(new SuperLikeUpgrade(new AlwaysLikeStrategy(), 0.5).actions).toEqual(['like', 'superlike']);
+      expect(new SuperLikeUpgrade({ name: 'plugin', decide: () => ({ action: 'like' }) }, 0.5).actions).toBeUndefined();
+    });
+  });
+});
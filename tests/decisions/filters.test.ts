@@ -0,0 +1,68 @@
+import { AlwaysLikeStrategy, DecisionStrategyError, ProfileFilter, ScriptedStrategy } from '../../src/decisions';
+import { ProfileSnapshot, SwipeFilterRule } from '../../src/types';
+
+describe('ProfileFilter', () => {
+  const decide = (rules: SwipeFilterRule[], profile: ProfileSnapshot) =>
+    new ProfileFilter(new ScriptedStrategy(['superlike']), rules).decide({ swipeNumber: 1, profile });
+
+  it('should force the action of the first rule that fires and name it', () => {
+    const rules: SwipeFilterRule[] = [
+      { name: 'too young', action: 'pass', maxAge: 20 },
+      { action: 'like', minAge: 25, maxAge: 35, maxDistanceKm: 10 },
+    ];
+
+    expect(decide(rules, { age: 19 })).toEqual({ action: 'dislike', reason: 'filter rule "too young"' });
+    expect(decide(rules, { age: 30, distanceKm: 4.8 })).toEqual({ action: 'like', reason: 'filter rule #2' });
+  });
+
+  it('should leave profiles no rule fires for to the inner strategy', () => {
+    const decision = decide([{ action: 'like', minAge: 25, maxDistanceKm: 10 }], { age: 30, distanceKm: 40 });
+
+    expect(decision).toEqual({ action: 'superlike', reason: 'no filter rule fired, left to scripted' });
+  });
+
+  it('should check bio keywords without regard to case', () => {
+    const rules: SwipeFilterRule[] = [
+      { name: 'crypto', action: 'pass', bioIncludes: ['crypto', 'NFT'] },
+      { name: 'hikers', action: 'like', bioIncludes: ['hiking'], bioExcludes: ['smoker'] },
+    ];
+
+    expect(decide(rules, { bio: 'Into nfts and yoga' }).reason).toBe('filter rule "crypto"');
+    expect(decide(rules, { bio: 'Weekend Hiking trips' }).reason).toBe('filter rule "hikers"');
+    expect(decide(rules, { bio: 'Hiking, social smoker' }).action).toBe('superlike');
+  });
+
+  it('should check photos, the verified badge and the match percentage', () => {
+    const rule: SwipeFilterRule = { action: 'like', minPhotos: 3, verifiedOnly: true, minMatchPercentage: 90 };
+
+    expect(decide([rule], { photoCount: 4, verified: true, matchPercentage: 92 }).action).toBe('like');
+    expect(decide([rule], { photoCount: 4, verified: false, matchPercentage: 92 }).action).toBe('superlike');
+  });
+
+  it('should fire "fails" rules when any known condition does not hold', () => {
+    const rules: SwipeFilterRule[] = [{ name: 'outside range', action: 'pass', when: 'fails', maxDistanceKm: 50, verifiedOnly: true }];
+
+    expect(decide(rules, { distanceKm: 80 }).action).toBe('dislike');
+    expect(decide(rules, { distanceKm: 20, verified: true }).action).toBe('superlike');
+  });
+
+  it('should not fire on fields the profile does not report', () => {
+    const rules: SwipeFilterRule[] = [
+      { action: 'like', minMatchPercentage: 80 },
+      { action: 'pass', when: 'fails', minAge: 21 },
+    ];
+
+    expect(decide(rules, { name: 'Sam' }).action).toBe('superlike');
+  });
+
+  it('should reject invalid rules', () => {
+    const create = (rule: unknown) => () => new ProfileFilter(new AlwaysLikeStrategy(), [rule as SwipeFilterRule]);
+
+    expect(create({ action: 'swipe-up', minAge: 20 })).toThrow(DecisionStrategyError);
+    expect(create({ action: 'like', minAge: 20 })).not.toThrow();
+    expect(create({ name: 'empty', action: 'like' })).toThrow('rule "empty" has no conditions.');
+    expect(create({ action: 'pass', maxAge: '30' })).toThrow('rule #1 has a non-numeric "maxAge".');
+    expect(create({ action: 'pass', bioIncludes: 'crypto' })).toThrow('must set "bioIncludes" to a list of keywords.');
+    expect(create({ action: 'pass', when: 'always', minAge: 20 })).toThrow('must set "when" to "matches" or "fails".');
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  createDecisionStrategy,
+  DecisionStrategyError,
+  StrategyRegistry,
+  strategyRegistry,
+  SuperLikeUpgrade,
+} from '../../src/decisions';
+import { SiteConfig } from '../../src/types';
+
+describe('createDecisionStrategy', () => {
+  let config: SiteConfig;
+
+  beforeEach(() => {
+    config = {
+      name: 'tinder',
+      enabled: true,
+      likeRatio: 0.8,
+      swipeDelay: { min: 0, max: 0 },
+      maxSwipesPerSession: 10,
+    };
+  });
+
+  it('should have the built-in strategies in the default registry', () => {
+    expect(strategyRegistry.getNames()).toEqual(['random-ratio', 'always-like', 'alternating', 'scripted', 'like-budget']);
+  });
+
+  it('should default to random-ratio', () => {
+    expect(createDecisionStrategy(config).name).toBe('random-ratio');
+  });
+
+  it('should accept a strategy name or a name with options', () => {
+    config.decisionStrategy = 'always-like';
+    expect(createDecisionStrategy(config).decide({ swipeNumber: 1, profile: {} })).toEqual({ action: 'like' });
+
+    config.decisionStrategy = { name: 'scripted', options: { script: ['dislike', 'like'] } };
+    expect(createDecisionStrategy(config).decide({ swipeNumber: 1, profile: {} })).toEqual({ action: 'dislike' });
+  });
+
+  it('should wrap the strategy when super likes are configured', () => {
+    config.superLikeRatio = 0.2;
+
+    const strategy = createDecisionStrategy(config);
+
+    expect(strategy).toBeInstanceOf(SuperLikeUpgrade);
+    expect(strategy.name).toBe('random-ratio');
+  });
+
+  it('should check filter rules before the strategy', () => {
+    config.decisionStrategy = 'always-like';
+    config.filters = [{ name: 'unverified', action: 'pass', when: 'fails', verifiedOnly: true }];
+
+    const strategy = createDecisionStrategy(config);
+
+    expect(strategy.decide({ swipeNumber: 1, profile: { verified: false } })).toEqual({
+      action: 'dislike',
+      reason: 'filter rule "unverified"',
+    });
+    expect(strategy.decide({ swipeNumber: 2, profile: { verified: true } }).action).toBe('like');
+  });
+
+  it('should reject unknown strategies and invalid options', () => {
+    config.decisionStrategy = 'mind-reader';
+    expect(() => createDecisionStrategy(config)).toThrow(DecisionStrategyError);
+    expect(() => createDecisionStrategy(config)).toThrow('not registered. Registered strategies: random-ratio');
+
+    config.decisionStrategy = { name: 'alternating', options: { first: 'superlike' } };
+    expect(() => createDecisionStrategy(config)).toThrow('"first" must be "like" or "dislike".');
+  });
+
+  it('should aim like-budget at maxLikesPerDay unless options.likes is set', () => {
+    config.decisionStrategy = 'like-budget';
+    expect(() => createDecisionStrategy(config)).toThrow('"likes" must be a positive number, or set maxLikesPerDay.');
+
+    config.maxLikesPerDay = 5;
+    const pacing = { likesToday: 0, remainingSwipes: 10 };
+    expect(createDecisionStrategy(config).decide({ swipeNumber: 1, profile: {}, pacing }).likeRatio).toBe(0.5);
+
+    config.decisionStrategy = { name: 'like-budget', options: { likes: 2, minRatio: 0.3 } };
+    expect(createDecisionStrategy(config).decide({ swipeNumber: 1, profile: {}, pacing }).likeRatio).toBe(0.3);
+
+    config.decisionStrategy = { name: 'like-budget', options: { minRatio: 0.8, maxRatio: 0.5 } };
+    expect(() => createDecisionStrategy(config)).toThrow('"minRatio" and "maxRatio" must satisfy');
+  });
+
+  it('should create custom strategies from the given registry', () => {
+    const registry = new StrategyRegistry();
+    registry.register({ name: 'Never-Like', factory: () => ({ name: 'never-like', decide: () => ({ action: 'dislike' }) }) });
+    config.decisionStrategy = 'never-like';
+
+    expect(createDecisionStrategy(config, registry).decide({ swipeNumber: 1, profile: {} })).toEqual({ action: 'dislike' });
+    expect(() => registry.register({ name: 'never-like', factory: jest.fn() })).toThrow('already registered');
+  });
+});
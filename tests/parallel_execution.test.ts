@@ -3,6 +3,7 @@ import { SwiperStats } from "../src/swiper";
 // Define stable mock objects outside the mocks
 const mockMainLogger = {
   info: jest.fn(),
+  warn: jest.fn(),
   error: jest.fn(),
   success: jest.fn(),
   debug: jest.fn(),
@@ -15,6 +16,10 @@ const mockConfigInstance = {
   getAllSites: jest.fn(),
   getSiteConfigs: jest.fn(),
   getSiteConfig: jest.fn(),
+  getPlugins: jest.fn(),
+  getSeed: jest.fn(),
+  getRateBudget: jest.fn(),
+  validateSiteConfig: jest.fn().mockReturnValue([]),
   config: { sites: {} },
 };
 
@@ -24,14 +29,28 @@ const mockMainBrowserManagerInstance = {
   close: jest.fn(),
   getContext: jest.fn(),
   getStorageState: jest.fn(),
+  saveStorageState: jest.fn(),
 };
 
 const mockTinderSwiper = {
   run: jest.fn(),
+  getStats: jest.fn(),
+  stop: jest.fn(),
+  isStopRequested: jest.fn(),
+  waitBeforeRestart: jest.fn(),
 };
 
 const mockOkCupidSwiper = {
   run: jest.fn(),
+  getStats: jest.fn(),
+  stop: jest.fn(),
+  isStopRequested: jest.fn(),
+  waitBeforeRestart: jest.fn(),
+};
+
+const mockDaemonInstance = {
+  start: jest.fn(),
+  stop: jest.fn(),
 };
 
 const createdSiteLoggers: any[] = [];
@@ -39,6 +58,7 @@ const createdSiteLoggers: any[] = [];
 // Mock modules using factory functions that return the stable mocks
 jest.mock("../src/config", () => ({
   Config: jest.fn().mockImplementation(() => mockConfigInstance),
+  UnsupportedSettingError: jest.requireActual("../src/config").UnsupportedSettingError,
 }));
 
 jest.mock("../src/utils/browser", () => ({
@@ -54,6 +74,16 @@ jest.mock("../src/utils/rateLimiter", () => ({
   RateLimiter: jest.fn(),
 }));
 
+jest.mock("../src/utils/stateStore", () => ({
+  StateStore: Object.assign(jest.fn().mockImplementation(() => ({ getPath: jest.fn() })), {
+    pathFor: jest.fn().mockReturnValue("swiper-state.json"),
+  }),
+}));
+
+jest.mock("../src/daemon", () => ({
+  Daemon: jest.fn().mockImplementation(() => mockDaemonInstance),
+}));
+
 jest.mock("../src/swiper", () => ({
   Swiper: jest.fn().mockImplementation((_context, _siteModule, _rateLimiter, _logger, config) => {
     if (config.name === "tinder") return mockTinderSwiper;
@@ -62,18 +92,39 @@ jest.mock("../src/swiper", () => ({
   }),
 }));
 
+const mockSiteModule = () => ({ getCapabilities: jest.fn().mockReturnValue({}) });
+
 jest.mock("../src/sites/tinder", () => ({
-  TinderSite: jest.fn(),
+  TinderSite: jest.fn().mockImplementation(mockSiteModule),
 }));
 
 jest.mock("../src/sites/okcupid", () => ({
-  OkCupidSite: jest.fn(),
+  OkCupidSite: jest.fn().mockImplementation(mockSiteModule),
+}));
+
+jest.mock("../src/sites/bumble", () => ({
+  BumbleSite: jest.fn().mockImplementation(mockSiteModule),
 }));
 
 const originalConsoleError = console.error;
 
+const statsWith = (totalSwipes: number, endReason: SwiperStats["endReason"]): SwiperStats => ({
+  totalSwipes,
+  likes: totalSwipes - 1,
+  superLikes: 0,
+  dislikes: 1,
+  matches: 1,
+  errors: 0,
+  errorsByKind: {},
+  popups: {},
+  endReason,
+  dryRun: false,
+});
+
 describe("Parallel Execution CLI", () => {
   let mainAction: any;
+  let daemonAction: any;
+  let listSitesAction: any;
   let ProcessExitError: any;
 
   beforeEach(() => {
@@ -84,6 +135,7 @@ describe("Parallel Execution CLI", () => {
     mockMainLogger.withPrefix.mockImplementation((_prefix: string) => {
       const siteLogger = {
         info: jest.fn(),
+        warn: jest.fn(),
         error: jest.fn(),
         success: jest.fn(),
         debug: jest.fn(),
@@ -95,6 +147,9 @@ describe("Parallel Execution CLI", () => {
 
     mockConfigInstance.getBrowserConfig.mockReturnValue({ headless: true, profilePath: "./browser-profile" });
     mockConfigInstance.getAllSites.mockReturnValue(["tinder", "okcupid"]);
+    mockConfigInstance.getPlugins.mockReturnValue([]);
+    mockConfigInstance.getSeed.mockReturnValue(undefined);
+    mockConfigInstance.getRateBudget.mockReturnValue(undefined);
     mockConfigInstance.getSiteConfigs.mockImplementation((siteNames: string[]) => {
       return siteNames.map(name => ({
         name,
@@ -115,6 +170,11 @@ describe("Parallel Execution CLI", () => {
 
     mockTinderSwiper.run.mockResolvedValue({ totalSwipes: 10 } as SwiperStats);
     mockOkCupidSwiper.run.mockResolvedValue({ totalSwipes: 5 } as SwiperStats);
+    mockTinderSwiper.getStats.mockReturnValue(statsWith(10, "max-swipes"));
+    mockOkCupidSwiper.getStats.mockReturnValue(statsWith(5, "out-of-profiles"));
+    mockTinderSwiper.isStopRequested.mockReturnValue(false);
+    mockTinderSwiper.waitBeforeRestart.mockResolvedValue(undefined);
+    mockOkCupidSwiper.isStopRequested.mockReturnValue(false);
 
     console.error = jest.fn();
 
@@ -122,6 +182,8 @@ describe("Parallel Execution CLI", () => {
     // eslint-disable-next-line @typescript-eslint/no-require-imports
     const indexModule = require("../src/index");
     mainAction = indexModule.mainAction;
+    daemonAction = indexModule.daemonAction;
+    listSitesAction = indexModule.listSitesAction;
     ProcessExitError = indexModule.ProcessExitError;
   });
 
@@ -147,6 +209,147 @@ describe("Parallel Execution CLI", () => {
     expect(mockMainLogger.success).toHaveBeenCalledWith("All swiping sessions completed!");
   });
 
+  it("should give each site its own generators derived from the seed", async () => {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { RateLimiter } = require("../src/utils/rateLimiter");
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { TinderSite } = require("../src/sites/tinder");
+    mockConfigInstance.getSeed.mockReturnValue(7);
+
+    await expect(mainAction({ site: ["tinder", "okcupid"], debug: false, headless: true, seed: "42" })).rejects.toThrow(
+      ProcessExitError
+    );
+
+    expect(mockMainLogger.info).toHaveBeenCalledWith("Random seed: 42 (pass --seed 42 to reproduce this run)");
+    expect(TinderSite.mock.calls[0][2].seed).toBe("42/tinder/site");
+    expect(RateLimiter.mock.calls.map((call: any[]) => call[2].seed)).toEqual(["42/tinder/pacing", "42/okcupid/pacing"]);
+  });
+
+  it("should pace all sites against one shared rate budget when one is configured", async () => {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { RateLimiter } = require("../src/utils/rateLimiter");
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { GlobalRateBudget } = require("../src/utils/rateBudget");
+    mockConfigInstance.getRateBudget.mockReturnValue({ maxActionsPerMinute: 30, maxConcurrentPages: 1 });
+
+    await expect(mainAction({ site: ["tinder", "okcupid"], debug: false, headless: true })).rejects.toThrow(
+      ProcessExitError
+    );
+
+    const [tinderBudget, okcupidBudget] = RateLimiter.mock.calls.map((call: any[]) => call[4]);
+    expect(tinderBudget).toBeInstanceOf(GlobalRateBudget);
+    expect(okcupidBudget).toBe(tinderBudget);
+  });
+
+  it("should restart a failed site session on its own, up to maxRestarts", async () => {
+    mockConfigInstance.getSiteConfigs.mockImplementation((siteNames: string[]) =>
+      siteNames.map((name) => ({
+        name,
+        enabled: true,
+        likeRatio: 0.8,
+        swipeDelay: { min: 1000, max: 2000 },
+        maxSwipesPerSession: 100,
+        maxRestarts: 2,
+        restartBackoff: { initialSeconds: 0 },
+      }))
+    );
+    mockTinderSwiper.run.mockRejectedValueOnce(new Error("Navigation timeout")).mockResolvedValue({ totalSwipes: 100 });
+    mockTinderSwiper.getStats.mockReturnValue({ totalSwipes: 40 });
+
+    await expect(mainAction({ site: ["tinder", "okcupid"], debug: false, headless: true })).rejects.toThrow(
+      ProcessExitError
+    );
+
+    expect(mockTinderSwiper.run).toHaveBeenCalledTimes(2);
+    expect(mockOkCupidSwiper.run).toHaveBeenCalledTimes(1);
+    expect(createdSiteLoggers[0].warn).toHaveBeenCalledWith(
+      "Restarting the session in 0s (restart 1 of 2, 60 swipes left)..."
+    );
+    expect(mockMainLogger.error).not.toHaveBeenCalledWith(expect.stringContaining("A site failed"));
+  });
+
+  it("should print each site's statistics and the totals", async () => {
+    await expect(mainAction({ site: ["tinder", "okcupid"], debug: false, headless: true })).rejects.toThrow(
+      ProcessExitError
+    );
+
+    expect(mockMainLogger.info).toHaveBeenCalledWith("=== Combined Statistics ===");
+    expect(mockMainLogger.info).toHaveBeenCalledWith(
+      "tinder: 10 swipes (9 likes, 0 super likes, 1 dislikes), 1 matches, 0 errors, ended: max-swipes"
+    );
+    expect(mockMainLogger.info).toHaveBeenCalledWith(
+      "Total: 15 swipes (13 likes, 0 super likes, 2 dislikes), 2 matches, 0 errors"
+    );
+  });
+
+  it("should stop every session on the first Ctrl+C and exit at once on the second", async () => {
+    let finishTinder: (stats: SwiperStats) => void = () => undefined;
+    mockTinderSwiper.run.mockReturnValue(new Promise<SwiperStats>((resolve) => (finishTinder = resolve)));
+    const exit = jest.spyOn(process, "exit").mockImplementation((() => undefined) as never);
+    const listenersBefore = process.listenerCount("SIGINT");
+
+    try {
+      const running = mainAction({ site: ["tinder", "okcupid"], debug: false, headless: true });
+      await new Promise((resolve) => setImmediate(resolve));
+
+      process.emit("SIGINT");
+      expect(mockTinderSwiper.stop).toHaveBeenCalledTimes(1);
+      expect(mockOkCupidSwiper.stop).toHaveBeenCalledTimes(1);
+      expect(mockMainBrowserManagerInstance.close).not.toHaveBeenCalled();
+      expect(exit).not.toHaveBeenCalled();
+
+      process.emit("SIGINT");
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(mockMainBrowserManagerInstance.saveStorageState).toHaveBeenCalledTimes(1);
+      expect(exit).toHaveBeenCalledWith(1);
+
+      // Had the process not exited, the sessions would wind down and print their statistics
+      finishTinder(statsWith(3, "stopped"));
+      await expect(running).rejects.toThrow(ProcessExitError);
+      expect(mockMainLogger.info).toHaveBeenCalledWith("=== Combined Statistics ===");
+      expect(mockMainBrowserManagerInstance.close).toHaveBeenCalledTimes(1);
+      expect(process.listenerCount("SIGINT")).toBe(listenersBefore);
+    } finally {
+      exit.mockRestore();
+    }
+  });
+
+  it("should pass the dry run flag to every session", async () => {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { Swiper } = require("../src/swiper");
+
+    await expect(mainAction({ site: ["tinder", "okcupid"], debug: false, headless: true, dryRun: true })).rejects.toThrow(
+      ProcessExitError
+    );
+
+    expect(mockMainLogger.warn).toHaveBeenCalledWith("Dry run: decisions are logged, but no likes or passes are sent.");
+    expect(Swiper.mock.calls.map((call: any[]) => call[6])).toEqual([{ dryRun: true }, { dryRun: true }]);
+  });
+
+  it("should share one assistant between all sites in assisted mode", async () => {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { Swiper } = require("../src/swiper");
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { TerminalAssistant } = require("../src/assist");
+
+    await expect(mainAction({ site: ["tinder", "okcupid"], debug: false, headless: true, assist: true })).rejects.toThrow(
+      ProcessExitError
+    );
+
+    const [tinderAssistant, okcupidAssistant] = Swiper.mock.calls.map((call: any[]) => call[6].assistant);
+    expect(tinderAssistant).toBeInstanceOf(TerminalAssistant);
+    expect(okcupidAssistant).toBe(tinderAssistant);
+  });
+
+  it("should refuse to combine a dry run with assisted mode", async () => {
+    await expect(
+      mainAction({ site: ["tinder"], debug: false, headless: true, dryRun: true, assist: true })
+    ).rejects.toMatchObject({ code: 1 });
+
+    expect(mockMainLogger.error).toHaveBeenCalledWith("--dry-run and --assist cannot be used together.");
+    expect(mockMainBrowserManagerInstance.initialize).not.toHaveBeenCalled();
+  });
+
   it("should run all enabled sites when 'all' keyword is used", async () => {
     try {
       await mainAction({ site: ["all"], debug: false, headless: true });
@@ -177,10 +380,80 @@ describe("Parallel Execution CLI", () => {
       expect(e.code).toBe(0);
     }
 
-    expect(createdSiteLoggers[1].error).toHaveBeenCalledWith("Unsupported site: unsupported");
+    expect(createdSiteLoggers[1].error).toHaveBeenCalledWith(
+      "Unsupported site: unsupported. Registered sites: tinder, okcupid, bumble"
+    );
+    expect(mockTinderSwiper.run).toHaveBeenCalledTimes(1);
+  });
+
+  it("should skip a site whose settings it cannot honor", async () => {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { UnsupportedSettingError } = require("../src/config");
+    mockConfigInstance.validateSiteConfig.mockImplementation((siteConfig: { name: string }) => {
+      if (siteConfig.name === "okcupid") {
+        throw new UnsupportedSettingError("okcupid", "superLikeRatio", "the site has no super likes.");
+      }
+      return [];
+    });
+
+    try {
+      await mainAction({ site: ["tinder", "okcupid"], debug: false, headless: true });
+      throw new Error('Should have thrown ProcessExitError');
+    } catch (e: any) {
+      if (!(e instanceof ProcessExitError)) throw e;
+      expect(e.code).toBe(0);
+    }
+
+    expect(createdSiteLoggers[1].error).toHaveBeenCalledWith(
+      'okcupid does not support "superLikeRatio": the site has no super likes.'
+    );
+    expect(mockTinderSwiper.run).toHaveBeenCalledTimes(1);
+    expect(mockOkCupidSwiper.run).not.toHaveBeenCalled();
+  });
+
+  it("should log the warnings about a site's settings", async () => {
+    mockConfigInstance.validateSiteConfig.mockReturnValueOnce(["Filter rule #1 is never counted."]);
+
+    await expect(mainAction({ site: ["tinder"], debug: false, headless: true })).rejects.toThrow(ProcessExitError);
+
+    expect(mockConfigInstance.validateSiteConfig).toHaveBeenCalledWith(
+      expect.objectContaining({ name: "tinder" }),
+      {},
+      expect.objectContaining({ name: expect.any(String) })
+    );
+    expect(createdSiteLoggers[0].warn).toHaveBeenCalledWith("Filter rule #1 is never counted.");
     expect(mockTinderSwiper.run).toHaveBeenCalledTimes(1);
   });
 
+  it("should exit with error before launching the browser if no site is registered", async () => {
+    try {
+      await mainAction({ site: ["unsupported"], debug: false, headless: true });
+      throw new Error('Should have thrown ProcessExitError');
+    } catch (e: any) {
+      if (!(e instanceof ProcessExitError)) throw e;
+      expect(e.code).toBe(1);
+    }
+
+    expect(mockMainLogger.error).toHaveBeenCalledWith("None of the specified sites can run with this configuration.");
+    expect(mockMainBrowserManagerInstance.initialize).not.toHaveBeenCalled();
+  });
+
+  it("should exit with error before launching the browser if no site's settings can be honored", async () => {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const { UnsupportedSettingError } = require("../src/config");
+    mockConfigInstance.validateSiteConfig.mockImplementationOnce(() => {
+      throw new UnsupportedSettingError("okcupid", "superLikeRatio", "the site has no super likes.");
+    });
+
+    await expect(mainAction({ site: ["okcupid"], debug: false, headless: true })).rejects.toThrow(ProcessExitError);
+
+    expect(createdSiteLoggers[0].error).toHaveBeenCalledWith(
+      'okcupid does not support "superLikeRatio": the site has no super likes.'
+    );
+    expect(mockMainLogger.error).toHaveBeenCalledWith("None of the specified sites can run with this configuration.");
+    expect(mockMainBrowserManagerInstance.initialize).not.toHaveBeenCalled();
+  });
+
   it("should exit with error if no sites are enabled for 'all' keyword", async () => {
     mockConfigInstance.getAllSites.mockReturnValue([]);
     try {
@@ -221,4 +494,54 @@ describe("Parallel Execution CLI", () => {
 
     expect(console.error).toHaveBeenCalledWith("Fatal error:", expect.any(Error));
   });
+
+  describe("sites", () => {
+    it("should exit with error when a plugin cannot be loaded", () => {
+      mockConfigInstance.getPlugins.mockReturnValue(["./missing-plugin"]);
+
+      try {
+        listSitesAction({});
+        throw new Error('Should have thrown ProcessExitError');
+      } catch (e: any) {
+        if (!(e instanceof ProcessExitError)) throw e;
+        expect(e.code).toBe(1);
+      }
+
+      expect(mockMainLogger.error).toHaveBeenCalledWith(expect.stringContaining('Could not load plugin "./missing-plugin"'));
+    });
+  });
+
+  describe("daemon", () => {
+    it("should schedule the enabled sites that have a schedule", async () => {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const { Daemon } = require("../src/daemon");
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const { CronSchedule } = require("../src/utils/cron");
+      const siteConfigs = mockConfigInstance.getSiteConfigs.getMockImplementation()!;
+      mockConfigInstance.getSiteConfigs.mockImplementation((siteNames: string[]) =>
+        siteConfigs(siteNames).map((siteConfig: any) =>
+          siteConfig.name === "tinder" ? { ...siteConfig, schedule: "0 19 * * *" } : siteConfig
+        )
+      );
+
+      await daemonAction({ debug: false, headless: true });
+
+      expect(Daemon).toHaveBeenCalledWith([{ name: "tinder", schedule: expect.any(CronSchedule) }], expect.any(Function), mockMainLogger);
+      expect(mockDaemonInstance.start).toHaveBeenCalledTimes(1);
+      expect(mockMainBrowserManagerInstance.initialize).toHaveBeenCalledTimes(1);
+      expect(createdSiteLoggers[1].info).toHaveBeenCalledWith("No schedule set, so the daemon does not run this site.");
+    });
+
+    it("should exit with an error when no site has a usable schedule", async () => {
+      const siteConfigs = mockConfigInstance.getSiteConfigs.getMockImplementation()!;
+      mockConfigInstance.getSiteConfigs.mockImplementation((siteNames: string[]) =>
+        siteConfigs(siteNames).map((siteConfig: any) => ({ ...siteConfig, schedule: "every evening" }))
+      );
+
+      await expect(daemonAction({ debug: false, headless: true })).rejects.toMatchObject({ code: 1 });
+
+      expect(createdSiteLoggers[0].error).toHaveBeenCalledWith('Invalid schedule "every evening": expected 5 fields, found 2.');
+      expect(mockMainBrowserManagerInstance.initialize).not.toHaveBeenCalled();
+    });
+  });
 });
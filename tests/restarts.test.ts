@@ -0,0 +1,154 @@
+import { isPermanentFailure, restartDelay, runWithRestarts, RestartableSession } from '../src/restarts';
+import { SessionError } from '../src/session';
+import { SwiperStats } from '../src/swiper';
+import { SiteConfig } from '../src/types';
+import { Logger } from '../src/utils/logger';
+import { RateLimiter } from '../src/utils/rateLimiter';
+
+jest.mock('../src/utils/logger');
+
+describe('restarts', () => {
+  const stats = (totalSwipes: number): SwiperStats => ({
+    totalSwipes,
+    likes: totalSwipes,
+    superLikes: 0,
+    dislikes: 0,
+    matches: 0,
+    errors: 0,
+    errorsByKind: {},
+    popups: {},
+    dryRun: false,
+  });
+
+  let logger: jest.Mocked<Logger>;
+  let config: SiteConfig;
+
+  beforeEach(() => {
+    logger = new Logger() as jest.Mocked<Logger>;
+    config = {
+      name: 'tinder',
+      enabled: true,
+      likeRatio: 1,
+      swipeDelay: { min: 0, max: 0 },
+      maxSwipesPerSession: 10,
+      maxRestarts: 3,
+    };
+  });
+
+  const sessionFailing = (...errors: Error[]): jest.Mocked<RestartableSession> => {
+    const run = jest.fn<Promise<SwiperStats>, []>();
+    for (const error of errors) {
+      run.mockRejectedValueOnce(error);
+    }
+    run.mockResolvedValue(stats(10));
+    return {
+      run,
+      getStats: jest.fn().mockReturnValue(stats(4)),
+      isStopRequested: jest.fn().mockReturnValue(false),
+      waitBeforeRestart: jest.fn().mockResolvedValue(undefined),
+    };
+  };
+
+  describe('restartDelay', () => {
+    it('should double the wait from 30 seconds up to 10 minutes by default', () => {
+      expect([1, 2, 3, 5, 6, 10].map((restart) => restartDelay(restart))).toEqual([
+        30000, 60000, 120000, 480000, 600000, 600000,
+      ]);
+    });
+
+    it('should use the site\'s backoff settings', () => {
+      const backoff = { initialSeconds: 5, multiplier: 3, maxSeconds: 60 };
+      expect([1, 2, 3, 4].map((restart) => restartDelay(restart, backoff))).toEqual([5000, 15000, 45000, 60000]);
+    });
+  });
+
+  describe('isPermanentFailure', () => {
+    it('should not restart sessions that ended waiting for a login', () => {
+      expect(isPermanentFailure(new SessionError('Login timeout.', 'login-timeout', 'awaiting-login'))).toBe(true);
+    });
+
+    it('should restart other failures', () => {
+      expect(isPermanentFailure(new SessionError('Stuck.', 'recovery-failed', 'recovering'))).toBe(false);
+      expect(isPermanentFailure(new Error('Navigation timeout of 30000 ms exceeded'))).toBe(false);
+    });
+  });
+
+  describe('runWithRestarts', () => {
+    it('should restart a failed session with a growing wait', async () => {
+      const session = sessionFailing(new Error('Navigation timeout'), new Error('Navigation timeout'));
+
+      const result = await runWithRestarts(session, config, logger);
+
+      expect(result.totalSwipes).toBe(10);
+      expect(session.run).toHaveBeenCalledTimes(3);
+      expect(session.waitBeforeRestart.mock.calls).toEqual([[30000], [60000]]);
+      expect(logger.warn).toHaveBeenCalledWith('Restarting the session in 30s (restart 1 of 3, 6 swipes left)...');
+    });
+
+    it('should give up once maxRestarts is used up', async () => {
+      const error = new Error('Navigation timeout');
+      const session = sessionFailing(error, error, error, error);
+
+      await expect(runWithRestarts(session, config, logger)).rejects.toBe(error);
+      expect(session.run).toHaveBeenCalledTimes(4);
+      expect(session.waitBeforeRestart).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not restart without maxRestarts', async () => {
+      delete config.maxRestarts;
+      const session = sessionFailing(new Error('Navigation timeout'));
+
+      await expect(runWithRestarts(session, config, logger)).rejects.toThrow('Navigation timeout');
+      expect(session.run).toHaveBeenCalledTimes(1);
+      expect(session.waitBeforeRestart).not.toHaveBeenCalled();
+    });
+
+    it('should not restart a session that was asked to stop', async () => {
+      const session = sessionFailing(new Error('Navigation timeout'));
+      session.isStopRequested.mockReturnValue(true);
+
+      await expect(runWithRestarts(session, config, logger)).rejects.toThrow('Navigation timeout');
+      expect(session.run).toHaveBeenCalledTimes(1);
+      expect(session.waitBeforeRestart).not.toHaveBeenCalled();
+    });
+
+    it('should not restart a session that was asked to stop during the wait', async () => {
+      const session = sessionFailing(new Error('Navigation timeout'));
+      session.waitBeforeRestart.mockImplementation(async () => {
+        session.isStopRequested.mockReturnValue(true);
+      });
+
+      await expect(runWithRestarts(session, config, logger)).rejects.toThrow('Navigation timeout');
+      expect(session.waitBeforeRestart).toHaveBeenCalledTimes(1);
+      expect(session.run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cut the backoff short when the session is stopped', async () => {
+      const rateLimiter = new RateLimiter(config, logger);
+      let stopped = false;
+      const session: RestartableSession = {
+        run: jest.fn().mockRejectedValue(new Error('Navigation timeout')),
+        getStats: () => stats(4),
+        isStopRequested: () => stopped,
+        waitBeforeRestart: (ms) => rateLimiter.waitBeforeRestart(ms),
+      };
+
+      const running = runWithRestarts(session, config, logger);
+      await new Promise((resolve) => setImmediate(resolve));
+      stopped = true;
+      rateLimiter.cancelWaits();
+
+      // Without the cancel this would wait the full 30 seconds and time the test out
+      await expect(running).rejects.toThrow('Navigation timeout');
+      expect(session.run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not restart a session that cannot be recovered', async () => {
+      const session = sessionFailing(new SessionError('Login timeout.', 'login-timeout', 'awaiting-login'));
+
+      await expect(runWithRestarts(session, config, logger)).rejects.toThrow('Login timeout.');
+      expect(session.run).toHaveBeenCalledTimes(1);
+      expect(logger.warn).toHaveBeenCalledWith('Not restarting: the session ended with login-timeout.');
+    });
+  });
+});
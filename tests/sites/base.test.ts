@@ -1,6 +1,7 @@
-import { Page } from 'playwright';
+import { Locator, Page } from 'playwright';
 import { BaseSite } from '../../src/sites/base';
-import { SiteConfig } from '../../src/types';
+import { PopupRule } from '../../src/sites/popupEngine';
+import { SiteCapabilities, SiteConfig, SwipeAction, SwipeOutcome } from '../../src/types';
 import { Logger } from '../../src/utils/logger';
 
 // Mock dependencies
@@ -15,9 +16,12 @@ class TestSite extends BaseSite {
   async isLoggedIn(_page: Page): Promise<boolean> { return true; }
   async navigate(_page: Page): Promise<void> {}
   async waitForCards(_page: Page): Promise<boolean> { return true; }
-  async swipe(_page: Page, _action: 'like' | 'dislike'): Promise<boolean> { return true; }
+  async swipe(_page: Page, _action: SwipeAction): Promise<SwipeOutcome> { return { kind: 'success' }; }
   async hasMoreProfiles(_page: Page): Promise<boolean> { return true; }
   getUrl(): string { return 'test.com'; }
+  getCapabilities(): SiteCapabilities {
+    return { swipeInput: 'buttons', superLike: false, matchDetection: false, limitDetection: false, matchPercentage: false };
+  }
 }
 
 describe('BaseSite', () => {
@@ -46,4 +50,40 @@ describe('BaseSite', () => {
     const result = await site.dismissPopup(_page); // Used _page
     expect(result).toBe(false);
   });
+
+  it('dismissPopup should evaluate the popup rules the site declares', async () => {
+    const closeButton = {} as Locator;
+    const dismiss = jest.fn(async () => {});
+    class PopupSite extends TestSite {
+      protected getPopupRules(): PopupRule[] {
+        return [{ name: 'match', priority: 1, detect: async () => closeButton, dismiss }];
+      }
+    }
+    const popupSite = new PopupSite(config, logger);
+
+    const result = await popupSite.dismissPopup(_page);
+
+    expect(result).toBe(true);
+    expect(dismiss).toHaveBeenCalledWith(_page, closeButton);
+    expect(popupSite.getPopupStats()).toEqual({ match: 1 });
+  });
+
+  it('should notify match listeners when a match popup is dismissed', async () => {
+    class MatchSite extends TestSite {
+      protected getPopupRules(): PopupRule[] {
+        return [
+          { name: 'upsell', priority: 2, blocking: false, detect: async () => ({}) as Locator, dismiss: async () => {} },
+          { name: 'match', priority: 1, isMatch: true, detect: async () => ({}) as Locator, dismiss: async () => {} },
+        ];
+      }
+    }
+    const matchSite = new MatchSite(config, logger);
+    const listener = jest.fn();
+    matchSite.onMatch(listener);
+
+    await matchSite.dismissPopup(_page);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ source: 'match', detectedAt: expect.any(Date) });
+  });
 });
\ No newline at end of file
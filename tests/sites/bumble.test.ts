@@ -0,0 +1,261 @@
+import { Page, Locator } from '@playwright/test';
+import { BumbleSite } from '../../src/sites/bumble';
+import type { SiteConfig } from '../../src/types';
+import { Logger } from '../../src/utils/logger';
+import { Rng } from '../../src/utils/random';
+import { humanClick, random } from '../../src/utils/helpers';
+import { jest } from '@jest/globals';
+
+// Mock dependencies
+jest.mock('../../src/utils/logger');
+jest.mock('../../src/utils/helpers', () => ({
+  humanClick: jest.fn(),
+  random: jest.fn(),
+}));
+
+type LocatorFn = (selector: string | Locator, options?: Parameters<Page['locator']>[1]) => Locator;
+type GetByRoleFn = (role: Parameters<Page['getByRole']>[0], options?: Parameters<Page['getByRole']>[1]) => Locator;
+
+const visibleLocator = (visible: boolean) =>
+  ({ isVisible: jest.fn<() => Promise<boolean>>().mockResolvedValue(visible) }) as unknown as Locator;
+
+describe('BumbleSite', () => {
+  let site: BumbleSite;
+  let config: SiteConfig;
+  let logger: Logger;
+  let page: jest.Mocked<Page>;
+  let locator: jest.Mocked<Locator>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    config = {
+      enabled: true,
+      likeRatio: 0.8,
+      swipeDelay: { min: 1000, max: 3000 },
+      maxSwipesPerSession: 100,
+    };
+    logger = new Logger();
+    site = new BumbleSite(config, logger);
+
+    locator = {
+      first: jest.fn<() => Locator>().mockReturnThis(),
+      waitFor: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+      count: jest.fn<() => Promise<number>>().mockResolvedValue(0),
+      isVisible: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+      getByRole: jest.fn<() => Locator>().mockReturnThis(),
+      textContent: jest.fn<() => Promise<string | null>>().mockResolvedValue(null),
+    } as unknown as jest.Mocked<Locator>;
+
+    page = {
+      locator: jest.fn<LocatorFn>().mockReturnValue(locator),
+      getByRole: jest.fn<GetByRoleFn>().mockReturnValue(locator),
+      getByText: jest.fn<() => Locator>().mockReturnValue(locator),
+      goto: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+      waitForTimeout: jest.fn<() => Promise<void>>().mockResolvedValue(undefined),
+      url: jest.fn<() => string>().mockReturnValue('https://am1.bumble.com/app'),
+    } as unknown as jest.Mocked<Page>;
+
+    (random as jest.Mock).mockReturnValue(2000);
+  });
+
+  it('should be an instance of BumbleSite', () => {
+    expect(site).toBeInstanceOf(BumbleSite);
+  });
+
+  it('should have a getUrl method that returns the correct URL', () => {
+    expect(site.getUrl()).toBe('https://bumble.com/app');
+  });
+
+  describe('isLoggedIn', () => {
+    it('should return true if the logged-in indicator is found', async () => {
+      const result = await site.isLoggedIn(page);
+      expect(result).toBe(true);
+      expect(page.locator).toHaveBeenCalledWith('.sidebar, .encounters-user');
+      expect(locator.waitFor).toHaveBeenCalledWith({ state: 'visible', timeout: 5000 });
+    });
+
+    it('should return false if redirected to the get-started page', async () => {
+      locator.waitFor.mockRejectedValue(new Error('timeout'));
+      page.url.mockReturnValue('https://bumble.com/get-started');
+      const result = await site.isLoggedIn(page);
+      expect(result).toBe(false);
+      expect(page.getByRole).not.toHaveBeenCalled();
+    });
+
+    it('should return true if no logged-out indicators are found', async () => {
+      locator.waitFor.mockRejectedValue(new Error('timeout'));
+      locator.count.mockResolvedValue(0);
+      const result = await site.isLoggedIn(page);
+      expect(result).toBe(true);
+      expect(page.getByRole).toHaveBeenCalledWith('button', { name: /Continue with|Use cell phone/i });
+    });
+
+    it('should return false if logged-out indicators are found', async () => {
+      locator.waitFor.mockRejectedValue(new Error('timeout'));
+      locator.count.mockResolvedValue(2);
+      const result = await site.isLoggedIn(page);
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('navigate', () => {
+    it('should navigate to the app and accept the cookie banner', async () => {
+      await site.navigate(page);
+      expect(page.goto).toHaveBeenCalledWith('https://bumble.com/app', { waitUntil: 'domcontentloaded' });
+      expect(page.getByRole).toHaveBeenCalledWith('button', { name: /Accept all/i });
+      expect(humanClick).toHaveBeenCalledWith(page, locator, expect.any(Rng));
+      expect(page.waitForTimeout).toHaveBeenCalledWith(expect.any(Number));
+    });
+
+    it('should not fail if the cookie banner is not present', async () => {
+      locator.waitFor.mockRejectedValue(new Error('timeout'));
+      await site.navigate(page);
+      expect(page.goto).toHaveBeenCalledWith('https://bumble.com/app', { waitUntil: 'domcontentloaded' });
+      expect(humanClick).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dismissPopup', () => {
+    it('should continue past the match screen', async () => {
+      (page.getByRole as jest.Mock<GetByRoleFn>).mockImplementation((_role, options) =>
+        visibleLocator(String(options?.name) === String(/Continue Bumbling/i))
+      );
+
+      const result = await site.dismissPopup(page);
+      expect(result).toBe(true);
+      expect(humanClick).toHaveBeenCalledTimes(1);
+    });
+
+    it('should dismiss the notifications prompt with "Not now"', async () => {
+      (page.getByRole as jest.Mock<GetByRoleFn>).mockImplementation((_role, options) =>
+        visibleLocator(options?.name === 'Not now')
+      );
+
+      const result = await site.dismissPopup(page);
+      expect(result).toBe(true);
+      expect(page.getByRole).toHaveBeenCalledWith('button', { name: 'Not now' });
+      expect(humanClick).toHaveBeenCalledTimes(1);
+    });
+
+    it('should close a generic dialog', async () => {
+      (page.getByRole as jest.Mock<GetByRoleFn>).mockReturnValue(visibleLocator(false));
+      const dialogLocator = {
+        isVisible: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+        getByRole: jest.fn<() => Locator>().mockReturnValue({
+          isVisible: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+          textContent: jest.fn<() => Promise<string | null>>().mockResolvedValue('Maybe later'),
+        } as unknown as Locator),
+      } as unknown as Locator;
+      (page.locator as jest.Mock<LocatorFn>).mockReturnValue(dialogLocator);
+
+      const result = await site.dismissPopup(page);
+      expect(result).toBe(true);
+      expect(page.locator).toHaveBeenCalledWith('.modal, div[role="dialog"]');
+      expect(dialogLocator.getByRole).toHaveBeenCalledWith('button', { name: /Close|No thanks|Maybe later|Not interested/i });
+      expect(humanClick).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return false if no popups are visible', async () => {
+      (page.getByRole as jest.Mock<GetByRoleFn>).mockReturnValue(visibleLocator(false));
+      (page.locator as jest.Mock<LocatorFn>).mockReturnValue(visibleLocator(false));
+
+      const result = await site.dismissPopup(page);
+      expect(result).toBe(false);
+      expect(humanClick).not.toHaveBeenCalled();
+    });
+
+    it('should return false if checking for popups throws', async () => {
+      (page.getByRole as jest.Mock<GetByRoleFn>).mockImplementation(() => {
+        throw new Error('detached');
+      });
+
+      const result = await site.dismissPopup(page);
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('waitForCards', () => {
+    it('should return true if the action buttons are visible', async () => {
+      jest.spyOn(site, 'dismissPopup').mockResolvedValue(false);
+
+      const result = await site.waitForCards(page);
+      expect(result).toBe(true);
+      expect(site.dismissPopup).toHaveBeenCalledWith(page);
+      expect(page.locator).toHaveBeenCalledWith('.encounters-action--like');
+      expect(page.locator).toHaveBeenCalledWith('.encounters-action--dislike');
+      expect(locator.waitFor).toHaveBeenCalledWith({ state: 'visible', timeout: 15000 });
+    });
+
+    it('should return false if the action buttons do not appear', async () => {
+      jest.spyOn(site, 'dismissPopup').mockResolvedValue(false);
+      locator.waitFor.mockRejectedValue(new Error('timeout'));
+
+      const result = await site.waitForCards(page);
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('swipe', () => {
+    beforeEach(() => {
+      jest.spyOn(site, 'dismissPopup').mockResolvedValue(false);
+    });
+
+    it('should click the like button for "like"', async () => {
+      const result = await site.swipe(page, 'like');
+      expect(result).toEqual({ kind: 'success' });
+      expect(site.dismissPopup).not.toHaveBeenCalled(); // The popup handlers clear popups during humanClick
+      expect(page.locator).toHaveBeenCalledWith('.encounters-action--like');
+      expect(humanClick).toHaveBeenCalledWith(page, locator, expect.any(Rng));
+    });
+
+    it('should click the pass button for "dislike"', async () => {
+      const result = await site.swipe(page, 'dislike');
+      expect(result).toEqual({ kind: 'success' });
+      expect(page.locator).toHaveBeenCalledWith('.encounters-action--dislike');
+      expect(humanClick).toHaveBeenCalledWith(page, locator, expect.any(Rng));
+    });
+
+    it('should report a missing element if the button is not visible', async () => {
+      locator.isVisible.mockResolvedValue(false);
+
+      const result = await site.swipe(page, 'like');
+      expect(result).toEqual({ kind: 'element-missing', element: 'like button' });
+      expect(humanClick).not.toHaveBeenCalled();
+    });
+
+    it('should report an error for "superlike" without clicking anything', async () => {
+      const result = await site.swipe(page, 'superlike');
+      expect(result).toEqual({ kind: 'error', message: 'Super likes are not supported on Bumble.' });
+      expect(humanClick).not.toHaveBeenCalled();
+    });
+
+    it('should report an error if clicking fails', async () => {
+      (humanClick as jest.Mock<typeof humanClick>).mockRejectedValue(new Error('no bounding box'));
+
+      const result = await site.swipe(page, 'like');
+      expect(result).toEqual({ kind: 'error', message: 'no bounding box' });
+    });
+  });
+
+  describe('hasMoreProfiles', () => {
+    it('should return false if the end-of-deck message is visible', async () => {
+      const result = await site.hasMoreProfiles(page);
+      expect(result).toBe(false);
+      expect(page.getByText).toHaveBeenCalledWith(/You[’']ve seen everyone|That[’']s everyone|No one new/i);
+    });
+
+    it('should return true if the end-of-deck message is not visible', async () => {
+      locator.isVisible.mockResolvedValue(false);
+
+      const result = await site.hasMoreProfiles(page);
+      expect(result).toBe(true);
+    });
+
+    it('should return true if checking for the message fails', async () => {
+      locator.isVisible.mockRejectedValue(new Error('Locator error'));
+
+      const result = await site.hasMoreProfiles(page);
+      expect(result).toBe(true);
+    });
+  });
+});
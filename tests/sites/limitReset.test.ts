@@ -0,0 +1,28 @@
+import { parseLimitReset } from '../../src/sites/limitReset';
+
+describe('parseLimitReset', () => {
+  const now = new Date(2026, 9, 19, 18, 0, 0);
+  const later = (ms: number) => new Date(now.getTime() + ms);
+
+  it('should read a countdown', () => {
+    expect(parseLimitReset("You're out of likes! 11:59:32", now)).toEqual(later((11 * 3600 + 59 * 60 + 32) * 1000));
+  });
+
+  it('should read durations', () => {
+    expect(parseLimitReset('More likes in 12 hours', now)).toEqual(later(12 * 3600000));
+    expect(parseLimitReset('Try again in 5h 30m', now)).toEqual(later(5.5 * 3600000));
+    expect(parseLimitReset('Come back in 45 minutes', now)).toEqual(later(45 * 60000));
+  });
+
+  it('should read a clock time as its next occurrence', () => {
+    expect(parseLimitReset('Your likes refresh at 7:30 PM', now)).toEqual(new Date(2026, 9, 19, 19, 30));
+    expect(parseLimitReset('Your likes refresh at 9 am', now)).toEqual(new Date(2026, 9, 20, 9, 0));
+    expect(parseLimitReset('Your likes refresh at 12:00', now)).toEqual(new Date(2026, 9, 20, 12, 0));
+  });
+
+  it('should return undefined when the text does not say when', () => {
+    expect(parseLimitReset("You're out of likes! Upgrade to send as many likes as you want.", now)).toBeUndefined();
+    expect(parseLimitReset('Get 10 more likes', now)).toBeUndefined();
+    expect(parseLimitReset('Look at 3 profiles', now)).toBeUndefined();
+  });
+});
@@ -2,6 +2,7 @@ import { Page, Locator } from '@playwright/test';
 import { OkCupidSite } from '../../src/sites/okcupid';
 import type { SiteConfig } from '../../src/types';
 import { Logger } from '../../src/utils/logger';
+import { Rng } from '../../src/utils/random';
 import { humanClick, random } from '../../src/utils/helpers';
 import { jest } from '@jest/globals';
 
@@ -123,7 +124,7 @@ describe('OkCupidSite', () => {
       expect(page.goto).toHaveBeenCalledWith('https://www.okcupid.com', { waitUntil: 'domcontentloaded' });
       expect(page.locator).toHaveBeenCalledWith('#onetrust-accept-btn-handler');
       expect(locator.waitFor).toHaveBeenCalledWith({ state: 'visible', timeout: 10000 });
-      expect(humanClick).toHaveBeenCalledWith(page, locator);
+      expect(humanClick).toHaveBeenCalledWith(page, locator, expect.any(Rng));
       expect(page.waitForTimeout).toHaveBeenCalledWith(expect.any(Number));
     });
 
@@ -418,10 +419,10 @@ describe('OkCupidSite', () => {
       (page.getByRole as jest.Mock<(role: Parameters<Page['getByRole']>[0], options?: Parameters<Page['getByRole']>[1]) => Locator>).mockReturnValueOnce(likeButtonLocator);
 
       const result = await site.swipe(page, 'like');
-      expect(result).toBe(true);
-      expect(site.dismissPopup).toHaveBeenCalledWith(page);
+      expect(result).toEqual({ kind: 'success' });
+      expect(site.dismissPopup).not.toHaveBeenCalled(); // The popup handlers clear popups during humanClick
       expect(page.getByRole).toHaveBeenCalledWith('button', { name: 'Like and view the next profile' });
-      expect(humanClick).toHaveBeenCalledWith(page, likeButtonLocator);
+      expect(humanClick).toHaveBeenCalledWith(page, likeButtonLocator, expect.any(Rng));
     });
 
     it('should return true and call humanClick for "dislike" action if button is visible', async () => {
@@ -433,14 +434,28 @@ describe('OkCupidSite', () => {
       (page.getByRole as jest.Mock<(role: Parameters<Page['getByRole']>[0], options?: Parameters<Page['getByRole']>[1]) => Locator>).mockReturnValueOnce(dislikeButtonLocator);
 
       const result = await site.swipe(page, 'dislike');
-      expect(result).toBe(true);
-      expect(site.dismissPopup).toHaveBeenCalledWith(page);
+      expect(result).toEqual({ kind: 'success' });
+      expect(site.dismissPopup).not.toHaveBeenCalled(); // The popup handlers clear popups during humanClick
       expect(page.getByRole).toHaveBeenCalledWith('button', { name: 'Pass and view the next profile' });
-      expect(humanClick).toHaveBeenCalledWith(page, dislikeButtonLocator);
+      expect(humanClick).toHaveBeenCalledWith(page, dislikeButtonLocator, expect.any(Rng));
+    });
+
+    it('should call humanClick on the SuperLike button for "superlike" action', async () => {
+      const superLikeButtonLocator = {
+        isVisible: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+      } as unknown as Locator;
+      (page.getByRole as jest.Mock<(role: Parameters<Page['getByRole']>[0], options?: Parameters<Page['getByRole']>[1]) => Locator>).mockReturnValueOnce(superLikeButtonLocator);
+
+      const result = await site.swipe(page, 'superlike');
+      expect(result).toEqual({ kind: 'success' });
+      expect(page.getByRole).toHaveBeenCalledWith('button', { name: 'SuperLike' });
+      expect(humanClick).toHaveBeenCalledWith(page, superLikeButtonLocator, expect.any(Rng));
     });
 
-    it('should return false if the button is not visible', async () => {
+    it('should report a missing element if the button is not visible', async () => {
       jest.spyOn(site, 'dismissPopup').mockResolvedValue(false);
+      (page as unknown as { url: () => string }).url = () => 'https://www.okcupid.com/discover';
+      locator.isVisible.mockResolvedValue(false);
 
       const buttonLocator = {
         isVisible: jest.fn<() => Promise<boolean>>().mockResolvedValue(false),
@@ -448,11 +463,38 @@ describe('OkCupidSite', () => {
       (page.getByRole as jest.Mock<(role: Parameters<Page['getByRole']>[0], options?: Parameters<Page['getByRole']>[1]) => Locator>).mockReturnValueOnce(buttonLocator);
 
       const result = await site.swipe(page, 'like');
-      expect(result).toBe(false);
-      expect(site.dismissPopup).toHaveBeenCalledWith(page);
+      expect(result).toEqual({ kind: 'element-missing', element: 'like button' });
+      expect(site.dismissPopup).not.toHaveBeenCalled();
       expect(page.getByRole).toHaveBeenCalledWith('button', { name: 'Like and view the next profile' });
       expect(humanClick).not.toHaveBeenCalled();
     });
+
+    it('should report a blocking popup if a dialog covers the button', async () => {
+      jest.spyOn(site, 'dismissPopup').mockResolvedValue(false);
+      (page as unknown as { url: () => string }).url = () => 'https://www.okcupid.com/discover';
+
+      const buttonLocator = {
+        isVisible: jest.fn<() => Promise<boolean>>().mockResolvedValue(false),
+      } as unknown as Locator;
+      (page.getByRole as jest.Mock<(role: Parameters<Page['getByRole']>[0], options?: Parameters<Page['getByRole']>[1]) => Locator>).mockReturnValueOnce(buttonLocator);
+
+      const result = await site.swipe(page, 'like');
+      expect(result).toEqual({ kind: 'popup-blocked', popup: 'dialog' });
+      expect(page.locator).toHaveBeenCalledWith('[role="dialog"], [role="alertdialog"]');
+    });
+
+    it('should report navigating away if the page left OkCupid', async () => {
+      jest.spyOn(site, 'dismissPopup').mockResolvedValue(false);
+      (page as unknown as { url: () => string }).url = () => 'https://challenges.cloudflare.com/';
+
+      const buttonLocator = {
+        isVisible: jest.fn<() => Promise<boolean>>().mockResolvedValue(false),
+      } as unknown as Locator;
+      (page.getByRole as jest.Mock<(role: Parameters<Page['getByRole']>[0], options?: Parameters<Page['getByRole']>[1]) => Locator>).mockReturnValueOnce(buttonLocator);
+
+      const result = await site.swipe(page, 'dislike');
+      expect(result).toEqual({ kind: 'navigated-away', url: 'https://challenges.cloudflare.com/' });
+    });
   });
 
   describe('hasMoreProfiles', () => {
@@ -492,4 +534,29 @@ describe('OkCupidSite', () => {
       expect(mockLocator.isVisible).toHaveBeenCalled();
     });
   });
+
+  describe('getCurrentProfile', () => {
+    it('should read the profile, including the match percentage, inside the current card', async () => {
+      const cardElements: Record<string, string[]> = {
+        '[class*="cardsummary-realname"]': ['Jordan'],
+        '[class*="cardsummary-age"]': ['31'],
+        '[class*="verified-badge"], [aria-label*="Verified"]': [''],
+        '[class*="match-percentage"], text=/\\d+% Match/': ['94% Match'],
+      };
+      const elementsLocator = (texts: string[]) => ({
+        count: jest.fn<() => Promise<number>>().mockResolvedValue(texts.length),
+        first: () => ({ textContent: jest.fn<() => Promise<string | null>>().mockResolvedValue(texts[0] ?? null) }),
+      });
+      const card = { locator: (selector: string) => elementsLocator(cardElements[selector] ?? []) };
+      (page.locator as jest.Mock).mockReturnValue({
+        count: jest.fn<() => Promise<number>>().mockResolvedValue(1),
+        first: () => card,
+      });
+
+      const profile = await site.getCurrentProfile(page);
+
+      expect(page.locator).toHaveBeenCalledWith('[class*="qmcard"], [data-cy="discover.userCard"]');
+      expect(profile).toEqual({ name: 'Jordan', age: 31, verified: true, matchPercentage: 94 });
+    });
+  });
 });
@@ -0,0 +1,111 @@
+import { Locator, Page } from 'playwright';
+import { PopupEngine, PopupRule } from '../../src/sites/popupEngine';
+import { Logger } from '../../src/utils/logger';
+
+jest.mock('../../src/utils/logger');
+
+describe('PopupEngine', () => {
+  let logger: Logger;
+  let page: Page;
+  let target: Locator;
+  let checked: string[];
+
+  const rule = (name: string, priority: number, showing: boolean, extra: Partial<PopupRule> = {}): PopupRule => ({
+    name,
+    priority,
+    detect: jest.fn(async () => {
+      checked.push(name);
+      return showing ? target : null;
+    }),
+    dismiss: jest.fn(async () => {}),
+    ...extra,
+  });
+
+  beforeEach(() => {
+    logger = new Logger();
+    page = {} as Page;
+    target = {} as Locator;
+    checked = [];
+  });
+
+  it('should check rules by priority, keeping the declared order for ties', async () => {
+    const engine = new PopupEngine(
+      [rule('low', 1, false), rule('first-tie', 5, false), rule('high', 10, false), rule('second-tie', 5, false)],
+      logger
+    );
+
+    const result = await engine.run(page);
+
+    expect(result).toBe(false);
+    expect(checked).toEqual(['high', 'first-tie', 'second-tie', 'low']);
+  });
+
+  it('should stop at the first blocking popup and count it', async () => {
+    const match = rule('match', 10, true);
+    const dialog = rule('dialog', 1, true);
+    const engine = new PopupEngine([dialog, match], logger);
+
+    expect(await engine.run(page)).toBe(true);
+    expect(await engine.run(page)).toBe(true);
+
+    expect(match.dismiss).toHaveBeenCalledWith(page, target);
+    expect(dialog.detect).not.toHaveBeenCalled();
+    expect(engine.getFiredCounts()).toEqual({ match: 2 });
+  });
+
+  it('should keep checking after a non-blocking popup', async () => {
+    const banner = rule('banner', 10, true, { blocking: false });
+    const dialog = rule('dialog', 1, false);
+    const engine = new PopupEngine([banner, dialog], logger);
+
+    const result = await engine.run(page);
+
+    expect(result).toBe(false);
+    expect(banner.dismiss).toHaveBeenCalled();
+    expect(dialog.detect).toHaveBeenCalled();
+    expect(engine.getFiredCounts()).toEqual({ banner: 1 });
+  });
+
+  it('should return false if a rule throws', async () => {
+    const broken = rule('broken', 10, false, {
+      detect: jest.fn(async () => {
+        throw new Error('detached');
+      }),
+    });
+    const engine = new PopupEngine([broken, rule('dialog', 1, true)], logger);
+
+    const result = await engine.run(page);
+
+    expect(result).toBe(false);
+    expect(engine.getFiredCounts()).toEqual({});
+  });
+
+  it('should register one locator handler per overlay that clears its rules', async () => {
+    const handlers: { locator: Locator; handler: () => Promise<void>; options: unknown }[] = [];
+    const dialogLocator = {} as Locator;
+    const matchLocator = {} as Locator;
+    const addLocatorHandler = jest.fn(async (locator: Locator, handler: () => Promise<void>, options: unknown) => {
+      handlers.push({ locator, handler, options });
+    });
+    page = { addLocatorHandler } as unknown as Page;
+    const dialogOverlay = () => ({ first: () => dialogLocator }) as unknown as Locator;
+    const notifications = rule('notifications', 20, false, { overlay: dialogOverlay });
+    const dialog = rule('dialog', 10, true, { overlay: dialogOverlay });
+    const match = rule('match', 30, true, { overlay: () => ({ first: () => matchLocator }) as unknown as Locator });
+    const engine = new PopupEngine([dialog, notifications, match, rule('banner', 40, true)], logger);
+
+    const count = await engine.registerHandlers(page);
+
+    expect(count).toBe(2);
+    expect(handlers[0].locator).toBe(matchLocator);
+    expect(handlers[1].locator).toBe(dialogLocator);
+    expect(handlers[0].options).toEqual({ noWaitAfter: true });
+
+    await handlers[1].handler();
+
+    expect(checked).toEqual(['notifications', 'dialog']);
+    expect(dialog.dismiss).toHaveBeenCalledWith(page, target);
+    expect(match.detect).not.toHaveBeenCalled();
+    expect(engine.getFiredCounts()).toEqual({ dialog: 1 });
+  });
+});
@@ -0,0 +1,113 @@
+import { Page } from 'playwright';
+import {
+  extractProfile,
+  parseDistanceKm,
+  parsePercentage,
+  parseWholeNumber,
+} from '../../src/sites/profile';
+import { Logger } from '../../src/utils/logger';
+
+jest.mock('../../src/utils/logger');
+
+/**
+ * Builds a page whose locators return the given texts, one element per text.
+ * A text of `Error` makes the element throw when it is read.
+ */
+const pageWith = (elements: Record<string, (string | Error)[]>) =>
+  ({
+    locator: jest.fn((selector: string) => {
+      const matches = elements[selector] ?? [];
+      return {
+        count: jest.fn().mockResolvedValue(matches.length),
+        first: jest.fn(() => ({
+          textContent: jest.fn(async () => {
+            if (matches[0] instanceof Error) {
+              throw matches[0];
+            }
+            return matches[0];
+          }),
+        })),
+      };
+    }),
+  }) as unknown as Page;
+
+describe('profile parsing', () => {
+  it('should read the first whole number', () => {
+    expect(parseWholeNumber(', 27')).toBe(27);
+    expect(parseWholeNumber('unknown')).toBeUndefined();
+  });
+
+  it('should convert distances to kilometers', () => {
+    expect(parseDistanceKm('5 miles away')).toBe(8);
+    expect(parseDistanceKm('1 mile away')).toBe(1.6);
+    expect(parseDistanceKm('12 km away')).toBe(12);
+    expect(parseDistanceKm('Lives nearby')).toBeUndefined();
+  });
+
+  it('should read percentages', () => {
+    expect(parsePercentage('92% Match')).toBe(92);
+    expect(parsePercentage('Match')).toBeUndefined();
+  });
+});
+
+describe('extractProfile', () => {
+  let logger: Logger;
+
+  beforeEach(() => {
+    logger = new Logger();
+  });
+
+  it('should read every field that has a selector', async () => {
+    const page = pageWith({
+      '.name': ['  Alex '],
+      '.age': ['29'],
+      '.distance': ['3 miles away'],
+      '.bio': ['Coffee first.'],
+      '.photo': ['', '', ''],
+      '.verified': [''],
+      '.match': ['87% Match'],
+    });
+
+    const profile = await extractProfile(
+      page,
+      {
+        name: '.name',
+        age: '.age',
+        distance: '.distance',
+        bio: '.bio',
+        photos: '.photo',
+        verified: '.verified',
+        matchPercentage: '.match',
+      },
+      logger
+    );
+
+    expect(profile).toEqual({
+      name: 'Alex',
+      age: 29,
+      distanceKm: 4.8,
+      bio: 'Coffee first.',
+      photoCount: 3,
+      verified: true,
+      matchPercentage: 87,
+    });
+  });
+
+  it('should leave out fields that are missing or have no selector', async () => {
+    const page = pageWith({ '.name': ['Sam'], '.age': ['   '] });
+
+    const profile = await extractProfile(page, { name: '.name', age: '.age', photos: '.photo', verified: '.verified' }, logger);
+
+    expect(profile).toEqual({ name: 'Sam', verified: false });
+    expect(page.locator).not.toHaveBeenCalledWith('.match');
+  });
+
+  it('should keep reading the other fields when one of them fails', async () => {
+    const page = pageWith({ '.name': [new Error('Element is detached')], '.bio': ['Hi'] });
+
+    const profile = await extractProfile(page, { name: '.name', bio: '.bio' }, logger);
+
+    expect(profile).toEqual({ bio: 'Hi' });
+    expect(logger.debug).toHaveBeenCalledWith('Could not read profile name: Element is detached');
+  });
+});
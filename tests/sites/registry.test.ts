@@ -0,0 +1,167 @@
+import { mkdirSync, mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Page } from 'playwright';
+import { BaseSite } from '../../src/sites/base';
+import { SiteRegistry, UnknownSiteError, siteRegistry } from '../../src/sites';
+import { loadPlugins, PluginLoadError } from '../../src/plugins';
+import { StrategyRegistry } from '../../src/decisions';
+import { SiteCapabilities, SiteConfig, SwipeAction, SwipeOutcome } from '../../src/types';
+import { Logger } from '../../src/utils/logger';
+import { Rng } from '../../src/utils/random';
+
+jest.mock('../../src/utils/logger');
+
+class TestSite extends BaseSite {
+  async isLoggedIn(_page: Page): Promise<boolean> { return true; }
+  async navigate(_page: Page): Promise<void> {}
+  async waitForCards(_page: Page): Promise<boolean> { return true; }
+  async swipe(_page: Page, _action: SwipeAction): Promise<SwipeOutcome> { return { kind: 'success' }; }
+  async hasMoreProfiles(_page: Page): Promise<boolean> { return true; }
+  getUrl(): string { return 'https://test.example'; }
+  getCapabilities(): SiteCapabilities {
+    return { swipeInput: 'buttons', superLike: false, matchDetection: false, limitDetection: false, matchPercentage: false };
+  }
+}
+
+describe('SiteRegistry', () => {
+  let registry: SiteRegistry;
+  let config: SiteConfig;
+  let logger: Logger;
+
+  beforeEach(() => {
+    registry = new SiteRegistry();
+    config = {
+      enabled: true,
+      likeRatio: 0.8,
+      swipeDelay: { min: 1000, max: 3000 },
+      maxSwipesPerSession: 100,
+    };
+    logger = new Logger();
+  });
+
+  it('should create a registered site module', () => {
+    const factory = jest.fn((siteConfig: SiteConfig, siteLogger: Logger) => new TestSite(siteConfig, siteLogger));
+    registry.register({ name: 'Test', factory, metadata: { displayName: 'Test', url: 'https://test.example' } });
+
+    const site = registry.create('test', config, logger);
+
+    expect(site).toBeInstanceOf(TestSite);
+    expect(factory).toHaveBeenCalledWith(config, logger, expect.any(Rng));
+    expect(registry.has('TEST')).toBe(true);
+    expect(registry.getNames()).toEqual(['test']);
+  });
+
+  it('should reject duplicate and reserved names', () => {
+    const registration = {
+      name: 'test',
+      factory: (siteConfig: SiteConfig, siteLogger: Logger) => new TestSite(siteConfig, siteLogger),
+      metadata: { displayName: 'Test', url: 'https://test.example' },
+    };
+    registry.register(registration);
+
+    expect(() => registry.register(registration)).toThrow('Site "test" is already registered.');
+    expect(() => registry.register({ ...registration, name: 'all' })).toThrow('reserved');
+  });
+
+  it('should list the registered sites when an unknown site is requested', () => {
+    registry.register({
+      name: 'test',
+      factory: (siteConfig, siteLogger) => new TestSite(siteConfig, siteLogger),
+      metadata: { displayName: 'Test', url: 'https://test.example' },
+    });
+
+    expect(() => registry.create('badoo', config, logger)).toThrow(UnknownSiteError);
+    expect(() => registry.create('badoo', config, logger)).toThrow(
+      'Unsupported site: badoo. Registered sites: test'
+    );
+  });
+
+  it('should have the built-in sites in the default registry', () => {
+    expect(siteRegistry.getNames()).toEqual(['tinder', 'okcupid', 'bumble']);
+  });
+
+  it('should declare the same capabilities in the registration as the site module reports', () => {
+    for (const { name, capabilities } of siteRegistry.getAll()) {
+      expect(capabilities).toBeDefined();
+      expect(siteRegistry.create(name, config, logger).getCapabilities()).toBe(capabilities);
+    }
+    expect(siteRegistry.get('bumble').capabilities?.superLike).toBe(false);
+  });
+});
+
+describe('loadPlugins', () => {
+  let pluginDir: string;
+  let registry: SiteRegistry;
+  let strategies: StrategyRegistry;
+  let logger: Logger;
+
+  const pluginSource = (name: string) => `
+    exports.register = ({ sites }) => {
+      sites.register({
+        name: '${name}',
+        factory: () => ({ name: '${name}' }),
+        metadata: { displayName: '${name}', url: 'https://${name}.example' },
+      });
+    };
+  `;
+
+  beforeEach(() => {
+    pluginDir = mkdtempSync(join(tmpdir(), 'swiper-plugins-'));
+    registry = new SiteRegistry();
+    strategies = new StrategyRegistry();
+    logger = new Logger();
+  });
+
+  afterEach(() => {
+    rmSync(pluginDir, { recursive: true, force: true });
+  });
+
+  it('should load a single plugin file relative to the base directory', () => {
+    writeFileSync(join(pluginDir, 'badoo.js'), pluginSource('badoo'));
+
+    loadPlugins(['./badoo.js'], { sites: registry, strategies }, logger, pluginDir);
+
+    expect(registry.getNames()).toEqual(['badoo']);
+  });
+
+  it('should load every module in a plugin directory', () => {
+    const sitesDir = join(pluginDir, 'sites');
+    mkdirSync(sitesDir);
+    writeFileSync(join(sitesDir, 'hinge.js'), pluginSource('hinge'));
+    writeFileSync(join(sitesDir, 'badoo.js'), pluginSource('badoo'));
+    writeFileSync(join(sitesDir, 'README.md'), '# not a plugin');
+
+    loadPlugins(['./sites'], { sites: registry, strategies }, logger, pluginDir);
+
+    expect(registry.getNames()).toEqual(['badoo', 'hinge']);
+  });
+
+  it('should let plugins register decision strategies', () => {
+    writeFileSync(
+      join(pluginDir, 'pickier.js'),
+      `exports.register = ({ strategies }) => {
+        strategies.register({ name: 'never-like', factory: () => ({ name: 'never-like', decide: () => ({ action: 'dislike' }) }) });
+      };`
+    );
+
+    loadPlugins(['./pickier.js'], { sites: registry, strategies }, logger, pluginDir);
+
+    expect(strategies.getNames()).toEqual(['never-like']);
+  });
+
+  it('should throw a PluginLoadError for a missing plugin', () => {
+    expect(() => loadPlugins(['./missing'], { sites: registry, strategies }, logger, pluginDir)).toThrow(PluginLoadError);
+    expect(() => loadPlugins(['swiper-plugin-missing'], { sites: registry, strategies }, logger, pluginDir)).toThrow(
+      PluginLoadError
+    );
+  });
+
+  it('should throw a PluginLoadError if the plugin does not export register', () => {
+    writeFileSync(join(pluginDir, 'empty.js'), 'module.exports = {};');
+
+    expect(() => loadPlugins(['./empty.js'], { sites: registry, strategies }, logger, pluginDir)).toThrow(
+      'does not export a register(context) function'
+    );
+  });
+});
@@ -0,0 +1,115 @@
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import {
+  bumbleSelectors,
+  loadSelectorPack,
+  okcupidSelectors,
+  SelectorPack,
+  SelectorPackError,
+  tinderSelectors,
+  toTextMatcher,
+  validateSelectorPack,
+} from '../../src/sites/selectors';
+import { TinderSite } from '../../src/sites/tinder';
+import { Logger } from '../../src/utils/logger';
+
+jest.mock('../../src/utils/logger');
+
+describe('selector packs', () => {
+  let dir: string;
+
+  const writeOverrides = (contents: unknown): string => {
+    const file = join(dir, 'selectors.json');
+    writeFileSync(file, JSON.stringify(contents));
+    return file;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'swiper-selectors-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should ship valid built-in packs', () => {
+    expect(() => validateSelectorPack(tinderSelectors)).not.toThrow();
+    expect(() => validateSelectorPack(okcupidSelectors)).not.toThrow();
+    expect(() => validateSelectorPack(bumbleSelectors)).not.toThrow();
+  });
+
+  it('should convert /pattern/ strings into regular expressions', () => {
+    expect(toTextMatcher('/Sign In|Join OkCupid/i')).toEqual(/Sign In|Join OkCupid/i);
+    expect(toTextMatcher('Not now')).toBe('Not now');
+  });
+
+  it('should return the built-in pack when no override file is set', () => {
+    expect(loadSelectorPack(tinderSelectors)).toBe(tinderSelectors);
+  });
+
+  it('should replace and extend selectors from an override file', () => {
+    const file = writeOverrides({
+      version: 1,
+      selectors: { blockingDialog: '[role="alertdialog"]' },
+      extend: { popupDismissButtons: ['button:has-text("Later")'] },
+    });
+
+    const pack = loadSelectorPack(tinderSelectors, file);
+
+    expect(pack.selectors.blockingDialog).toBe('[role="alertdialog"]');
+    expect(pack.selectors.popupDismissButtons).toEqual([
+      ...tinderSelectors.selectors.popupDismissButtons,
+      'button:has-text("Later")',
+    ]);
+    expect(pack.selectors.limitMessage).toBe(tinderSelectors.selectors.limitMessage);
+    expect(tinderSelectors.selectors.blockingDialog).toBe('[role="dialog"]');
+  });
+
+  it.each([
+    ['an unknown key', { selectors: { likeButton: 'button' } }, 'unknown selector "likeButton"'],
+    ['a list for a single selector', { selectors: { blockingDialog: ['a', 'b'] } }, '"blockingDialog" must be a single selector'],
+    ['an extended single selector', { extend: { blockingDialog: ['a'] } }, 'only lists can be extended'],
+    ['an empty selector', { selectors: { limitMessage: ' ' } }, '"limitMessage" must be a non-empty string'],
+    ['an empty list', { selectors: { cardCandidates: [] } }, '"cardCandidates" must not be an empty list'],
+    ['a different version', { version: 2, selectors: {} }, 'written for selector pack version 2'],
+  ])('should reject %s', (_description, overrides, message) => {
+    const file = writeOverrides(overrides);
+
+    expect(() => loadSelectorPack(tinderSelectors, file)).toThrow(SelectorPackError);
+    expect(() => loadSelectorPack(tinderSelectors, file)).toThrow(message);
+  });
+
+  it('should reject an invalid pattern', () => {
+    const file = writeOverrides({ selectors: { outOfProfilesText: '/seen everyone(/i' } });
+
+    expect(() => loadSelectorPack(bumbleSelectors, file)).toThrow('has an invalid pattern');
+  });
+
+  it('should reject a missing or malformed file', () => {
+    const file = join(dir, 'broken.json');
+    writeFileSync(file, '{ not json');
+
+    expect(() => loadSelectorPack(okcupidSelectors, join(dir, 'missing.json'))).toThrow('could not read file');
+    expect(() => loadSelectorPack(okcupidSelectors, file)).toThrow(`Invalid okcupid selectors in ${file}`);
+  });
+
+  it('should reject a pack with an invalid version', () => {
+    const pack: SelectorPack<{ dialog: string }> = { site: 'test', version: 0, selectors: { dialog: 'div' } };
+
+    expect(() => validateSelectorPack(pack)).toThrow('version must be a positive integer');
+  });
+
+  it('should validate the override file when a site module is created', () => {
+    const file = writeOverrides({ selectors: { unknown: 'div' } });
+    const config = {
+      enabled: true,
+      likeRatio: 0.8,
+      swipeDelay: { min: 1000, max: 3000 },
+      maxSwipesPerSession: 100,
+      selectorsFile: file,
+    };
+
+    expect(() => new TinderSite(config, new Logger())).toThrow(SelectorPackError);
+  });
+});
@@ -1,10 +1,18 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 import { TinderSite } from '../../src/sites/tinder';
 import type { SiteConfig } from '../../src/types';
 import { Logger } from '../../src/utils/logger';
+import { Rng } from '../../src/utils/random';
+import { humanClick } from '../../src/utils/helpers';
 import { Page, Locator, Keyboard } from 'playwright'; // Import Keyboard
 
 // Mock dependencies
 jest.mock('../../src/utils/logger');
+jest.mock('../../src/utils/helpers', () => ({
+  humanClick: jest.fn(),
+}));
 
 describe('TinderSite', () => {
   let site: TinderSite;
@@ -77,6 +85,33 @@ describe('TinderSite', () => {
       expect(mockFirst.click).toHaveBeenCalled();
     });
 
+    it('should count a match screen as a match even when the other popup buttons are overridden', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'swiper-tinder-'));
+      const file = join(dir, 'selectors.json');
+      writeFileSync(file, JSON.stringify({ selectors: { popupDismissButtons: ['button:has-text("Later")'] } }));
+      try {
+        site = new TinderSite({ ...config, selectorsFile: file }, logger);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+      const visibleButton = {
+        isVisible: jest.fn().mockResolvedValue(true),
+        click: jest.fn().mockResolvedValue(undefined),
+        boundingBox: jest.fn().mockResolvedValue({ x: 10, y: 10, width: 100, height: 50 }),
+      };
+      const hiddenButton = { isVisible: jest.fn().mockResolvedValue(false) };
+      mockPage.locator.mockImplementation(
+        (selector: string) =>
+          ({ first: () => (selector === 'button:has-text("Keep Swiping")' ? visibleButton : hiddenButton) }) as unknown as Locator
+      );
+      mockPage.viewportSize = jest.fn().mockReturnValue({ width: 800, height: 600 });
+      const listener = jest.fn();
+      site.onMatch(listener);
+
+      expect(await site.dismissPopup(mockPage)).toBe(true);
+      expect(listener).toHaveBeenCalledWith({ source: 'button:has-text("Keep Swiping")', detectedAt: expect.any(Date) });
+    });
+
     it('should not dismiss a popup if no close button is visible', async () => {
       const mockFirst = {
         isVisible: jest.fn().mockResolvedValue(false),
@@ -495,7 +530,7 @@ describe('TinderSite', () => {
 
       const result = await site.waitForCards(mockPage);
       expect(result).toBe(true);
-      expect(site.dismissPopup).toHaveBeenCalledTimes(3); // Initial, before quick check, and within quick check
+      expect(site.dismissPopup).toHaveBeenCalledTimes(1); // Initial only; the popup handlers cover the rest
       expect(mockPage.locator).toHaveBeenCalledWith('button[aria-label*="Like"]'); // Should check for cards
       expect(mockPage.waitForTimeout).toHaveBeenCalledWith(1000); // After successful card detection
     });
@@ -549,7 +584,7 @@ describe('TinderSite', () => {
 
       const result = await site.waitForCards(mockPage);
       expect(result).toBe(true);
-      expect(site.dismissPopup).toHaveBeenCalledTimes(3); // Initial, before quick check, and within quick check
+      expect(site.dismissPopup).toHaveBeenCalledTimes(1); // Initial only; the popup handlers cover the rest
       expect(mockPage.waitForSelector).toHaveBeenCalled();
       expect(mockPage.locator).toHaveBeenCalledWith('button[aria-label*="Like"]'); // Should check for cards
       expect(mockPage.waitForTimeout).toHaveBeenCalledWith(1000); // After successful card detection
@@ -564,7 +599,7 @@ describe('TinderSite', () => {
 
       const result = await site.waitForCards(mockPage);
       expect(result).toBe(false);
-      expect(site.dismissPopup).toHaveBeenCalledTimes(2); // Initial and before quick check loop
+      expect(site.dismissPopup).toHaveBeenCalledTimes(1); // Initial only; the popup handlers cover the rest
       expect(mockPage.waitForSelector).toHaveBeenCalled();
     });
 
@@ -596,7 +631,7 @@ describe('TinderSite', () => {
 
       const result = await site.waitForCards(mockPage);
       expect(result).toBe(true);
-      expect(site.dismissPopup).toHaveBeenCalledTimes(3); // Initial, before quick check loop, and after refresh
+      expect(site.dismissPopup).toHaveBeenCalledTimes(2); // Initial and after refresh
       expect(mockPage.locator).toHaveBeenCalledWith('button, [role="button"], a');
       expect(mockPage.locator).toHaveBeenCalledWith('body');
       expect(mockPage.waitForTimeout).toHaveBeenCalledWith(2000); // Final fallback wait
@@ -608,46 +643,137 @@ describe('TinderSite', () => {
       jest.spyOn(site, 'dismissPopup').mockResolvedValue(false);
       mockPage.keyboard.press = jest.fn(); // Correctly mock press
       mockPage.waitForTimeout.mockResolvedValue(undefined);
+      mockPage.url.mockReturnValue('https://tinder.com/app/recs');
     });
 
-    it('should perform a "like" swipe and return true', async () => {
-      mockPage.locator.mockImplementation(() => ({ count: jest.fn().mockResolvedValue(0) } as unknown as Locator)); // Changed as any // No error messages
+    it('should perform a "like" swipe and report success', async () => {
+      const hover = jest.fn().mockResolvedValue(undefined);
+      mockPage.locator.mockImplementation(() => ({ count: jest.fn().mockResolvedValue(0), hover } as unknown as Locator)); // Changed as any // No error messages
 
       const result = await site.swipe(mockPage, 'like');
-      expect(result).toBe(true);
-      expect(site.dismissPopup).toHaveBeenCalledWith(mockPage);
+      expect(result).toEqual({ kind: 'success' });
+      expect(site.dismissPopup).not.toHaveBeenCalled();
+      expect(mockPage.locator).toHaveBeenCalledWith('body');
+      expect(hover).toHaveBeenCalledWith({ trial: true, timeout: 5000 }); // Lets the popup handlers run
       expect(mockPage.keyboard.press).toHaveBeenCalledWith('ArrowRight');
       expect(mockPage.waitForTimeout).toHaveBeenCalledWith(1000);
     });
 
-    it('should perform a "dislike" swipe and return true', async () => {
-      mockPage.locator.mockImplementation(() => ({ count: jest.fn().mockResolvedValue(0) } as unknown as Locator)); // Changed as any // No error messages
+    it('should perform a "dislike" swipe and report success', async () => {
+      const hover = jest.fn().mockResolvedValue(undefined);
+      mockPage.locator.mockImplementation(() => ({ count: jest.fn().mockResolvedValue(0), hover } as unknown as Locator)); // Changed as any // No error messages
 
       const result = await site.swipe(mockPage, 'dislike');
-      expect(result).toBe(true);
-      expect(site.dismissPopup).toHaveBeenCalledWith(mockPage);
+      expect(result).toEqual({ kind: 'success' });
+      expect(site.dismissPopup).not.toHaveBeenCalled();
+      expect(mockPage.locator).toHaveBeenCalledWith('body');
+      expect(hover).toHaveBeenCalledWith({ trial: true, timeout: 5000 }); // Lets the popup handlers run
       expect(mockPage.keyboard.press).toHaveBeenCalledWith('ArrowLeft');
       expect(mockPage.waitForTimeout).toHaveBeenCalledWith(1000);
     });
 
-    it('should return false if an error message is found', async () => {
+    it('should click the Super Like button for a "superlike" swipe', async () => {
+      const superLikeButton = { isVisible: jest.fn().mockResolvedValue(true) } as unknown as Locator;
+      mockPage.locator.mockImplementation((selector) =>
+        selector === 'button[aria-label*="Super Like"]'
+          ? ({ first: () => superLikeButton } as unknown as Locator)
+          : ({ count: jest.fn().mockResolvedValue(0), hover: jest.fn().mockResolvedValue(undefined) } as unknown as Locator)
+      );
+
+      const result = await site.swipe(mockPage, 'superlike');
+      expect(result).toEqual({ kind: 'success' });
+      expect(humanClick).toHaveBeenCalledWith(mockPage, superLikeButton, expect.any(Rng));
+      expect(mockPage.keyboard.press).not.toHaveBeenCalled();
+    });
+
+    it('should report a missing element if the Super Like button is not visible', async () => {
+      const hiddenLocator = {
+        count: jest.fn().mockResolvedValue(0),
+        first: jest.fn().mockReturnThis(),
+        isVisible: jest.fn().mockResolvedValue(false),
+      } as unknown as Locator;
+      mockPage.locator.mockReturnValue(hiddenLocator);
+
+      const result = await site.swipe(mockPage, 'superlike');
+      expect(result).toEqual({ kind: 'element-missing', element: 'super like button' });
+      expect(mockPage.keyboard.press).not.toHaveBeenCalled();
+    });
+
+    it('should report the limit message if one is found', async () => {
       const mockErrorLocator = {
         count: jest.fn().mockResolvedValue(1),
         first: jest.fn().mockReturnThis(),
         textContent: jest.fn().mockResolvedValue('You are out of likes!'),
       } as unknown as Locator; // Changed as any
-      mockPage.locator.mockReturnValue(mockErrorLocator);
+      mockPage.locator.mockImplementation((selector) =>
+        selector === '[role="dialog"]'
+          ? ({ count: jest.fn().mockResolvedValue(0) } as unknown as Locator)
+          : mockErrorLocator
+      );
 
       const result = await site.swipe(mockPage, 'like');
-      expect(result).toBe(false);
+      expect(result).toEqual({ kind: 'limit-reached', message: 'You are out of likes!' });
       expect(mockPage.locator).toHaveBeenCalledWith('text=/out of likes|limit|upgrade|refresh|try again|no more|send as many likes/i');
     });
 
-    it('should return false if an error occurs during the swipe action', async () => {
+    it('should not press a key if a dialog is still open', async () => {
+      mockPage.locator.mockImplementation(() => ({ count: jest.fn().mockResolvedValue(1) } as unknown as Locator));
+
+      const result = await site.swipe(mockPage, 'like');
+      expect(result).toEqual({ kind: 'popup-blocked', popup: 'dialog' });
+      expect(mockPage.keyboard.press).not.toHaveBeenCalled();
+    });
+
+    it('should not press a key if the page left Tinder', async () => {
+      mockPage.url.mockReturnValue('https://accounts.google.com/signin');
+
+      const result = await site.swipe(mockPage, 'like');
+      expect(result).toEqual({ kind: 'navigated-away', url: 'https://accounts.google.com/signin' });
+      expect(mockPage.keyboard.press).not.toHaveBeenCalled();
+    });
+
+    it('should report an error if the swipe action throws', async () => {
+      mockPage.locator.mockImplementation(() => ({ count: jest.fn().mockResolvedValue(0) } as unknown as Locator));
       mockPage.keyboard.press = jest.fn().mockImplementation(() => { throw new Error('Keyboard error'); });
 
       const result = await site.swipe(mockPage, 'like');
-      expect(result).toBe(false);
+      expect(result).toEqual({ kind: 'error', message: 'Keyboard error' });
+    });
+  });
+
+  describe('getCurrentProfile', () => {
+    const elementsLocator = (texts: string[]) =>
+      ({
+        count: jest.fn().mockResolvedValue(texts.length),
+        first: jest.fn().mockReturnValue({ textContent: jest.fn().mockResolvedValue(texts[0]) }),
+      }) as unknown as Locator;
+
+    it('should read the profile inside the top card', async () => {
+      const cardElements: Record<string, string[]> = {
+        '[itemprop="name"]': ['Alex'],
+        '[itemprop="age"]': ['29'],
+        'text=/\\d+ (miles?|kilometers?|km) away/i': ['5 miles away'],
+        '.bullet': ['', '', '', ''],
+      };
+      const card = { locator: jest.fn((selector: string) => elementsLocator(cardElements[selector] ?? [])) };
+      mockPage.locator.mockImplementation(
+        () => ({ count: jest.fn().mockResolvedValue(1), first: jest.fn().mockReturnValue(card) }) as unknown as Locator
+      );
+
+      const profile = await site.getCurrentProfile(mockPage);
+
+      expect(mockPage.locator).toHaveBeenCalledWith('[data-keyboard-gamepad="true"][aria-hidden="false"]');
+      expect(profile).toEqual({ name: 'Alex', age: 29, distanceKm: 8, photoCount: 4, verified: false });
+    });
+
+    it('should read from the page when the top card cannot be found', async () => {
+      mockPage.locator.mockImplementation((selector: string) =>
+        elementsLocator(selector === '[itemprop="name"]' ? ['Sam'] : [])
+      );
+
+      const profile = await site.getCurrentProfile(mockPage);
+
+      expect(profile).toEqual({ name: 'Sam', verified: false });
     });
   });
 
@@ -663,6 +789,22 @@ describe('TinderSite', () => {
       const result = await site.hasMoreProfiles(mockPage);
       expect(result).toBe(false);
       expect(mockPage.locator).toHaveBeenCalledWith('text=/out of likes|no more|limit|upgrade|refresh|try again|send as many likes/i');
+      expect(site.getLimitReset()).toBeUndefined();
+    });
+
+    it('should read the reset countdown from the limit message', async () => {
+      mockPage.locator.mockImplementation((selector) => {
+        if (selector === 'text=/out of likes|no more|limit|upgrade|refresh|try again|send as many likes/i') {
+          return { count: jest.fn().mockResolvedValue(1), first: jest.fn().mockReturnThis(), textContent: jest.fn().mockResolvedValue("You're out of likes! 11:59:00") } as unknown as Locator;
+        }
+        return { count: jest.fn().mockResolvedValue(0) } as unknown as Locator;
+      });
+
+      const before = Date.now();
+      expect(await site.hasMoreProfiles(mockPage)).toBe(false);
+      const resetIn = (site.getLimitReset()?.getTime() ?? 0) - before;
+      expect(resetIn).toBeGreaterThanOrEqual((11 * 3600 + 59 * 60) * 1000);
+      expect(resetIn).toBeLessThan(12 * 3600 * 1000);
     });
 
     it('should return true if cards are present and no limit message', async () => {
@@ -0,0 +1,692 @@
+import { BrowserContext, Page } from 'playwright';
+import { Swiper, SwiperOptions } from '../src/swiper';
+import { SiteModule } from '../src/sites/base';
+import { RateLimiter } from '../src/utils/rateLimiter';
+import { DecisionStrategy } from '../src/decisions';
+import { Logger } from '../src/utils/logger';
+import { MatchEvent, SiteConfig, SwipeAction, SwipeOutcome } from '../src/types';
+import { SessionError, SessionTransition } from '../src/session';
+import { SwipeAssistant } from '../src/assist';
+import { AllowedWindows } from '../src/utils/timeWindows';
+
+jest.mock('../src/utils/logger');
+
+describe('Swiper', () => {
+  let page: jest.Mocked<Page>;
+  let context: BrowserContext;
+  let siteModule: jest.Mocked<SiteModule>;
+  let rateLimiter: jest.Mocked<RateLimiter>;
+  let strategy: jest.Mocked<DecisionStrategy>;
+  let logger: Logger;
+  let config: SiteConfig;
+  let matchListener: ((event: MatchEvent) => void) | undefined;
+
+  beforeEach(() => {
+    page = {
+      waitForTimeout: jest.fn().mockResolvedValue(undefined),
+      isClosed: jest.fn().mockReturnValue(false),
+      close: jest.fn().mockResolvedValue(undefined),
+      screenshot: jest.fn().mockResolvedValue(undefined),
+      // Fail the HTML snapshot so failing runs don't write files into the repo
+      content: jest.fn().mockRejectedValue(new Error('page closed')),
+    } as unknown as jest.Mocked<Page>;
+    context = { newPage: jest.fn().mockResolvedValue(page) } as unknown as BrowserContext;
+
+    matchListener = undefined;
+    siteModule = {
+      isLoggedIn: jest.fn().mockResolvedValue(true),
+      navigate: jest.fn().mockResolvedValue(undefined),
+      waitForCards: jest.fn().mockResolvedValue(true),
+      swipe: jest.fn<Promise<SwipeOutcome>, [Page, SwipeAction]>().mockResolvedValue({ kind: 'success' }),
+      hasMoreProfiles: jest.fn().mockResolvedValue(true),
+      dismissPopup: jest.fn().mockResolvedValue(true),
+      getUrl: jest.fn().mockReturnValue('https://example.com'),
+      getCapabilities: jest.fn().mockReturnValue({
+        swipeInput: 'buttons',
+        superLike: true,
+        matchDetection: true,
+        limitDetection: true,
+        matchPercentage: false,
+      }),
+      getPopupStats: jest.fn().mockReturnValue({ match: 1 }),
+      registerPopupHandlers: jest.fn().mockResolvedValue(undefined),
+      onMatch: jest.fn((listener: (event: MatchEvent) => void) => {
+        matchListener = listener;
+      }),
+    } as unknown as jest.Mocked<SiteModule>;
+
+    rateLimiter = {
+      delay: jest.fn().mockResolvedValue(undefined),
+      readingDelay: jest.fn().mockResolvedValue(undefined),
+      getRemainingBudget: jest.fn().mockReturnValue({ swipes: Infinity, likes: Infinity }),
+      getUsageToday: jest.fn().mockReturnValue({ swipes: 0, likes: 0 }),
+      startSession: jest.fn(),
+      acquirePage: jest.fn().mockResolvedValue(jest.fn()),
+      acquireSwipe: jest.fn().mockResolvedValue(undefined),
+      isTimeUp: jest.fn().mockReturnValue(false),
+      nextBreak: jest.fn().mockReturnValue(0),
+      takeBreak: jest.fn().mockResolvedValue(undefined),
+      recordSwipe: jest.fn(),
+      getNextEligibleRun: jest.fn().mockReturnValue(undefined),
+      setNextEligibleRun: jest.fn(),
+      waitForLimitReset: jest.fn().mockResolvedValue(undefined),
+      cancelWaits: jest.fn(),
+    } as unknown as jest.Mocked<RateLimiter>;
+
+    strategy = {
+      name: 'test',
+      decide: jest.fn().mockReturnValue({ action: 'like' }),
+    };
+
+    logger = new Logger();
+    config = {
+      name: 'example',
+      enabled: true,
+      likeRatio: 1,
+      swipeDelay: { min: 0, max: 0 },
+      maxSwipesPerSession: 3,
+    };
+  });
+
+  const createSwiper = (options?: SwiperOptions) =>
+    new Swiper(context, siteModule, rateLimiter, logger, config, strategy, options);
+
+  it('should swipe up to the session maximum and register popup handlers first', async () => {
+    const stats = await createSwiper().run();
+
+    expect(strategy.decide.mock.calls.map(([context]) => context.swipeNumber)).toEqual([1, 2, 3]);
+    expect(siteModule.registerPopupHandlers).toHaveBeenCalledWith(page);
+    expect(siteModule.swipe).toHaveBeenCalledTimes(3);
+    expect(stats).toMatchObject({ totalSwipes: 3, likes: 3, dislikes: 0, errors: 0, popups: { match: 1 } });
+    expect(page.close).toHaveBeenCalled();
+  });
+
+  it('should count matches announced by the site module', async () => {
+    siteModule.swipe.mockImplementation(async () => {
+      matchListener?.({ source: 'match', detectedAt: new Date() });
+      return { kind: 'success' };
+    });
+
+    const swiper = createSwiper();
+    const stats = await swiper.run();
+
+    expect(siteModule.onMatch).toHaveBeenCalled();
+    expect(stats.matches).toBe(3);
+    expect(Swiper.formatRate(stats.matches, stats.likes)).toBe('100.0%');
+    expect(Swiper.formatRate(0, 0)).toBe('n/a');
+  });
+
+  it('should count super likes separately and include them in the match rate', async () => {
+    strategy.decide
+      .mockReturnValueOnce({ action: 'superlike' })
+      .mockReturnValueOnce({ action: 'dislike' })
+      .mockReturnValueOnce({ action: 'like' });
+
+    const stats = await createSwiper().run();
+
+    expect(siteModule.swipe).toHaveBeenNthCalledWith(1, page, 'superlike');
+    expect(stats).toMatchObject({ totalSwipes: 3, likes: 1, superLikes: 1, dislikes: 1 });
+    expect(logger.info).toHaveBeenCalledWith('Matches: 0 (0.0% of likes)');
+  });
+
+  it('should pass the current profile to the decision strategy', async () => {
+    siteModule.getCurrentProfile = jest
+      .fn()
+      .mockResolvedValueOnce({ name: 'Alex', age: 29 })
+      .mockResolvedValue({ name: 'Sam', verified: true });
+
+    await createSwiper().run();
+
+    expect(siteModule.getCurrentProfile).toHaveBeenCalledWith(page);
+    expect(strategy.decide.mock.calls.map(([context]) => context.profile)).toEqual([
+      { name: 'Alex', age: 29 },
+      { name: 'Sam', verified: true },
+      { name: 'Sam', verified: true },
+    ]);
+  });
+
+  it('should log why a decision was made', async () => {
+    strategy.decide.mockReturnValueOnce({ action: 'dislike', reason: 'filter rule "too far"' });
+
+    await createSwiper().run();
+
+    expect(logger.info).toHaveBeenCalledWith('Decided dislike: filter rule "too far"');
+  });
+
+  it('should pass an empty profile when the site cannot read profiles', async () => {
+    await createSwiper().run();
+
+    expect(strategy.decide).toHaveBeenCalledWith({
+      swipeNumber: 1,
+      profile: {},
+      pacing: { likesToday: 0, remainingSwipes: 3 },
+    });
+  });
+
+  it('should pace decisions with the likes sent today and the swipes left', async () => {
+    rateLimiter.getUsageToday.mockReturnValue({ swipes: 9, likes: 4 });
+    rateLimiter.getRemainingBudget.mockReturnValue({ swipes: 2, likes: Infinity });
+    strategy.decide
+      .mockReturnValueOnce({ action: 'superlike', likeRatio: 0.5 })
+      .mockReturnValueOnce({ action: 'dislike', likeRatio: 0.25 });
+    config.maxSwipesPerSession = 2;
+
+    const stats = await createSwiper().run();
+
+    expect(strategy.decide.mock.calls.map(([context]) => context.pacing)).toEqual([
+      { likesToday: 4, remainingSwipes: 2 },
+      { likesToday: 5, remainingSwipes: 1 },
+    ]);
+    expect(stats.effectiveLikeRatio).toBe(0.25);
+    expect(logger.info).toHaveBeenCalledWith('Effective like ratio: 0.25 (last decision)');
+  });
+
+  it('should not print a match count for sites that cannot detect matches', async () => {
+    siteModule.getCapabilities.mockReturnValue({
+      swipeInput: 'buttons',
+      superLike: false,
+      matchDetection: false,
+      limitDetection: false,
+      matchPercentage: false,
+    });
+
+    await createSwiper().run();
+
+    expect(logger.info).toHaveBeenCalledWith('Matches: not reported by this site');
+  });
+
+  it('should stop without counting an error when a limit is reached', async () => {
+    siteModule.swipe
+      .mockResolvedValueOnce({ kind: 'success' })
+      .mockResolvedValueOnce({ kind: 'limit-reached', message: 'Out of likes' });
+
+    const stats = await createSwiper().run();
+
+    expect(stats).toMatchObject({ totalSwipes: 1, errors: 0, limitMessage: 'Out of likes', endReason: 'limit-reached' });
+  });
+
+  it('should dismiss the popup and retry the same decision when a swipe is blocked', async () => {
+    strategy.decide.mockReturnValueOnce({ action: 'dislike' }).mockReturnValue({ action: 'like' });
+    siteModule.swipe.mockResolvedValueOnce({ kind: 'popup-blocked', popup: 'dialog' });
+
+    const stats = await createSwiper().run();
+
+    expect(siteModule.dismissPopup).toHaveBeenCalledWith(page);
+    expect(siteModule.swipe).toHaveBeenNthCalledWith(2, page, 'dislike');
+    expect(stats).toMatchObject({ totalSwipes: 3, dislikes: 1, likes: 2, errors: 1, errorsByKind: { 'popup-blocked': 1 } });
+  });
+
+  it('should navigate back after the page left the site', async () => {
+    siteModule.swipe.mockResolvedValueOnce({ kind: 'navigated-away', url: 'https://elsewhere.example' });
+
+    const stats = await createSwiper().run();
+
+    expect(siteModule.navigate).toHaveBeenCalledTimes(2);
+    expect(stats.errorsByKind).toEqual({ 'navigated-away': 1 });
+  });
+
+  it('should give up after too many failed swipes in a row', async () => {
+    config.maxSwipesPerSession = 10;
+    siteModule.swipe.mockResolvedValue({ kind: 'error', message: 'boom' });
+
+    const swiper = createSwiper();
+
+    await expect(swiper.run()).rejects.toThrow('5 swipes in a row failed (last: error).');
+    expect(page.screenshot).toHaveBeenCalled();
+    expect(swiper.getStats().endReason).toBe('too-many-failures');
+    expect(swiper.getState()).toBe('done');
+  });
+
+  describe('session states', () => {
+    const recordStates = (swiper: Swiper): string[] => {
+      const states: string[] = [];
+      swiper.onStateChange((transition: SessionTransition) => states.push(transition.to));
+      return states;
+    };
+
+    it('should move through the session states and report why the session ended', async () => {
+      const swiper = createSwiper();
+      const transitions: SessionTransition[] = [];
+      swiper.onStateChange((transition) => transitions.push(transition));
+
+      const stats = await swiper.run();
+
+      expect(transitions.map(({ from, to }) => `${from} -> ${to}`)).toEqual([
+        'idle -> navigating',
+        'navigating -> waiting-for-cards',
+        'waiting-for-cards -> swiping',
+        'swiping -> done',
+      ]);
+      expect(transitions[3].endReason).toBe('max-swipes');
+      expect(stats.endReason).toBe('max-swipes');
+    });
+
+    it('should end with out-of-profiles when the site runs out of profiles', async () => {
+      siteModule.hasMoreProfiles.mockResolvedValueOnce(true).mockResolvedValue(false);
+
+      const stats = await createSwiper().run();
+
+      expect(stats).toMatchObject({ totalSwipes: 1, endReason: 'out-of-profiles' });
+    });
+
+    it('should enter the recovering state after a failed swipe and go back to swiping', async () => {
+      siteModule.swipe.mockResolvedValueOnce({ kind: 'element-missing', element: 'like button' });
+      const swiper = createSwiper();
+      const states = recordStates(swiper);
+
+      await swiper.run();
+
+      expect(states).toEqual(['navigating', 'waiting-for-cards', 'swiping', 'recovering', 'swiping', 'done']);
+    });
+
+    it('should pass through the limit-reached state before ending', async () => {
+      siteModule.swipe.mockResolvedValueOnce({ kind: 'limit-reached', message: 'Out of likes' });
+      const swiper = createSwiper();
+      const states = recordStates(swiper);
+
+      await swiper.run();
+
+      expect(states.slice(-2)).toEqual(['limit-reached', 'done']);
+    });
+
+    it('should wait for a login and fail with a SessionError when it times out', async () => {
+      siteModule.isLoggedIn.mockResolvedValue(false);
+      const swiper = createSwiper();
+      const states = recordStates(swiper);
+
+      const error = await swiper.run().catch((_error: unknown) => _error);
+
+      expect(error).toBeInstanceOf(SessionError);
+      expect(error).toMatchObject({ endReason: 'login-timeout', state: 'awaiting-login' });
+      expect(states).toEqual(['navigating', 'awaiting-login', 'done']);
+      expect(siteModule.waitForCards).not.toHaveBeenCalled();
+    });
+
+    it('should fail with no-cards if the cards never load', async () => {
+      siteModule.waitForCards.mockResolvedValue(false);
+
+      await expect(createSwiper().run()).rejects.toMatchObject({ name: 'SessionError', endReason: 'no-cards' });
+    });
+
+    it('should hold swiping while paused and continue after resume', async () => {
+      const swiper = createSwiper();
+      const states = recordStates(swiper);
+      swiper.onStateChange(({ to }) => {
+        if (to === 'paused') {
+          expect(siteModule.swipe).toHaveBeenCalledTimes(1);
+          setImmediate(() => swiper.resume());
+        }
+      });
+      siteModule.swipe.mockImplementationOnce(async () => {
+        swiper.pause();
+        return { kind: 'success' };
+      });
+
+      const stats = await swiper.run();
+
+      expect(stats.totalSwipes).toBe(3);
+      expect(states).toEqual(['navigating', 'waiting-for-cards', 'swiping', 'paused', 'swiping', 'done']);
+    });
+  });
+
+  describe('assisted mode', () => {
+    let assistant: jest.Mocked<SwipeAssistant>;
+
+    beforeEach(() => {
+      assistant = { confirm: jest.fn().mockResolvedValue('accept') };
+      siteModule.getCurrentProfile = jest.fn().mockResolvedValue({ name: 'Alex' });
+    });
+
+    it('should ask about each card with the profile and the suggestion', async () => {
+      const swiper = createSwiper({ assistant });
+      const states: string[] = [];
+      swiper.onStateChange(({ to }) => states.push(to));
+
+      await swiper.run();
+
+      expect(assistant.confirm).toHaveBeenCalledTimes(3);
+      expect(assistant.confirm).toHaveBeenCalledWith({
+        site: 'example',
+        swipeNumber: 1,
+        profile: { name: 'Alex' },
+        suggestion: { action: 'like' },
+        canSkip: false,
+        signal: expect.any(AbortSignal),
+      });
+      expect(states.slice(2, 5)).toEqual(['swiping', 'awaiting-confirmation', 'swiping']);
+    });
+
+    it('should end with stopped when Ctrl+C at the prompt stops the session', async () => {
+      const swiper = createSwiper({ assistant });
+      assistant.confirm.mockImplementationOnce(async ({ signal }) => {
+        swiper.stop();
+        expect(signal?.aborted).toBe(true);
+        return 'quit';
+      });
+
+      const stats = await swiper.run();
+
+      expect(siteModule.swipe).not.toHaveBeenCalled();
+      expect(stats.endReason).toBe('stopped');
+    });
+
+    it('should carry out overrides and end the session on quit', async () => {
+      assistant.confirm.mockResolvedValueOnce('pass').mockResolvedValueOnce('like').mockResolvedValueOnce('quit');
+
+      const stats = await createSwiper({ assistant }).run();
+
+      expect(siteModule.swipe.mock.calls.map(([, action]) => action)).toEqual(['dislike', 'like']);
+      expect(stats).toMatchObject({ totalSwipes: 2, likes: 1, dislikes: 1, endReason: 'user-quit' });
+      expect(logger.info).toHaveBeenCalledWith('You chose dislike (suggested like).');
+    });
+
+    it('should skip the card without swiping and ask about the next one', async () => {
+      siteModule.skipProfile = jest.fn().mockResolvedValue(true);
+      assistant.confirm.mockResolvedValueOnce('skip');
+
+      const stats = await createSwiper({ assistant }).run();
+
+      expect(siteModule.skipProfile).toHaveBeenCalledTimes(1);
+      expect(assistant.confirm).toHaveBeenCalledTimes(4);
+      expect(stats.totalSwipes).toBe(3);
+    });
+
+    it('should keep the decision when retrying a swipe blocked by a popup', async () => {
+      siteModule.swipe.mockResolvedValueOnce({ kind: 'popup-blocked' });
+
+      await createSwiper({ assistant }).run();
+
+      expect(assistant.confirm).toHaveBeenCalledTimes(3);
+      expect(siteModule.swipe).toHaveBeenCalledTimes(4);
+    });
+  });
+
+  describe('quotas', () => {
+    it('should count every swipe sent against the quotas', async () => {
+      strategy.decide.mockReturnValueOnce({ action: 'superlike' }).mockReturnValue({ action: 'dislike' });
+
+      await createSwiper().run();
+
+      expect(rateLimiter.recordSwipe.mock.calls).toEqual([['superlike'], ['dislike'], ['dislike']]);
+    });
+
+    it('should end the session and name the quota once one is used up', async () => {
+      config.maxSwipesPerDay = 10;
+      rateLimiter.getRemainingBudget
+        .mockReturnValueOnce({ swipes: 1, likes: Infinity })
+        .mockReturnValueOnce({ swipes: 1, likes: Infinity })
+        .mockReturnValue({ swipes: 0, likes: Infinity, exhausted: 'maxSwipesPerDay' });
+
+      const stats = await createSwiper().run();
+
+      expect(siteModule.swipe).toHaveBeenCalledTimes(1);
+      expect(stats).toMatchObject({ totalSwipes: 1, endReason: 'quota-reached', quota: 'maxSwipesPerDay' });
+      expect(logger.info).toHaveBeenCalledWith('Quota budget left: 1 swipes.');
+      expect(logger.warn).toHaveBeenCalledWith('Daily swipe quota reached (maxSwipesPerDay: 10). Ending session.');
+    });
+
+    it('should not swipe at all when a quota was used up by earlier runs', async () => {
+      rateLimiter.getRemainingBudget.mockReturnValue({ swipes: 5, likes: 0, exhausted: 'maxLikesPerDay' });
+
+      const stats = await createSwiper().run();
+
+      expect(siteModule.swipe).not.toHaveBeenCalled();
+      expect(stats).toMatchObject({ totalSwipes: 0, endReason: 'quota-reached', quota: 'maxLikesPerDay' });
+    });
+  });
+
+  describe('time limits and breaks', () => {
+    it('should end the session once the time limit is reached', async () => {
+      config.maxSessionMinutes = 30;
+      rateLimiter.isTimeUp.mockReturnValueOnce(false).mockReturnValue(true);
+
+      const stats = await createSwiper().run();
+
+      expect(rateLimiter.startSession).toHaveBeenCalledTimes(1);
+      expect(siteModule.swipe).toHaveBeenCalledTimes(1);
+      expect(stats.endReason).toBe('time-limit');
+      expect(logger.warn).toHaveBeenCalledWith('Session time limit reached (maxSessionMinutes: 30). Ending session.');
+    });
+
+    it('should take the breaks the scheduler asks for between swipes', async () => {
+      const states: string[] = [];
+      rateLimiter.nextBreak.mockImplementation((swipeCount: number) => (swipeCount === 2 ? 90000 : 0));
+      const swiper = createSwiper();
+      swiper.onStateChange(({ to }) => states.push(to));
+
+      const stats = await swiper.run();
+
+      expect(rateLimiter.nextBreak.mock.calls).toEqual([[1], [2]]);
+      expect(rateLimiter.takeBreak).toHaveBeenCalledWith(90000);
+      expect(states).toContain('on-break');
+      expect(stats.totalSwipes).toBe(3);
+      expect(logger.info).toHaveBeenCalledWith('Taking a break for 1.5 minutes after 2 swipes...');
+    });
+  });
+
+  describe('stopping', () => {
+    it('should end after the current swipe and print the statistics', async () => {
+      config.maxSwipesPerSession = 5;
+      const swiper = createSwiper();
+      siteModule.swipe.mockImplementation(async () => {
+        if (siteModule.swipe.mock.calls.length === 2) {
+          swiper.stop();
+        }
+        return { kind: 'success' };
+      });
+
+      const stats = await swiper.run();
+
+      expect(stats).toMatchObject({ totalSwipes: 2, endReason: 'stopped' });
+      expect(rateLimiter.cancelWaits).toHaveBeenCalledTimes(1);
+      expect(swiper.isStopRequested()).toBe(true);
+      expect(logger.info).toHaveBeenCalledWith('Ended: stopped');
+      expect(page.close).toHaveBeenCalled();
+    });
+
+    it('should end a paused session', async () => {
+      const swiper = createSwiper();
+      siteModule.swipe.mockImplementationOnce(async () => {
+        swiper.pause();
+        setImmediate(() => swiper.stop());
+        return { kind: 'success' };
+      });
+
+      const stats = await swiper.run();
+
+      expect(stats).toMatchObject({ totalSwipes: 1, endReason: 'stopped' });
+    });
+
+    it('should not open a page when stopped while waiting for a page slot', async () => {
+      const releasePage = jest.fn();
+      const swiper = createSwiper();
+      rateLimiter.acquirePage.mockImplementation(async () => {
+        swiper.stop();
+        return releasePage;
+      });
+
+      const stats = await swiper.run();
+
+      expect(context.newPage).not.toHaveBeenCalled();
+      expect(releasePage).toHaveBeenCalled();
+      expect(stats).toMatchObject({ totalSwipes: 0, endReason: 'stopped' });
+    });
+
+    it('should not send the swipe when stopped while waiting for the shared budget', async () => {
+      const swiper = createSwiper();
+      rateLimiter.acquireSwipe.mockImplementationOnce(async () => swiper.stop());
+
+      const stats = await swiper.run();
+
+      expect(siteModule.swipe).not.toHaveBeenCalled();
+      expect(stats).toMatchObject({ totalSwipes: 0, endReason: 'stopped' });
+    });
+
+    it('should not start a session that was stopped before it ran', async () => {
+      const swiper = createSwiper();
+      swiper.stop();
+
+      const stats = await swiper.run();
+
+      expect(context.newPage).not.toHaveBeenCalled();
+      expect(stats).toMatchObject({ totalSwipes: 0, endReason: 'stopped' });
+    });
+  });
+
+  describe('restarts', () => {
+    it('should resume on a new page with the swipes left after a failed run', async () => {
+      config.maxSwipesPerSession = 5;
+      siteModule.swipe
+        .mockResolvedValueOnce({ kind: 'success' })
+        .mockResolvedValueOnce({ kind: 'success' })
+        .mockResolvedValueOnce({ kind: 'navigated-away', url: 'https://example.com/elsewhere' });
+      siteModule.waitForCards.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+      const swiper = createSwiper();
+
+      await expect(swiper.run()).rejects.toMatchObject({ endReason: 'recovery-failed' });
+      expect(swiper.getStats().totalSwipes).toBe(2);
+
+      const stats = await swiper.run();
+
+      expect(context.newPage).toHaveBeenCalledTimes(2);
+      expect(stats).toMatchObject({ totalSwipes: 5, errors: 1, endReason: 'max-swipes' });
+      expect(siteModule.swipe).toHaveBeenCalledTimes(6);
+      // The time limit and today's like count carry over from the first run
+      expect(rateLimiter.startSession).toHaveBeenCalledTimes(1);
+      expect(rateLimiter.getUsageToday).toHaveBeenCalledTimes(1);
+      expect(logger.info).toHaveBeenCalledWith('Resuming after 2 of 5 swipes...');
+    });
+  });
+
+  describe('limit resets', () => {
+    it('should remember when the site says its limit resets', async () => {
+      const resetAt = new Date(Date.now() + 3 * 3600000);
+      siteModule.getLimitReset = jest.fn().mockReturnValue(resetAt);
+      siteModule.swipe.mockResolvedValueOnce({ kind: 'limit-reached', message: 'Out of likes 02:59:59' });
+
+      const stats = await createSwiper().run();
+
+      expect(stats).toMatchObject({ endReason: 'limit-reached', limitResetAt: resetAt });
+      expect(rateLimiter.setNextEligibleRun).toHaveBeenCalledWith(resetAt);
+    });
+
+    it('should not remember a reset time when the session ended for another reason', async () => {
+      siteModule.getLimitReset = jest.fn().mockReturnValue(new Date());
+
+      const stats = await createSwiper().run();
+
+      expect(stats.endReason).toBe('max-swipes');
+      expect(stats.limitResetAt).toBeUndefined();
+      expect(rateLimiter.setNextEligibleRun).not.toHaveBeenCalled();
+    });
+
+    it('should skip the run while an earlier limit has not reset', async () => {
+      const resetAt = new Date(Date.now() + 2 * 3600000);
+      rateLimiter.getNextEligibleRun.mockReturnValue(resetAt);
+
+      const stats = await createSwiper().run();
+
+      expect(context.newPage).not.toHaveBeenCalled();
+      expect(stats).toMatchObject({ totalSwipes: 0, endReason: 'limit-pending', limitResetAt: resetAt });
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('skipping this run'));
+    });
+
+    it('should wait for the limit to reset when it is within maxLimitWaitMinutes', async () => {
+      rateLimiter.getNextEligibleRun.mockReturnValue(new Date(Date.now() + 10 * 60000));
+      config.maxLimitWaitMinutes = 15;
+
+      const stats = await createSwiper().run();
+
+      const [waitMs] = rateLimiter.waitForLimitReset.mock.calls[0];
+      expect(waitMs).toBeGreaterThan(9 * 60000);
+      expect(waitMs).toBeLessThanOrEqual(10 * 60000);
+      expect(stats).toMatchObject({ totalSwipes: 3, endReason: 'max-swipes' });
+    });
+
+    it('should start normally once the reset time has passed', async () => {
+      rateLimiter.getNextEligibleRun.mockReturnValue(new Date(Date.now() - 60000));
+
+      const stats = await createSwiper().run();
+
+      expect(rateLimiter.waitForLimitReset).not.toHaveBeenCalled();
+      expect(stats.endReason).toBe('max-swipes');
+    });
+  });
+
+  describe('allowed windows', () => {
+    beforeEach(() => {
+      config.allowedWindows = [{ days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '18:00', end: '23:00' }];
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('should refuse to start outside the allowed windows', async () => {
+      jest.spyOn(AllowedWindows.prototype, 'isOpen').mockReturnValue(false);
+
+      const stats = await createSwiper().run();
+
+      expect(context.newPage).not.toHaveBeenCalled();
+      expect(stats).toMatchObject({ totalSwipes: 0, endReason: 'outside-window' });
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Outside the allowed windows (mon/tue/wed/thu/fri 18:00-23:00), not starting.'
+      );
+    });
+
+    it('should wind down when the window closes mid-session', async () => {
+      jest.spyOn(AllowedWindows.prototype, 'isOpen').mockReturnValueOnce(true).mockReturnValueOnce(true).mockReturnValue(false);
+
+      const stats = await createSwiper().run();
+
+      expect(siteModule.swipe).toHaveBeenCalledTimes(1);
+      expect(stats).toMatchObject({ totalSwipes: 1, endReason: 'window-closed' });
+      expect(page.close).toHaveBeenCalled();
+    });
+  });
+
+  describe('dry run', () => {
+    it('should decide on the first profile without swiping when the site cannot skip profiles', async () => {
+      strategy.decide.mockReturnValue({ action: 'dislike' });
+
+      const stats = await createSwiper({ dryRun: true }).run();
+
+      expect(siteModule.swipe).not.toHaveBeenCalled();
+      expect(rateLimiter.recordSwipe).not.toHaveBeenCalled();
+      expect(strategy.decide).toHaveBeenCalledTimes(1);
+      expect(stats).toMatchObject({ dryRun: true, totalSwipes: 1, dislikes: 1, endReason: 'cannot-advance' });
+      expect(logger.info).toHaveBeenCalledWith(expect.stringContaining('Dry run 1/3: would pass'));
+      expect(logger.info).toHaveBeenCalledWith('=== Session Statistics (DRY RUN) ===');
+    });
+
+    it('should skip through the deck on sites that can skip profiles', async () => {
+      siteModule.skipProfile = jest.fn().mockResolvedValue(true);
+      strategy.decide
+        .mockReturnValueOnce({ action: 'like' })
+        .mockReturnValueOnce({ action: 'superlike' })
+        .mockReturnValueOnce({ action: 'dislike' });
+
+      const stats = await createSwiper({ dryRun: true }).run();
+
+      expect(siteModule.swipe).not.toHaveBeenCalled();
+      expect(siteModule.skipProfile).toHaveBeenCalledTimes(2);
+      expect(stats).toMatchObject({ totalSwipes: 3, likes: 1, superLikes: 1, dislikes: 1, endReason: 'max-swipes' });
+      expect(logger.info).toHaveBeenCalledWith(expect.stringContaining('Dry run 2/3: would super like'));
+    });
+
+    it('should stop when the site fails to skip a profile', async () => {
+      siteModule.skipProfile = jest.fn().mockResolvedValue(false);
+
+      const stats = await createSwiper({ dryRun: true }).run();
+
+      expect(stats).toMatchObject({ totalSwipes: 1, endReason: 'cannot-advance' });
+    });
+
+    it('should not mark regular sessions as dry runs', async () => {
+      const stats = await createSwiper().run();
+
+      expect(stats.dryRun).toBe(false);
+      expect(logger.info).toHaveBeenCalledWith('=== Session Statistics ===');
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { CronParseError, CronSchedule } from '../../src/utils/cron';
+
+describe('CronSchedule', () => {
+  // Monday 19 October 2026, 18:30 local time
+  const monday = new Date(2026, 9, 19, 18, 30);
+
+  it('should find the next run of a daily schedule', () => {
+    const schedule = new CronSchedule('0 19 * * *');
+
+    expect(schedule.next(monday)).toEqual(new Date(2026, 9, 19, 19, 0));
+    expect(schedule.next(new Date(2026, 9, 19, 19, 0))).toEqual(new Date(2026, 9, 20, 19, 0));
+  });
+
+  it('should support ranges, lists and steps', () => {
+    const schedule = new CronSchedule('*/20 9-17 * * 1-5');
+
+    expect(schedule.next(monday)).toEqual(new Date(2026, 9, 20, 9, 0));
+    expect(schedule.matches(new Date(2026, 9, 20, 13, 40))).toBe(true);
+    expect(schedule.matches(new Date(2026, 9, 20, 13, 45))).toBe(false);
+    expect(schedule.next(new Date(2026, 9, 23, 17, 40))).toEqual(new Date(2026, 9, 26, 9, 0));
+    expect(new CronSchedule('15,45 8 * * *').next(new Date(2026, 9, 20, 8, 20))).toEqual(new Date(2026, 9, 20, 8, 45));
+  });
+
+  it('should treat 7 as Sunday and match either day field when both are set', () => {
+    expect(new CronSchedule('0 10 * * 7').next(monday)).toEqual(new Date(2026, 9, 25, 10, 0));
+    // The 1st of the month or any Wednesday
+    expect(new CronSchedule('0 10 1 * 3').next(monday)).toEqual(new Date(2026, 9, 21, 10, 0));
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => new CronSchedule('0 19 * *')).toThrow(CronParseError);
+    expect(() => new CronSchedule('0 19 * *')).toThrow('expected 5 fields, found 4.');
+    expect(() => new CronSchedule('0 24 * * *')).toThrow('24 is outside the hour range 0-23.');
+    expect(() => new CronSchedule('0 19 * * mon')).toThrow('"mon" in the day of week field is not a number.');
+    expect(() => new CronSchedule('*/0 19 * * *')).toThrow('must be at least 1');
+    expect(() => new CronSchedule('0 0 31 2 *')).toThrow('does not match any date');
+  });
+});
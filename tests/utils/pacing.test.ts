@@ -0,0 +1,93 @@
+import { PacingScheduler } from '../../src/utils/pacing';
+import { Rng } from '../../src/utils/random';
+import { SiteConfig } from '../../src/types';
+
+describe('PacingScheduler', () => {
+  let config: SiteConfig;
+  let rng: Rng;
+  let clock: number;
+
+  const minutes = (count: number) => count * 60 * 1000;
+  const createScheduler = () => new PacingScheduler(config, rng, () => clock);
+
+  beforeEach(() => {
+    config = {
+      name: 'tinder',
+      enabled: true,
+      likeRatio: 0.5,
+      swipeDelay: { min: 1000, max: 2000 },
+      maxSwipesPerSession: 100,
+    };
+    rng = new Rng('pacing');
+    clock = 0;
+  });
+
+  it('should keep the swipe delay and reading pauses within the configured ranges', () => {
+    config.readingPause = { probability: 1, duration: { min: 300, max: 400 } };
+    const scheduler = createScheduler();
+
+    for (let i = 0; i < 50; i++) {
+      const delay = scheduler.swipeDelay();
+      expect(delay).toBeGreaterThanOrEqual(1000);
+      expect(delay).toBeLessThanOrEqual(2000);
+      const pause = scheduler.readingPause();
+      expect(pause).toBeGreaterThanOrEqual(300);
+      expect(pause).toBeLessThanOrEqual(400);
+    }
+
+    config.readingPause = { probability: 0 };
+    expect(createScheduler().readingPause()).toBe(0);
+  });
+
+  it('should report the time limit from the start of the session', () => {
+    config.maxSessionMinutes = 20;
+    const scheduler = createScheduler();
+    expect(scheduler.isTimeUp()).toBe(false);
+
+    clock = minutes(5);
+    scheduler.start();
+    clock = minutes(24);
+    expect(scheduler.timeLeft()).toBe(minutes(1));
+    clock = minutes(25);
+    expect(scheduler.isTimeUp()).toBe(true);
+  });
+
+  it('should schedule a break every few swipes', () => {
+    config.breakEvery = { swipes: 10 };
+    config.breakDuration = { min: 2, max: 2 };
+    const scheduler = createScheduler();
+    scheduler.start();
+
+    expect(scheduler.nextBreak(9)).toBe(0);
+    expect(scheduler.nextBreak(10)).toBe(minutes(2));
+    expect(scheduler.nextBreak(11)).toBe(0);
+    expect(scheduler.nextBreak(20)).toBe(minutes(2));
+  });
+
+  it('should count time-based breaks from the end of the last break', () => {
+    config.breakEvery = { minutes: 10 };
+    config.breakDuration = { min: 5, max: 5 };
+    const scheduler = createScheduler();
+    scheduler.start();
+
+    clock = minutes(9);
+    expect(scheduler.nextBreak(3)).toBe(0);
+    clock = minutes(10);
+    expect(scheduler.nextBreak(4)).toBe(minutes(5));
+    clock = minutes(24);
+    expect(scheduler.nextBreak(8)).toBe(0);
+    clock = minutes(25);
+    expect(scheduler.nextBreak(9)).toBe(minutes(5));
+  });
+
+  it('should not let a break run past the time limit', () => {
+    config.breakEvery = { swipes: 5 };
+    config.breakDuration = { min: 5, max: 5 };
+    config.maxSessionMinutes = 12;
+    const scheduler = createScheduler();
+    scheduler.start();
+
+    clock = minutes(10);
+    expect(scheduler.nextBreak(5)).toBe(minutes(2));
+  });
+});
@@ -0,0 +1,39 @@
+import { Rng } from '../../src/utils/random';
+
+describe('Rng', () => {
+  const draw = (rng: Rng, count: number) => Array.from({ length: count }, () => rng.next());
+
+  it('should repeat the same sequence for the same seed', () => {
+    expect(draw(new Rng(42), 5)).toEqual(draw(new Rng('42'), 5));
+    expect(draw(new Rng(42), 5)).not.toEqual(draw(new Rng(43), 5));
+  });
+
+  it('should pick a new seed when none is given', () => {
+    const rng = new Rng();
+
+    expect(rng.seed).toMatch(/^\d+$/);
+    expect(draw(new Rng(rng.seed), 3)).toEqual(draw(rng, 3));
+  });
+
+  it('should stay within the requested ranges', () => {
+    const rng = new Rng('ranges');
+
+    for (let i = 0; i < 200; i++) {
+      const value = rng.between(5, 10);
+      expect(value).toBeGreaterThanOrEqual(5);
+      expect(value).toBeLessThan(10);
+      expect([1, 2, 3]).toContain(rng.int(1, 3));
+    }
+    expect(rng.chance(0)).toBe(false);
+    expect(rng.chance(1)).toBe(true);
+  });
+
+  it('should derive independent generators that are reproducible', () => {
+    const rng = new Rng(7);
+    const pacing = rng.derive('pacing');
+
+    expect(pacing.seed).toBe('7/pacing');
+    expect(draw(pacing, 3)).toEqual(draw(new Rng(7).derive('pacing'), 3));
+    expect(draw(rng.derive('decisions'), 3)).not.toEqual(draw(rng.derive('pacing'), 3));
+  });
+});
@@ -0,0 +1,112 @@
+import { GlobalRateBudget } from '../../src/utils/rateBudget';
+import { Logger } from '../../src/utils/logger';
+
+jest.mock('../../src/utils/logger');
+
+describe('GlobalRateBudget', () => {
+  let logger: jest.Mocked<Logger>;
+
+  beforeEach(() => {
+    logger = new Logger() as jest.Mocked<Logger>;
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should hold back swipes over the per-minute budget until the oldest one is a minute old', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const budget = new GlobalRateBudget({ maxActionsPerMinute: 2 }, logger);
+    const sent: number[] = [];
+    const send = () => budget.acquireAction().then(() => sent.push(Date.now()));
+
+    const swipes = Promise.all([send(), send(), send()]);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sent).toEqual([0, 0]);
+
+    await jest.advanceTimersByTimeAsync(60000);
+    await swipes;
+    expect(sent).toEqual([0, 0, 60000]);
+  });
+
+  it('should not wait without a per-minute limit', async () => {
+    const budget = new GlobalRateBudget({}, logger);
+
+    await expect(Promise.all([budget.acquireAction(), budget.acquireAction()])).resolves.toBeDefined();
+  });
+
+  it('should hand a freed page slot to the next site waiting for one', async () => {
+    const budget = new GlobalRateBudget({ maxConcurrentPages: 1 }, logger);
+    const releaseTinder = await budget.acquirePage('tinder');
+
+    let okcupidStarted = false;
+    const okcupid = budget.acquirePage('okcupid').then((release) => {
+      okcupidStarted = true;
+      return release;
+    });
+    await new Promise(setImmediate);
+    expect(okcupidStarted).toBe(false);
+    expect(logger.info).toHaveBeenCalledWith('okcupid is waiting for one of the 1 page slots to free up...');
+
+    releaseTinder();
+    releaseTinder();
+    const releaseOkcupid = await okcupid;
+    expect(okcupidStarted).toBe(true);
+
+    releaseOkcupid();
+    await expect(budget.acquirePage('bumble')).resolves.toEqual(expect.any(Function));
+  });
+
+  it('should stop waiting for the per-minute budget when the signal aborts, without counting a swipe', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const budget = new GlobalRateBudget({ maxActionsPerMinute: 1 }, logger);
+    const tinder = new AbortController();
+    const okcupid = new AbortController();
+    await budget.acquireAction(tinder.signal);
+
+    let tinderDone = false;
+    let okcupidDone = false;
+    const tinderWait = budget.acquireAction(tinder.signal).then(() => (tinderDone = true));
+    const okcupidWait = budget.acquireAction(okcupid.signal).then(() => (okcupidDone = true));
+    await jest.advanceTimersByTimeAsync(1000);
+    expect([tinderDone, okcupidDone]).toEqual([false, false]);
+
+    // okcupid is queued behind tinder, but its own stop does not wait for tinder's turn
+    okcupid.abort();
+    await jest.advanceTimersByTimeAsync(0);
+    expect([tinderDone, okcupidDone]).toEqual([false, true]);
+
+    tinder.abort();
+    await Promise.all([tinderWait, okcupidWait]);
+    expect(jest.getTimerCount()).toBe(0);
+
+    // Neither cancelled wait took a slot, so the next swipe goes out once the first one is a minute old
+    let sentAt: number | undefined;
+    const next = budget.acquireAction().then(() => (sentAt = Date.now()));
+    await jest.advanceTimersByTimeAsync(60000);
+    await next;
+    expect(sentAt).toBe(60000);
+  });
+
+  it('should drop a site from the page queue when its signal aborts', async () => {
+    const budget = new GlobalRateBudget({ maxConcurrentPages: 1 }, logger);
+    const releaseTinder = await budget.acquirePage('tinder');
+    const okcupid = new AbortController();
+
+    const okcupidWait = budget.acquirePage('okcupid', okcupid.signal);
+    okcupid.abort();
+    const releaseOkcupid = await okcupidWait;
+    releaseOkcupid();
+
+    // The freed slot is not handed to the site that stopped waiting
+    releaseTinder();
+    const releaseBumble = await budget.acquirePage('bumble');
+    let hingeStarted = false;
+    void budget.acquirePage('hinge').then(() => (hingeStarted = true));
+    await new Promise(setImmediate);
+    expect(hingeStarted).toBe(false);
+    releaseBumble();
+    await new Promise(setImmediate);
+    expect(hingeStarted).toBe(true);
+  });
+});
@@ -0,0 +1,95 @@
+import { RateLimiter } from '../../src/utils/rateLimiter';
+import { StateStore } from '../../src/utils/stateStore';
+import { GlobalRateBudget } from '../../src/utils/rateBudget';
+import { Logger } from '../../src/utils/logger';
+import { SiteConfig } from '../../src/types';
+
+jest.mock('../../src/utils/logger');
+
+describe('RateLimiter', () => {
+  let logger: Logger;
+  let store: StateStore;
+  let config: SiteConfig;
+
+  const now = new Date(2026, 9, 19, 12);
+  const daysAgo = (days: number) => new Date(2026, 9, 19 - days, 12);
+
+  beforeEach(() => {
+    logger = new Logger();
+    store = new StateStore(undefined, logger);
+    config = {
+      name: 'tinder',
+      enabled: true,
+      likeRatio: 0.5,
+      swipeDelay: { min: 0, max: 0 },
+      maxSwipesPerSession: 100,
+    };
+  });
+
+  describe('cancelWaits', () => {
+    it('should cut the wait in progress short and skip the ones after', async () => {
+      const rateLimiter = new RateLimiter(config, logger, undefined, store);
+      const breakOver = jest.fn();
+      const pending = rateLimiter.takeBreak(60 * 60000).then(breakOver);
+
+      await Promise.resolve();
+      expect(breakOver).not.toHaveBeenCalled();
+      rateLimiter.cancelWaits();
+      await pending;
+      expect(breakOver).toHaveBeenCalled();
+
+      await rateLimiter.waitForLimitReset(60 * 60000);
+      await rateLimiter.waitBeforeRestart(60 * 60000);
+    });
+
+    it('should end the waits for the shared budget too', async () => {
+      const budget = new GlobalRateBudget({ maxConcurrentPages: 1, maxActionsPerMinute: 1 }, logger);
+      const other = new RateLimiter({ ...config, name: 'okcupid' }, logger, undefined, store, budget);
+      const rateLimiter = new RateLimiter(config, logger, undefined, store, budget);
+      await other.acquirePage();
+      await other.acquireSwipe();
+
+      const page = rateLimiter.acquirePage();
+      const swipe = rateLimiter.acquireSwipe();
+      rateLimiter.cancelWaits();
+
+      await expect(page).resolves.toEqual(expect.any(Function));
+      await expect(swipe).resolves.toBeUndefined();
+    });
+  });
+
+  describe('getRemainingBudget', () => {
+    it('should not limit anything without quotas', () => {
+      store.recordSwipe('tinder', 'like', now);
+
+      expect(new RateLimiter(config, logger, undefined, store).getRemainingBudget(now)).toEqual({
+        swipes: Infinity,
+        likes: Infinity,
+      });
+    });
+
+    it('should take the tightest swipe quota and count earlier days for the week', () => {
+      config.maxSwipesPerDay = 10;
+      config.maxSwipesPerWeek = 12;
+      config.maxLikesPerDay = 5;
+      store.recordSwipe('tinder', 'dislike', daysAgo(6));
+      store.recordSwipe('tinder', 'like', daysAgo(1));
+      store.recordSwipe('tinder', 'like', daysAgo(7));
+      const rateLimiter = new RateLimiter(config, logger, undefined, store);
+      rateLimiter.recordSwipe('like', now);
+
+      expect(rateLimiter.getRemainingBudget(now)).toEqual({ swipes: 9, likes: 4 });
+
+      config.maxSwipesPerWeek = 3;
+      expect(rateLimiter.getRemainingBudget(now)).toEqual({ swipes: 0, likes: 4, exhausted: 'maxSwipesPerWeek' });
+    });
+
+    it('should name the like quota once it is used up', () => {
+      config.maxLikesPerDay = 1;
+      const rateLimiter = new RateLimiter(config, logger, undefined, store);
+      rateLimiter.recordSwipe('superlike', now);
+
+      expect(rateLimiter.getRemainingBudget(now)).toEqual({ swipes: Infinity, likes: 0, exhausted: 'maxLikesPerDay' });
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { dayKey, STATE_FILE_NAME, StateStore } from '../../src/utils/stateStore';
+import { Logger } from '../../src/utils/logger';
+
+jest.mock('../../src/utils/logger');
+
+describe('StateStore', () => {
+  let dir: string;
+  let path: string;
+  let logger: jest.Mocked<Logger>;
+
+  const at = (day: number) => new Date(2026, 9, day, 12);
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'swiper-state-'));
+    path = join(dir, STATE_FILE_NAME);
+    logger = new Logger() as jest.Mocked<Logger>;
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should keep the state file next to the browser profile', () => {
+    expect(StateStore.pathFor(join(dir, 'browser-profile'))).toBe(path);
+  });
+
+  it('should count swipes and likes per day and site', () => {
+    const store = new StateStore(path, logger);
+    store.recordSwipe('tinder', 'like', at(18));
+    store.recordSwipe('tinder', 'superlike', at(19));
+    store.recordSwipe('tinder', 'dislike', at(19));
+    store.recordSwipe('okcupid', 'like', at(19));
+
+    expect(store.getUsage('tinder', 1, at(19))).toEqual({ swipes: 2, likes: 1 });
+    expect(store.getUsage('tinder', 7, at(19))).toEqual({ swipes: 3, likes: 2 });
+    expect(store.getUsage('bumble', 7, at(19))).toEqual({ swipes: 0, likes: 0 });
+  });
+
+  it('should remember usage across runs and forget days no quota looks at', () => {
+    const first = new StateStore(path, logger);
+    first.recordSwipe('tinder', 'like', at(1));
+    first.recordSwipe('tinder', 'like', at(12));
+    first.recordSwipe('tinder', 'dislike', at(19));
+
+    const state = JSON.parse(readFileSync(path, 'utf-8'));
+    expect(Object.keys(state.sites.tinder.usage)).toEqual([dayKey(at(12)), dayKey(at(19))]);
+    expect(new StateStore(path, logger).getUsage('tinder', 8, at(19))).toEqual({ swipes: 2, likes: 1 });
+  });
+
+  it('should remember when each site may run next', () => {
+    const resetAt = new Date(2026, 9, 20, 7, 30);
+    new StateStore(path, logger).setNextEligibleRun('tinder', resetAt);
+
+    const store = new StateStore(path, logger);
+    expect(store.getNextEligibleRun('tinder')).toEqual(resetAt);
+    expect(store.getNextEligibleRun('okcupid')).toBeUndefined();
+  });
+
+  it('should start empty when the state file cannot be read', () => {
+    writeFileSync(path, '{ not json');
+
+    const store = new StateStore(path, logger);
+
+    expect(store.getUsage('tinder', 7)).toEqual({ swipes: 0, likes: 0 });
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining(`Could not read ${path}`));
+  });
+
+  it('should only keep the state in memory without a path', () => {
+    const store = new StateStore(undefined, logger);
+    store.recordSwipe('tinder', 'like');
+
+    expect(store.getUsage('tinder', 1)).toEqual({ swipes: 1, likes: 1 });
+    expect(store.getPath()).toBeUndefined();
+  });
+});
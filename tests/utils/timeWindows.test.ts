@@ -0,0 +1,55 @@
+import { AllowedWindows, TimeWindowError } from '../../src/utils/timeWindows';
+
+describe('AllowedWindows', () => {
+  // Monday 19 October 2026, local time
+  const monday = (hours: number, minutes = 0) => new Date(2026, 9, 19, hours, minutes);
+
+  it('should be open on the listed days between start and end', () => {
+    const windows = new AllowedWindows([{ days: ['mon', 'tue', 'wed', 'thu', 'fri'], start: '18:00', end: '23:00' }]);
+
+    expect(windows.isOpen(monday(17, 59))).toBe(false);
+    expect(windows.isOpen(monday(18))).toBe(true);
+    expect(windows.isOpen(monday(22, 59))).toBe(true);
+    expect(windows.isOpen(monday(23))).toBe(false);
+    expect(windows.isOpen(new Date(2026, 9, 18, 20))).toBe(false);
+  });
+
+  it('should run windows that end before they start past midnight', () => {
+    const windows = new AllowedWindows([{ days: ['sun'], start: '22:00', end: '02:00' }]);
+
+    expect(windows.isOpen(new Date(2026, 9, 18, 23))).toBe(true);
+    expect(windows.isOpen(monday(1, 30))).toBe(true);
+    expect(windows.isOpen(monday(2))).toBe(false);
+    expect(windows.isOpen(monday(23))).toBe(false);
+  });
+
+  it('should read the times in the window\'s time zone', () => {
+    const windows = new AllowedWindows([{ days: ['tue'], start: '00:00', end: '01:00', timezone: 'Asia/Tokyo' }]);
+
+    // 15:30 UTC on Monday is 00:30 on Tuesday in Tokyo
+    expect(windows.isOpen(new Date(Date.UTC(2026, 9, 19, 15, 30)))).toBe(true);
+    expect(windows.isOpen(new Date(Date.UTC(2026, 9, 19, 16, 30)))).toBe(false);
+    expect(windows.describe()).toBe('tue 00:00-01:00 (Asia/Tokyo)');
+  });
+
+  it('should be open when any window is', () => {
+    const windows = new AllowedWindows([
+      { start: '08:00', end: '09:00' },
+      { start: '12:00', end: '24:00' },
+    ]);
+
+    expect(windows.isOpen(monday(8, 30))).toBe(true);
+    expect(windows.isOpen(monday(23, 59))).toBe(true);
+    expect(windows.isOpen(monday(10))).toBe(false);
+    expect(windows.describe()).toBe('every day 08:00-09:00; every day 12:00-24:00');
+  });
+
+  it('should reject invalid days, times and time zones', () => {
+    expect(() => new AllowedWindows([{ days: ['monday' as 'mon'], start: '18:00', end: '23:00' }])).toThrow(TimeWindowError);
+    expect(() => new AllowedWindows([{ start: '6pm', end: '23:00' }])).toThrow('"6pm" is not a time of day (HH:MM).');
+    expect(() => new AllowedWindows([{ start: '18:00', end: '18:00' }])).toThrow('start and end must differ.');
+    expect(() => new AllowedWindows([{ start: '18:00', end: '23:00', timezone: 'Mars/Olympus' }])).toThrow(
+      'unknown time zone "Mars/Olympus".'
+    );
+  });
+});